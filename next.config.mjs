@@ -14,7 +14,9 @@ const nextConfig = {
   // Reduce the number of concurrent operations to avoid "too many open files" error
   experimental: {
     workerThreads: false,
-    cpus: 1
+    cpus: 1,
+    // Runs src/instrumentation.ts, which can start the event indexers
+    instrumentationHook: true
   }
 };
 
@@ -0,0 +1,91 @@
+/**
+ * Prepares stored contracts for the @@unique([projectId, network, address]) constraint, before `prisma db push`
+ * Addresses are checksummed and legacy network aliases replaced by their registry id, so the constraint sees the
+ * same values the import route compares. When a project holds a contract more than once, the earliest import is
+ * kept, the duplicates' chat sessions are moved to it, and the duplicates are deleted.
+ *
+ * Only raw queries are used, on tables checked to exist, so it runs against a database of any age.
+ */
+
+const { PrismaClient } = require('@prisma/client');
+const { ethers } = require('ethers');
+
+// Legacy network ids still found in stored rows; see `aliases` in src/lib/networks.ts
+const NETWORK_ALIASES = {
+  mainnet: 'ethereum',
+};
+
+const tableExists = async (tx, table) => {
+  const [row] = await tx.$queryRaw`SELECT to_regclass(${`"${table}"`}::text)::text AS name`;
+  return Boolean(row && row.name);
+};
+
+const toChecksumAddress = (address) => {
+  try {
+    return ethers.utils.getAddress(address);
+  } catch (error) {
+    return null;
+  }
+};
+
+const normalizeContracts = async (prisma) => {
+  await prisma.$transaction(async (tx) => {
+    if (!(await tableExists(tx, 'SmartContract'))) {
+      console.log('[normalize-contracts] No SmartContract table yet, nothing to do');
+      return;
+    }
+    const hasChatSessions = await tableExists(tx, 'ChatSession');
+
+    const contracts = await tx.$queryRaw`
+      SELECT "id", "projectId", "network", "address" FROM "SmartContract" ORDER BY "createdAt" ASC, "id" ASC`;
+
+    const kept = new Map();
+    const updates = [];
+    let removed = 0;
+
+    for (const contract of contracts) {
+      const storedNetwork = contract.network.toLowerCase();
+      const network = NETWORK_ALIASES[storedNetwork] || storedNetwork;
+      const address = toChecksumAddress(contract.address);
+      if (!address) {
+        console.warn(`[normalize-contracts] Contract ${contract.id} has an invalid address, leaving it as is: ${contract.address}`);
+      }
+
+      const key = `${contract.projectId}:${network}:${(address || contract.address).toLowerCase()}`;
+      const original = kept.get(key);
+
+      if (original) {
+        if (hasChatSessions) {
+          await tx.$executeRaw`UPDATE "ChatSession" SET "contractId" = ${original} WHERE "contractId" = ${contract.id}`;
+        }
+        await tx.$executeRaw`DELETE FROM "SmartContract" WHERE "id" = ${contract.id}`;
+        console.log(`[normalize-contracts] Removed contract ${contract.id}, a duplicate of ${original}`);
+        removed++;
+        continue;
+      }
+
+      kept.set(key, contract.id);
+      if (network !== contract.network || (address && address !== contract.address)) {
+        updates.push({ id: contract.id, network, address: address || contract.address });
+      }
+    }
+
+    // Rows are rewritten once every duplicate is gone, so no update collides with a row still to be removed
+    for (const update of updates) {
+      await tx.$executeRaw`
+        UPDATE "SmartContract" SET "network" = ${update.network}, "address" = ${update.address}
+        WHERE "id" = ${update.id}`;
+    }
+
+    console.log(`[normalize-contracts] Normalized ${updates.length} contracts and removed ${removed} duplicates`);
+  }, { timeout: 60000 });
+};
+
+const prisma = new PrismaClient();
+
+normalizeContracts(prisma)
+  .catch((error) => {
+    console.error('[normalize-contracts] Failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,47 @@
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2 } from 'lucide-react';
+import type { ChatSessionSummary } from '@/lib/chat-stream';
+
+interface ChatSessionPickerProps {
+  sessions: ChatSessionSummary[];
+  sessionId: string | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onDelete: (id: string) => void;
+}
+
+export function ChatSessionPicker({ sessions, sessionId, disabled, onSelect, onNew, onDelete }: ChatSessionPickerProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        aria-label="Conversation"
+        value={sessionId || ''}
+        onChange={(e) => (e.target.value ? onSelect(e.target.value) : onNew())}
+        disabled={disabled}
+        className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        <option value="">New conversation</option>
+        {sessions.map(session => (
+          <option key={session.id} value={session.id}>
+            {session.title || 'Untitled'} ({new Date(session.updatedAt).toLocaleDateString()})
+          </option>
+        ))}
+      </select>
+      <Button variant="outline" size="icon" onClick={onNew} disabled={disabled} title="New conversation">
+        <Plus className="h-4 w-4" />
+      </Button>
+      {sessionId && (
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => onDelete(sessionId)}
+          disabled={disabled}
+          title="Delete conversation"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
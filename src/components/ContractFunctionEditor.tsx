@@ -7,6 +7,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { useToast } from '@/components/ui/use-toast';
 import axios from 'axios';
+import { getFunctionSignature, getStateMutability } from '@/lib/abi-to-mcp';
+import { getInputKeys } from '@/lib/solidity-schema';
 
 interface ABIInput {
   name: string;
@@ -41,8 +43,9 @@ interface CustomFunctionDescription {
   };
 }
 
+// Keyed by function signature so overloaded functions keep separate descriptions
 interface CustomFunctionDescriptions {
-  [functionName: string]: CustomFunctionDescription;
+  [signature: string]: CustomFunctionDescription;
 }
 
 interface ContractFunctionEditorProps {
@@ -66,19 +69,26 @@ export default function ContractFunctionEditor({
   useEffect(() => {
     try {
       const parsedAbi = JSON.parse(abiJson);
-      // Filter for functions only
-      const abiFunctions = parsedAbi.filter((item: any) => item.type === 'function');
+      // Filter for functions only. Unnamed inputs get the positional keys used in the tool schema.
+      const abiFunctions: ABIFunction[] = parsedAbi
+        .filter((item: any) => item.type === 'function')
+        .map((func: ABIFunction) => {
+          const inputKeys = getInputKeys(func.inputs);
+          return { ...func, inputs: func.inputs.map((input, index) => ({ ...input, name: inputKeys[index] })) };
+        });
       setFunctions(abiFunctions);
 
       // Initialize edited descriptions with existing custom descriptions
       const initialDescriptions: CustomFunctionDescriptions = {};
       abiFunctions.forEach((func: ABIFunction) => {
-        initialDescriptions[func.name] = customDescriptions[func.name] || {
+        const signature = getFunctionSignature(func);
+        // Descriptions saved before overload support are keyed by plain function name
+        const existing = customDescriptions[signature] || customDescriptions[func.name];
+        initialDescriptions[signature] = existing || {
           description: generateDefaultFunctionDescription(func),
           inputs: func.inputs.reduce((acc, input) => {
             acc[input.name] = {
-              description: customDescriptions[func.name]?.inputs?.[input.name]?.description || 
-                generateDefaultParamDescription(input.name, input.type),
+              description: generateDefaultParamDescription(input.name, input.type),
             };
             return acc;
           }, {} as { [paramName: string]: { description: string } }),
@@ -108,9 +118,10 @@ export default function ContractFunctionEditor({
     }
     
     // Add information about state mutability
-    if (func.stateMutability === 'view' || func.stateMutability === 'pure') {
+    const stateMutability = getStateMutability(func);
+    if (stateMutability === 'view' || stateMutability === 'pure') {
       description += '. This function does not modify blockchain state.';
-    } else if (func.stateMutability === 'payable') {
+    } else if (stateMutability === 'payable') {
       description += '. This function can receive Ether.';
     } else {
       description += '. This function may modify blockchain state.';
@@ -138,23 +149,23 @@ export default function ContractFunctionEditor({
     return `Parameter ${name} of type ${type}`;
   };
 
-  const handleFunctionDescriptionChange = (functionName: string, description: string) => {
+  const handleFunctionDescriptionChange = (signature: string, description: string) => {
     setEditedDescriptions(prev => ({
       ...prev,
-      [functionName]: {
-        ...prev[functionName],
+      [signature]: {
+        ...prev[signature],
         description,
       },
     }));
   };
 
-  const handleParameterDescriptionChange = (functionName: string, paramName: string, description: string) => {
+  const handleParameterDescriptionChange = (signature: string, paramName: string, description: string) => {
     setEditedDescriptions(prev => ({
       ...prev,
-      [functionName]: {
-        ...prev[functionName],
+      [signature]: {
+        ...prev[signature],
         inputs: {
-          ...prev[functionName].inputs,
+          ...prev[signature].inputs,
           [paramName]: {
             description,
           },
@@ -188,13 +199,13 @@ export default function ContractFunctionEditor({
     }
   };
 
-  const handleReset = (functionName: string) => {
-    const func = functions.find(f => f.name === functionName);
+  const handleReset = (signature: string) => {
+    const func = functions.find(f => getFunctionSignature(f) === signature);
     if (!func) return;
 
     setEditedDescriptions(prev => ({
       ...prev,
-      [functionName]: {
+      [signature]: {
         description: generateDefaultFunctionDescription(func),
         inputs: func.inputs.reduce((acc, input) => {
           acc[input.name] = {
@@ -221,65 +232,69 @@ export default function ContractFunctionEditor({
       </p>
       
       <Accordion type="multiple" className="w-full">
-        {functions.map((func) => (
-          <AccordionItem key={func.name} value={func.name}>
-            <AccordionTrigger className="text-lg font-medium">
-              <div className="flex items-center">
-                <span>{func.name}</span>
-                <span className="ml-2 text-xs font-normal text-muted-foreground">
-                  ({func.stateMutability})
-                </span>
-              </div>
-            </AccordionTrigger>
-            <AccordionContent>
-              <Card className="border-none shadow-none">
-                <CardContent className="p-0 pt-4 space-y-6">
-                  <div className="space-y-2">
-                    <div className="flex justify-between">
-                      <Label htmlFor={`${func.name}-description`}>Function Description</Label>
-                      <Button 
-                        variant="ghost" 
-                        size="sm" 
-                        onClick={() => handleReset(func.name)}
-                        className="h-6 text-xs"
-                      >
-                        Reset to Default
-                      </Button>
+        {functions.map((func) => {
+          const signature = getFunctionSignature(func);
+          const isOverloaded = functions.filter(f => f.name === func.name).length > 1;
+          return (
+            <AccordionItem key={signature} value={signature}>
+              <AccordionTrigger className="text-lg font-medium">
+                <div className="flex items-center">
+                  <span>{isOverloaded ? signature : func.name}</span>
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    ({getStateMutability(func)})
+                  </span>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent>
+                <Card className="border-none shadow-none">
+                  <CardContent className="p-0 pt-4 space-y-6">
+                    <div className="space-y-2">
+                      <div className="flex justify-between">
+                        <Label htmlFor={`${signature}-description`}>Function Description</Label>
+                        <Button 
+                          variant="ghost" 
+                          size="sm" 
+                          onClick={() => handleReset(signature)}
+                          className="h-6 text-xs"
+                        >
+                          Reset to Default
+                        </Button>
+                      </div>
+                      <Textarea
+                        id={`${signature}-description`}
+                        value={editedDescriptions[signature]?.description || ''}
+                        onChange={(e) => handleFunctionDescriptionChange(signature, e.target.value)}
+                        className="min-h-[100px]"
+                        placeholder="Describe what this function does in a way that's easy for AI to understand"
+                      />
                     </div>
-                    <Textarea
-                      id={`${func.name}-description`}
-                      value={editedDescriptions[func.name]?.description || ''}
-                      onChange={(e) => handleFunctionDescriptionChange(func.name, e.target.value)}
-                      className="min-h-[100px]"
-                      placeholder="Describe what this function does in a way that's easy for AI to understand"
-                    />
-                  </div>
                   
-                  {func.inputs.length > 0 && (
-                    <div className="space-y-4">
-                      <h4 className="font-medium">Parameter Descriptions</h4>
-                      {func.inputs.map((input) => (
-                        <div key={`${func.name}-${input.name}`} className="space-y-2">
-                          <Label htmlFor={`${func.name}-${input.name}-description`}>
-                            {input.name} <span className="text-xs text-muted-foreground">({input.type})</span>
-                          </Label>
-                          <Input
-                            id={`${func.name}-${input.name}-description`}
-                            value={editedDescriptions[func.name]?.inputs?.[input.name]?.description || ''}
-                            onChange={(e) => 
-                              handleParameterDescriptionChange(func.name, input.name, e.target.value)
-                            }
-                            placeholder={`Description for ${input.name}`}
-                          />
-                        </div>
-                      ))}
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-            </AccordionContent>
-          </AccordionItem>
-        ))}
+                    {func.inputs.length > 0 && (
+                      <div className="space-y-4">
+                        <h4 className="font-medium">Parameter Descriptions</h4>
+                        {func.inputs.map((input) => (
+                          <div key={`${signature}-${input.name}`} className="space-y-2">
+                            <Label htmlFor={`${signature}-${input.name}-description`}>
+                              {input.name} <span className="text-xs text-muted-foreground">({input.type})</span>
+                            </Label>
+                            <Input
+                              id={`${signature}-${input.name}-description`}
+                              value={editedDescriptions[signature]?.inputs?.[input.name]?.description || ''}
+                              onChange={(e) => 
+                                handleParameterDescriptionChange(signature, input.name, e.target.value)
+                              }
+                              placeholder={`Description for ${input.name}`}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </AccordionContent>
+            </AccordionItem>
+          );
+        })}
       </Accordion>
       
       {functions.length === 0 && (
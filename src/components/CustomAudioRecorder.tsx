@@ -6,11 +6,14 @@ import { Mic, MicOff, Loader2 } from 'lucide-react';
 interface CustomAudioRecorderProps {
   onTranscription: (text: string) => void;
   isProcessing: boolean;
+  // Lets the server use the contract's project model settings
+  contractId?: string;
 }
 
 const CustomAudioRecorder: React.FC<CustomAudioRecorderProps> = ({ 
   onTranscription, 
-  isProcessing 
+  isProcessing,
+  contractId
 }) => {
   const [isRecording, setIsRecording] = useState(false);
   const [isTranscribing, setIsTranscribing] = useState(false);
@@ -159,7 +162,7 @@ const CustomAudioRecorder: React.FC<CustomAudioRecorderProps> = ({
     }
   };
   
-  // Transcribe audio using OpenAI Whisper API
+  // Transcribe audio with the project's transcription model
   const transcribeAudio = async (audioBlob: Blob) => {
     try {
       setIsTranscribing(true);
@@ -167,7 +170,9 @@ const CustomAudioRecorder: React.FC<CustomAudioRecorderProps> = ({
       // Create form data
       const formData = new FormData();
       formData.append('file', audioBlob, 'recording.webm');
-      formData.append('model', 'whisper-1');
+      if (contractId) {
+        formData.append('contractId', contractId);
+      }
       
       // Send to transcription API
       const response = await fetch('/api/transcribe', {
@@ -10,26 +10,55 @@ const CustomAudioRecorder = dynamic(
   () => import('@/components/CustomAudioRecorder'),
   { ssr: false }
 );
-import { useAccount } from 'wagmi';
-import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { applyChatEvent, ChatMessage, readChatStream, toChatHistory } from '@/lib/chat-stream';
+import { describeTransactionOutcome, ProposedTransaction } from '@/lib/proposed-transaction';
+import { READ_ONLY_WALLET, WalletAdapter } from '@/lib/wallet-adapter';
+import { useChatSessions } from '@/hooks/useChatSessions';
+import { useProposedTransactions } from '@/hooks/useProposedTransactions';
+import { ChatSessionPicker } from '@/components/ChatSessionPicker';
+import { TransactionConfirmationCard } from '@/components/TransactionConfirmationCard';
 import { Loader2 } from 'lucide-react';
 
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-}
-
 interface MCPClientProps {
   contractAddress: string;
   network: string;
+  // Picks this contract when the same address is imported on several networks or projects
+  contractId?: string;
+  // Wallet used to sign transactions; see the adapter hooks in src/hooks
+  wallet: WalletAdapter;
 }
 
-export function MCPClient({ contractAddress, network }: MCPClientProps) {
-  const { address, isConnected } = useAccount();
+export function MCPClient({ contractAddress, network, contractId, wallet: connectedWallet }: MCPClientProps) {
+  // Users who do not connect a wallet can still query the contract
+  const [withoutWallet, setWithoutWallet] = useState(false);
+  const wallet = withoutWallet && !connectedWallet.ready ? READ_ONLY_WALLET : connectedWallet;
+  const { address } = wallet;
   const [isExecuting, setIsExecuting] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
+  const {
+    sessions,
+    sessionId,
+    setSessionId,
+    signedIn,
+    signIn,
+    selectSession,
+    startNewSession,
+    deleteSession,
+    refreshSessions,
+    recordMessage,
+  } = useChatSessions(contractId, wallet, setMessages);
+
+  // Reports how a transaction ended, in the chat and in the stored session so the assistant sees it next turn
+  const reportTransaction = (proposal: ProposedTransaction) => {
+    const content = describeTransactionOutcome(proposal);
+    if (!content) return;
+    setMessages(prev => [...prev, { role: 'assistant', content }]);
+    recordMessage(content);
+  };
+
+  const { transactions, propose, approve, reject } = useProposedTransactions({ wallet, onSettled: reportTransaction });
   
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setInput(e.target.value);
@@ -53,7 +82,7 @@ export function MCPClient({ contractAddress, network }: MCPClientProps) {
     await processMessage(userMessage);
   };
 
-  const processMessage = async (userMessage: Message) => {
+  const processMessage = async (userMessage: ChatMessage) => {
     try {
       setIsLoading(true);
       
@@ -63,10 +92,13 @@ export function MCPClient({ contractAddress, network }: MCPClientProps) {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          messages: messages.concat(userMessage),
+          messages: toChatHistory(messages.concat(userMessage)),
           contractAddress,
+          contractId,
           network,
           walletAddress: address,
+          sessionId,
+          stream: true,
         }),
       });
       
@@ -74,28 +106,28 @@ export function MCPClient({ contractAddress, network }: MCPClientProps) {
         throw new Error('Failed to get response');
       }
       
-      const data = await response.json();
+      // Text and tool calls are rendered as they stream in
+      const result = await readChatStream(response, (event) => {
+        if (event.type === 'session') {
+          setSessionId(event.sessionId);
+        }
+        setMessages(prev => applyChatEvent(prev, event));
+      });
+      refreshSessions();
       
-      // Add the assistant's response to the messages
-      setMessages(prev => [...prev, { role: 'assistant', content: data.content }]);
+      const pendingActions = result?.pendingActions || [];
       
-      // Check if the response contains a function call
-      if (data.functionCall) {
-        console.log('Function call detected:', data.functionCall);
-        await executeAction(data.functionCall.action, data.functionCall.parameters);
-      } else {
-        // Fallback to the old method of parsing JSON from code blocks
-        try {
-          const actionMatch = data.content.match(/```json\s*({[\s\S]*?})\s*```/);
-          if (actionMatch) {
-            const actionData = JSON.parse(actionMatch[1]);
-            if (actionData.action && actionData.parameters) {
-              await executeAction(actionData.action, actionData.parameters);
-            }
-          }
-        } catch (error) {
-          console.error('Error parsing action from content:', error);
+      // Read-only calls were executed on the server; state-changing ones come back for the wallet to sign.
+      // Only these structured proposals are acted on, never JSON that appears in the assistant's text.
+      for (const pending of pendingActions) {
+        if (!wallet.sendTransaction) {
+          setMessages(prev => [...prev, {
+            role: 'assistant',
+            content: `Connect a wallet to sign this transaction: ${pending.action}`,
+          }]);
+          continue;
         }
+        await executeAction(pending.action, pending.parameters, pending.value);
       }
     } catch (error) {
       console.error('Error processing message:', error);
@@ -108,23 +140,47 @@ export function MCPClient({ contractAddress, network }: MCPClientProps) {
     }
   };
 
-  const executeAction = async (action: string, params: any) => {
+  const executeAction = async (action: string, params: any, value?: string) => {
     try {
       setIsExecuting(true);
       
-      const response = await fetch(`/api/contract-server/${contractAddress}/${action}`, {
+      const query = new URLSearchParams({
+        schemaType: 'mcp',
+        ...(contractId ? { contractId } : { network }),
+        ...(address ? { from: address } : {}),
+        // Wei sent to a payable function, as proposed by the assistant
+        ...(value ? { value } : {}),
+      });
+      const response = await fetch(`/api/contract-server/${contractAddress}/${action}?${query}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          ...params,
-          schemaType: 'mcp',
-        }),
+        body: JSON.stringify(params),
       });
       
       const result = await response.json();
       
+      // State-changing functions come back as an unsigned transaction, shown for the user to approve and sign
+      if (response.ok && result.transaction) {
+        const proposal = propose(result);
+        setMessages(prev => [...prev, {
+          role: 'assistant',
+          content: `Confirm transaction: ${action}`,
+          transactionId: proposal.id,
+        }]);
+        return;
+      }
+      
+      // Decoded reverts are shown as plain text so the assistant can explain them in the next turn
+      if (result.revert) {
+        setMessages(prev => [...prev, {
+          role: 'assistant',
+          content: `Action failed: ${action}\n${result.revert.message}`,
+        }]);
+        return;
+      }
+      
       // Add the result to the chat
       setMessages(prev => [...prev, {
         role: 'assistant',
@@ -141,7 +197,7 @@ export function MCPClient({ contractAddress, network }: MCPClientProps) {
     }
   };
 
-  if (!isConnected) {
+  if (!wallet.ready) {
     return (
       <Card className="w-full max-w-md mx-auto">
         <CardHeader>
@@ -150,8 +206,11 @@ export function MCPClient({ contractAddress, network }: MCPClientProps) {
             Connect your wallet to interact with the contract at {contractAddress}
           </CardDescription>
         </CardHeader>
-        <CardContent className="flex justify-center">
-          <ConnectButton />
+        <CardContent className="flex justify-center gap-2">
+          <Button onClick={() => wallet.connect?.()}>Connect Wallet</Button>
+          <Button variant="outline" onClick={() => setWithoutWallet(true)}>
+            Continue without a wallet
+          </Button>
         </CardContent>
       </Card>
     );
@@ -163,7 +222,23 @@ export function MCPClient({ contractAddress, network }: MCPClientProps) {
         <CardTitle>Smart Contract Assistant</CardTitle>
         <CardDescription>
           Interact with contract {contractAddress.slice(0, 6)}...{contractAddress.slice(-4)} on {network}
+          {address ? ` as ${address.slice(0, 6)}...${address.slice(-4)}` : ' without a wallet'}
         </CardDescription>
+        {address && !signedIn && signIn && (
+          <Button variant="outline" size="sm" onClick={signIn} disabled={isLoading || isExecuting}>
+            Sign in with your wallet to save chats
+          </Button>
+        )}
+        {address && signedIn && (
+          <ChatSessionPicker
+            sessions={sessions}
+            sessionId={sessionId}
+            disabled={isLoading || isExecuting}
+            onSelect={selectSession}
+            onNew={startNewSession}
+            onDelete={deleteSession}
+          />
+        )}
       </CardHeader>
       <CardContent>
         <ScrollArea className="h-[400px] pr-4">
@@ -179,7 +254,15 @@ export function MCPClient({ contractAddress, network }: MCPClientProps) {
               <div className="font-semibold mb-1">
                 {message.role === 'user' ? 'You' : 'Assistant'}
               </div>
-              <div className="whitespace-pre-wrap">{message.content}</div>
+              {message.transactionId && transactions[message.transactionId] ? (
+                <TransactionConfirmationCard
+                  proposal={transactions[message.transactionId]}
+                  onApprove={approve}
+                  onReject={reject}
+                />
+              ) : (
+                <div className="whitespace-pre-wrap">{message.content}</div>
+              )}
             </div>
           ))}
           {(isLoading || isExecuting) && (
@@ -193,6 +276,7 @@ export function MCPClient({ contractAddress, network }: MCPClientProps) {
         <CustomAudioRecorder 
           onTranscription={handleVoiceInput} 
           isProcessing={isLoading || isExecuting}
+          contractId={contractId}
         />
         
         <form
@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { Bot } from 'lucide-react';
+import axios from 'axios';
+import { getLLMProviderInfo, getSelectableLLMProviders, ResolvedModelSettings } from '@/lib/llm-config';
+
+interface ModelSettingsDialogProps {
+  projectId: string;
+}
+
+// Value of the provider select when the server default applies
+const SERVER_DEFAULT = '';
+
+export default function ModelSettingsDialog({ projectId }: ModelSettingsDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [llmProvider, setLLMProvider] = useState(SERVER_DEFAULT);
+  const [chatModel, setChatModel] = useState('');
+  const [transcriptionModel, setTranscriptionModel] = useState('');
+  const [resolved, setResolved] = useState<ResolvedModelSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    axios.get(`/api/projects/${projectId}/model-settings`)
+      .then(({ data }) => {
+        setLLMProvider(data.llmProvider || SERVER_DEFAULT);
+        setChatModel(data.chatModel || '');
+        setTranscriptionModel(data.transcriptionModel || '');
+        setResolved(data.resolved);
+      })
+      .catch((error) => {
+        console.error('Error loading model settings:', error);
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: 'Failed to load model settings',
+        });
+      });
+  }, [open, projectId]);
+
+  const providerInfo = getLLMProviderInfo(llmProvider || resolved?.provider);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const { data } = await axios.put(`/api/projects/${projectId}/model-settings`, {
+        llmProvider: llmProvider || null,
+        chatModel: chatModel.trim() || null,
+        transcriptionModel: transcriptionModel.trim() || null,
+      });
+
+      setResolved(data.resolved);
+      setOpen(false);
+
+      toast({
+        title: 'Success',
+        description: `Chat will use ${data.resolved.chatModel} on ${getLLMProviderInfo(data.resolved.provider)?.name}`,
+      });
+    } catch (error: any) {
+      console.error('Error saving model settings:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.response?.data?.error || 'Failed to save model settings',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Bot className="mr-2 h-4 w-4" />
+          Model Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Model Settings</DialogTitle>
+          <DialogDescription>
+            Choose the LLM provider and models used by this project&apos;s chat and voice input.
+            Leave a field empty to use the server default.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-2">
+            <Label htmlFor="llm-provider">Provider</Label>
+            <select
+              id="llm-provider"
+              value={llmProvider}
+              onChange={(e) => setLLMProvider(e.target.value)}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <option value={SERVER_DEFAULT}>Server default</option>
+              {getSelectableLLMProviders().map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="chat-model">Chat Model</Label>
+            <Input
+              id="chat-model"
+              list="chat-model-suggestions"
+              value={chatModel}
+              onChange={(e) => setChatModel(e.target.value)}
+              placeholder={providerInfo?.defaultChatModel}
+            />
+            <datalist id="chat-model-suggestions">
+              {providerInfo?.chatModels.map(model => (
+                <option key={model} value={model} />
+              ))}
+            </datalist>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="transcription-model">Transcription Model</Label>
+            <Input
+              id="transcription-model"
+              value={transcriptionModel}
+              onChange={(e) => setTranscriptionModel(e.target.value)}
+              placeholder={providerInfo?.defaultTranscriptionModel || resolved?.transcriptionModel}
+              disabled={!!providerInfo && !providerInfo.defaultTranscriptionModel}
+            />
+            {providerInfo && !providerInfo.defaultTranscriptionModel && (
+              <p className="text-sm text-muted-foreground">
+                {providerInfo.name} has no transcription API, so voice input uses the server&apos;s transcription provider.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import {PrivyProvider} from '@privy-io/react-auth';
+import {WALLET_CHAINS} from '@/lib/wallet-chains';
 
 export default function PrivyProviders({children}: {children: React.ReactNode}) {
   return (
@@ -16,7 +17,10 @@ export default function PrivyProviders({children}: {children: React.ReactNode})
         // Create embedded wallets for users who don't have a wallet
         embeddedWallets: {
           createOnLogin: 'users-without-wallets'
-        }
+        },
+        // Offer the same chains as the network registry
+        supportedChains: WALLET_CHAINS,
+        defaultChain: WALLET_CHAINS[0]
       }}
     >
       {children}
@@ -1,14 +1,14 @@
 import React from 'react';
 import { RainbowKitProvider as RKProvider, getDefaultConfig, lightTheme, darkTheme } from '@rainbow-me/rainbowkit';
 import { WagmiProvider } from 'wagmi';
-import { mainnet, goerli, sepolia } from 'wagmi/chains';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { useTheme } from 'next-themes';
+import { WALLET_CHAINS } from '@/lib/wallet-chains';
 
 const config = getDefaultConfig({
   appName: 'Smart Contract Preview',
   projectId: process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || '',
-  chains: [mainnet, goerli, sepolia],
+  chains: WALLET_CHAINS,
   ssr: true,
 });
 
@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/components/ui/use-toast';
+import axios from 'axios';
+import {
+  ABIFunction,
+  getFunctionSignature,
+  getStateMutability,
+  STATE_MUTABILITIES,
+  StateMutability,
+  ToolPolicy,
+} from '@/lib/abi-to-mcp';
+
+type PolicyMode = 'denylist' | 'allowlist';
+
+interface ToolPolicyEditorProps {
+  contractId: string;
+  abiJson: string;
+  toolPolicy?: ToolPolicy | null;
+  // Receives the stored schemas too, which are regenerated under the new policy
+  onUpdate: (updatedPolicy: ToolPolicy, schemas: { mcpSchema: string | null; gptActionSchema: string | null }) => void;
+}
+
+const MUTABILITY_LABELS: Record<StateMutability, string> = {
+  pure: 'Pure (computations)',
+  view: 'View (reads, including getters like name() and totalSupply())',
+  nonpayable: 'Nonpayable (state-changing)',
+  payable: 'Payable (state-changing, accepts Ether)',
+};
+
+export default function ToolPolicyEditor({
+  contractId,
+  abiJson,
+  toolPolicy,
+  onUpdate,
+}: ToolPolicyEditorProps) {
+  const { toast } = useToast();
+  const [functions, setFunctions] = useState<ABIFunction[]>([]);
+  const [mode, setMode] = useState<PolicyMode>('denylist');
+  const [mutabilities, setMutabilities] = useState<StateMutability[]>(STATE_MUTABILITIES);
+  const [enabled, setEnabled] = useState<Record<string, boolean>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    try {
+      const abiFunctions: ABIFunction[] = JSON.parse(abiJson).filter((item: any) => item.type === 'function');
+      setFunctions(abiFunctions);
+
+      const matches = (func: ABIFunction, entries: string[]) =>
+        entries.some(entry => entry === getFunctionSignature(func) || entry === func.name);
+
+      // Initialise the switches from the saved allowlist or denylist
+      const initialEnabled: Record<string, boolean> = {};
+      abiFunctions.forEach(func => {
+        initialEnabled[getFunctionSignature(func)] = toolPolicy?.allowlist
+          ? matches(func, toolPolicy.allowlist)
+          : !matches(func, toolPolicy?.denylist || []);
+      });
+
+      setEnabled(initialEnabled);
+      setMode(toolPolicy?.allowlist ? 'allowlist' : 'denylist');
+      setMutabilities(toolPolicy?.mutabilities || STATE_MUTABILITIES);
+    } catch (error) {
+      console.error('Error parsing ABI:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to parse ABI JSON',
+      });
+    }
+  }, [abiJson, toolPolicy]);
+
+  const handleMutabilityChange = (mutability: StateMutability, checked: boolean) => {
+    setMutabilities(prev =>
+      checked ? STATE_MUTABILITIES.filter(item => item === mutability || prev.includes(item)) : prev.filter(item => item !== mutability)
+    );
+  };
+
+  const handleSave = async () => {
+    const signatures = Object.keys(enabled);
+    const updatedPolicy: ToolPolicy = {
+      mutabilities,
+      ...(mode === 'allowlist'
+        ? { allowlist: signatures.filter(signature => enabled[signature]) }
+        : { denylist: signatures.filter(signature => !enabled[signature]) }),
+    };
+
+    try {
+      setSaving(true);
+      const response = await axios.put(`/api/contracts/${contractId}/tool-policy`, {
+        toolPolicy: updatedPolicy,
+      });
+
+      onUpdate(updatedPolicy, {
+        mcpSchema: response.data.mcpSchema,
+        gptActionSchema: response.data.gptActionSchema,
+      });
+
+      toast({
+        title: 'Success',
+        description: 'Tool policy saved and applied to the MCP schemas.',
+      });
+    } catch (error) {
+      console.error('Error saving tool policy:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to save tool policy',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <h4 className="font-medium">Function Types</h4>
+        {STATE_MUTABILITIES.map(mutability => (
+          <div key={mutability} className="flex items-center space-x-2">
+            <Checkbox
+              id={`${contractId}-${mutability}`}
+              checked={mutabilities.includes(mutability)}
+              onCheckedChange={(checked) => handleMutabilityChange(mutability, checked === true)}
+            />
+            <Label htmlFor={`${contractId}-${mutability}`} className="font-normal">
+              {MUTABILITY_LABELS[mutability]}
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="font-medium">Functions</h4>
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as PolicyMode)}>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="denylist" id={`${contractId}-denylist`} />
+            <Label htmlFor={`${contractId}-denylist`} className="font-normal">
+              Expose every function except those switched off
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="allowlist" id={`${contractId}-allowlist`} />
+            <Label htmlFor={`${contractId}-allowlist`} className="font-normal">
+              Expose only the functions switched on
+            </Label>
+          </div>
+        </RadioGroup>
+
+        <div className="divide-y rounded-md border">
+          {functions.map(func => {
+            const signature = getFunctionSignature(func);
+            const mutability = getStateMutability(func);
+            const isTypeExcluded = !mutabilities.includes(mutability);
+
+            return (
+              <div key={signature} className="flex items-center justify-between px-3 py-2">
+                <div className={isTypeExcluded ? 'opacity-50' : ''}>
+                  <span className="font-mono text-xs">{signature}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">({mutability})</span>
+                </div>
+                <Switch
+                  checked={enabled[signature] ?? true}
+                  disabled={isTypeExcluded}
+                  onCheckedChange={(checked) => setEnabled(prev => ({ ...prev, [signature]: checked }))}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {functions.length === 0 && (
+          <div className="text-center p-10 border border-dashed rounded-lg">
+            <p className="text-muted-foreground">No functions found in this contract's ABI.</p>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Tool Policy'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, ExternalLink, Loader2, XCircle } from 'lucide-react';
+import { getExplorerTransactionUrl, getNetworkByChainId } from '@/lib/networks';
+import { getTransactionDetails, ProposedTransaction } from '@/lib/proposed-transaction';
+
+interface TransactionConfirmationCardProps {
+  proposal: ProposedTransaction;
+  onApprove: (id: string) => void;
+  onReject: (id: string) => void;
+}
+
+const STATUS_LABELS: Record<ProposedTransaction['status'], string> = {
+  awaiting_approval: 'Awaiting your approval',
+  signing: 'Waiting for wallet signature...',
+  submitted: 'Submitted, waiting for confirmation...',
+  confirmed: 'Confirmed',
+  reverted: 'Reverted',
+  rejected: 'Rejected',
+  failed: 'Failed',
+};
+
+const formatArgument = (value: any) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+export function TransactionConfirmationCard({ proposal, onApprove, onReject }: TransactionConfirmationCardProps) {
+  const details = getTransactionDetails(proposal);
+  const network = getNetworkByChainId(proposal.transaction.chainId);
+  const inProgress = proposal.status === 'signing' || proposal.status === 'submitted';
+  const simulatedEntries = Object.entries(proposal.simulatedResult || {});
+
+  return (
+    <div className="rounded-md border bg-white p-3 text-sm text-gray-800">
+      <div className="font-medium">Confirm transaction</div>
+      <div className="mt-1 break-all font-mono text-xs">{proposal.signature}</div>
+
+      <dl className="mt-3 grid grid-cols-[auto,1fr] gap-x-3 gap-y-1">
+        {Object.entries(proposal.parameters).map(([name, value]) => (
+          <div key={name} className="contents">
+            <dt className="text-muted-foreground">{name}</dt>
+            <dd className="break-all font-mono text-xs">{formatArgument(value)}</dd>
+          </div>
+        ))}
+        <dt className="text-muted-foreground">Value</dt>
+        <dd>{details.value}</dd>
+        <dt className="text-muted-foreground">Gas limit</dt>
+        <dd>{details.gasLimit}</dd>
+        {details.maxFee && (
+          <>
+            <dt className="text-muted-foreground">Max fee</dt>
+            <dd>{details.maxFee}</dd>
+          </>
+        )}
+        <dt className="text-muted-foreground">Network</dt>
+        <dd>{details.network}</dd>
+        <dt className="text-muted-foreground">Contract</dt>
+        <dd className="break-all font-mono text-xs">{proposal.transaction.to}</dd>
+        {simulatedEntries.length > 0 && (
+          <>
+            <dt className="text-muted-foreground">Expected result</dt>
+            <dd className="break-all font-mono text-xs">
+              {simulatedEntries.map(([name, value]) => `${name}: ${formatArgument(value)}`).join(', ')}
+            </dd>
+          </>
+        )}
+      </dl>
+
+      <div className="mt-3 flex items-center gap-2">
+        {proposal.status === 'confirmed' && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+        {(proposal.status === 'reverted' || proposal.status === 'failed') && <XCircle className="h-4 w-4 text-red-600" />}
+        {inProgress && <Loader2 className="h-4 w-4 animate-spin" />}
+        <span>{STATUS_LABELS[proposal.status]}</span>
+        {proposal.hash && network?.explorerUrl && (
+          <a
+            href={getExplorerTransactionUrl(network, proposal.hash)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="ml-auto inline-flex items-center gap-1 text-blue-600 hover:underline"
+          >
+            View <ExternalLink className="h-3 w-3" />
+          </a>
+        )}
+      </div>
+
+      {proposal.error && <div className="mt-2 break-all text-red-600">{proposal.error}</div>}
+
+      {proposal.status === 'awaiting_approval' && (
+        <div className="mt-3 flex gap-2">
+          <Button size="sm" onClick={() => onApprove(proposal.id)}>
+            Approve and sign
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onReject(proposal.id)}>
+            Reject
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import { ChatMessage, ChatSessionSummary, sessionToChatMessages } from '@/lib/chat-stream';
+import type { WalletAdapter } from '@/lib/wallet-adapter';
+
+/**
+ * Stored conversations of a wallet with a contract. They are available once the wallet has signed in; the most
+ * recent one is then resumed and its messages are passed to `onLoad`.
+ */
+export const useChatSessions = (
+  contractId: string | undefined,
+  wallet: WalletAdapter,
+  onLoad: (messages: ChatMessage[]) => void
+) => {
+  const walletAddress = wallet.address;
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [signedIn, setSignedIn] = useState(false);
+
+  const refreshSessions = async (): Promise<ChatSessionSummary[]> => {
+    if (!contractId || !signedIn) return [];
+
+    try {
+      const response = await fetch(`/api/chat-sessions?${new URLSearchParams({ contractId })}`);
+      if (!response.ok) {
+        throw new Error('Failed to list chat sessions');
+      }
+      const data = await response.json();
+      setSessions(data.sessions);
+      return data.sessions;
+    } catch (error) {
+      console.error('Error loading chat sessions:', error);
+      return [];
+    }
+  };
+
+  // Signs a challenge with the wallet so the server stores and serves this wallet's chats
+  const signIn = async () => {
+    if (!walletAddress || !wallet.signMessage) return;
+
+    try {
+      const challengeResponse = await fetch(`/api/wallet-session/challenge?${new URLSearchParams({ address: walletAddress })}`);
+      if (!challengeResponse.ok) {
+        throw new Error('Failed to get a sign-in message');
+      }
+      const { message } = await challengeResponse.json();
+      const signature = await wallet.signMessage(message);
+
+      const response = await fetch('/api/wallet-session', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ message, signature }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to sign in');
+      }
+      setSignedIn(true);
+    } catch (error) {
+      console.error('Error signing in:', error);
+    }
+  };
+
+  const selectSession = async (id: string) => {
+    try {
+      const response = await fetch(`/api/chat-sessions/${id}`);
+      if (!response.ok) {
+        throw new Error('Failed to load chat session');
+      }
+      const data = await response.json();
+      setSessionId(id);
+      onLoad(sessionToChatMessages(data.session));
+    } catch (error) {
+      console.error('Error loading chat session:', error);
+    }
+  };
+
+  const startNewSession = () => {
+    setSessionId(null);
+    onLoad([]);
+  };
+
+  const deleteSession = async (id: string) => {
+    try {
+      const response = await fetch(`/api/chat-sessions/${id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to delete chat session');
+      }
+      if (id === sessionId) {
+        startNewSession();
+      }
+      await refreshSessions();
+    } catch (error) {
+      console.error('Error deleting chat session:', error);
+    }
+  };
+
+  // Reports something to the current session as a user message, e.g. the outcome of a transaction the user signed
+  const recordMessage = async (content: string) => {
+    if (!sessionId) return;
+
+    try {
+      const response = await fetch(`/api/chat-sessions/${sessionId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ content }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to record chat message');
+      }
+    } catch (error) {
+      console.error('Error recording chat message:', error);
+    }
+  };
+
+  // A wallet that signed in earlier is still signed in while its cookie is valid
+  useEffect(() => {
+    let cancelled = false;
+    setSessions([]);
+    setSessionId(null);
+    setSignedIn(false);
+    if (!walletAddress) return;
+
+    fetch('/api/wallet-session')
+      .then(response => (response.ok ? response.json() : { address: null }))
+      .then(data => {
+        if (!cancelled && data.address?.toLowerCase() === walletAddress.toLowerCase()) {
+          setSignedIn(true);
+        }
+      })
+      .catch(error => console.error('Error checking wallet session:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [walletAddress]);
+
+  // Once signed in, the most recent session is resumed
+  useEffect(() => {
+    let cancelled = false;
+    refreshSessions().then(list => {
+      if (!cancelled && list.length > 0) {
+        selectSession(list[0].id);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contractId, signedIn]);
+
+  return {
+    sessions,
+    sessionId,
+    setSessionId,
+    signedIn,
+    signIn: wallet.signMessage ? signIn : undefined,
+    selectSession,
+    startNewSession,
+    deleteSession,
+    refreshSessions,
+    recordMessage,
+  };
+};
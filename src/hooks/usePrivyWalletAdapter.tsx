@@ -0,0 +1,49 @@
+import { usePrivy, useWallets } from '@privy-io/react-auth';
+import { createPublicClient, custom } from 'viem';
+import type { WalletAdapter } from '@/lib/wallet-adapter';
+
+/**
+ * Wallet adapter for Privy, including its embedded wallets. Must be used inside `PrivyProviders`.
+ */
+export const usePrivyWalletAdapter = (): WalletAdapter => {
+  const { login, authenticated, user } = usePrivy();
+  const { wallets } = useWallets();
+  const address = user?.wallet?.address;
+
+  // The EIP-1193 provider of a connected wallet, switched to the given chain
+  const getWalletProvider = async (walletAddress: string, chainId: number) => {
+    const wallet = wallets.find(item => item.address.toLowerCase() === walletAddress.toLowerCase());
+    if (!wallet) {
+      throw new Error(`Wallet ${walletAddress} is not connected`);
+    }
+
+    await wallet.switchChain(chainId);
+    return wallet.getEthereumProvider();
+  };
+
+  return {
+    id: 'privy',
+    address,
+    ready: authenticated,
+    connect: login,
+    sendTransaction: async (transaction) => {
+      const provider = await getWalletProvider(transaction.from, transaction.chainId);
+
+      // eth_sendTransaction takes the chain from the wallet, so chainId is not part of the request
+      const { chainId, ...request } = transaction;
+      return provider.request({ method: 'eth_sendTransaction', params: [request] });
+    },
+    waitForReceipt: async (hash, chainId) => {
+      const provider = await getWalletProvider(address || '', chainId);
+      const client = createPublicClient({ transport: custom(provider) });
+      return client.waitForTransactionReceipt({ hash: hash as `0x${string}` });
+    },
+    signMessage: async (message) => {
+      const wallet = wallets.find(item => item.address.toLowerCase() === address?.toLowerCase());
+      if (!wallet) {
+        throw new Error(`Wallet ${address} is not connected`);
+      }
+      return wallet.sign(message);
+    },
+  };
+};
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import type { WalletAdapter } from '@/lib/wallet-adapter';
+import {
+  ProposedTransaction,
+  TransactionExecutionResponse,
+  isUserRejection,
+  toProposedTransaction,
+} from '@/lib/proposed-transaction';
+
+interface ProposedTransactionsOptions {
+  wallet: WalletAdapter;
+  // Called once a proposal is confirmed, reverted, rejected or failed
+  onSettled: (proposal: ProposedTransaction) => void;
+}
+
+/**
+ * Transactions proposed in the chat, each waiting for the user to approve it and then tracked until mined
+ */
+export const useProposedTransactions = ({ wallet, onSettled }: ProposedTransactionsOptions) => {
+  const [transactions, setTransactions] = useState<Record<string, ProposedTransaction>>({});
+
+  const update = (id: string, changes: Partial<ProposedTransaction>) => {
+    setTransactions(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const settle = (proposal: ProposedTransaction, changes: Partial<ProposedTransaction>) => {
+    update(proposal.id, changes);
+    onSettled({ ...proposal, ...changes });
+  };
+
+  const propose = (response: TransactionExecutionResponse): ProposedTransaction => {
+    const proposal = toProposedTransaction(response);
+    setTransactions(prev => ({ ...prev, [proposal.id]: proposal }));
+    return proposal;
+  };
+
+  const approve = async (id: string) => {
+    const proposal = transactions[id];
+    if (!proposal || proposal.status !== 'awaiting_approval') return;
+
+    const { sendTransaction, waitForReceipt } = wallet;
+    if (!sendTransaction || !waitForReceipt) {
+      settle(proposal, { status: 'failed', error: 'Connect a wallet to sign transactions' });
+      return;
+    }
+
+    update(id, { status: 'signing' });
+
+    let hash: string;
+    try {
+      hash = await sendTransaction(proposal.transaction);
+    } catch (error: any) {
+      console.error('Error sending transaction:', error);
+      settle(proposal, isUserRejection(error)
+        ? { status: 'rejected' }
+        : { status: 'failed', error: error?.shortMessage || error?.message || String(error) });
+      return;
+    }
+
+    update(id, { status: 'submitted', hash });
+
+    try {
+      const receipt = await waitForReceipt(hash, proposal.transaction.chainId);
+      settle(proposal, {
+        status: receipt.status === 'success' ? 'confirmed' : 'reverted',
+        hash,
+        blockNumber: receipt.blockNumber.toString(),
+        gasUsed: receipt.gasUsed.toString(),
+      });
+    } catch (error: any) {
+      console.error('Error waiting for transaction receipt:', error);
+      settle(proposal, {
+        status: 'failed',
+        hash,
+        error: `No receipt for ${hash}: ${error?.shortMessage || error?.message || String(error)}`,
+      });
+    }
+  };
+
+  const reject = (id: string) => {
+    const proposal = transactions[id];
+    if (!proposal || proposal.status !== 'awaiting_approval') return;
+    settle(proposal, { status: 'rejected' });
+  };
+
+  return { transactions, propose, approve, reject };
+};
@@ -0,0 +1,48 @@
+import { useAccount, useConfig, useSendTransaction, useSignMessage, useSwitchChain } from 'wagmi';
+import { waitForTransactionReceipt } from 'wagmi/actions';
+import { useConnectModal } from '@rainbow-me/rainbowkit';
+import type { WalletAdapter } from '@/lib/wallet-adapter';
+
+/**
+ * Wallet adapter for wagmi, connected through RainbowKit. Must be used inside `RainbowKitProvider`.
+ */
+export const useWagmiWalletAdapter = (): WalletAdapter => {
+  const { address, isConnected, chainId: walletChainId } = useAccount();
+  const { openConnectModal } = useConnectModal();
+  const { sendTransactionAsync } = useSendTransaction();
+  const { signMessageAsync } = useSignMessage();
+  const { switchChainAsync } = useSwitchChain();
+  const config = useConfig();
+
+  return {
+    id: 'wagmi',
+    address,
+    ready: isConnected,
+    connect: openConnectModal,
+    sendTransaction: async (transaction) => {
+      // wagmi refuses to send on a chain other than the wallet's, so the wallet is switched first
+      if (walletChainId !== transaction.chainId) {
+        await switchChainAsync({ chainId: transaction.chainId });
+      }
+
+      return sendTransactionAsync({
+        to: transaction.to as `0x${string}`,
+        data: transaction.data as `0x${string}`,
+        value: BigInt(transaction.value),
+        gas: BigInt(transaction.gas),
+        chainId: transaction.chainId,
+        // The fees shown on the proposal are the fees sent: EIP-1559 fees, or a legacy gas price
+        ...(transaction.maxFeePerGas && transaction.maxPriorityFeePerGas
+          ? {
+              maxFeePerGas: BigInt(transaction.maxFeePerGas),
+              maxPriorityFeePerGas: BigInt(transaction.maxPriorityFeePerGas),
+            }
+          : transaction.gasPrice
+            ? { gasPrice: BigInt(transaction.gasPrice) }
+            : {}),
+      });
+    },
+    waitForReceipt: (hash, chainId) => waitForTransactionReceipt(config, { hash: hash as `0x${string}`, chainId }),
+    signMessage: (message) => signMessageAsync({ message }),
+  };
+};
@@ -0,0 +1,11 @@
+/**
+ * Starts the event indexers on a timer when the server runs as a long-lived process, e.g. `next start`
+ * against a local node. Set EVENT_INDEXER_INTERVAL_MS to enable it; serverless deployments use the cron route.
+ */
+export async function register() {
+  const intervalMs = Number(process.env.EVENT_INDEXER_INTERVAL_MS);
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || !intervalMs) return;
+
+  const { startEventIndexerLoop } = await import('@/lib/event-indexer');
+  startEventIndexerLoop(intervalMs);
+}
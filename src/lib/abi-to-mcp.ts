@@ -4,21 +4,40 @@
  * and OpenAI GPT Actions: https://platform.openai.com/docs/actions/getting-started
  */
 
-interface ABIInput {
+import { getInputKeys, getOutputKey, JSONSchemaProperty, solidityParamToJsonSchema } from '@/lib/solidity-schema';
+
+const BYTES32_PATTERN = '^0x[0-9a-fA-F]{64}$';
+
+// Types an indexed event parameter is stored as directly; anything else is stored as its keccak256 hash
+const isValueType = (solType: string): boolean =>
+  !solType.endsWith(']') && !solType.startsWith('tuple') && solType !== 'string' && solType !== 'bytes';
+
+export interface ABIInput {
   name: string;
   type: string;
   internalType?: string;
   components?: ABIInput[];
 }
 
-interface ABIOutput {
+export interface ABIOutput {
   name: string;
   type: string;
   internalType?: string;
   components?: ABIOutput[];
 }
 
-interface ABIFunction {
+export interface ABIEventInput extends ABIInput {
+  indexed?: boolean;
+}
+
+export interface ABIEvent {
+  name: string;
+  type: 'event';
+  inputs: ABIEventInput[];
+  anonymous?: boolean;
+}
+
+export interface ABIFunction {
   name: string;
   type: string;
   inputs: ABIInput[];
@@ -51,6 +70,74 @@ interface MCPAction {
   };
 }
 
+/**
+ * Behaviour hints attached to an MCP tool
+ * See https://modelcontextprotocol.io/specification/2025-03-26/server/tools#tool
+ */
+export interface MCPToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+/**
+ * An MCP `Tool` definition
+ */
+export interface MCPTool {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, JSONSchemaProperty>;
+    required: string[];
+  };
+  // Shape of the decoded call result, advertised for functions that return values
+  outputSchema?: {
+    type: 'object';
+    properties: Record<string, JSONSchemaProperty>;
+    required: string[];
+  };
+  annotations?: MCPToolAnnotations;
+  _meta?: {
+    // Canonical function or event signature, used to resolve overloads
+    signature: string;
+    // Set on tools that query an event's logs rather than call a function
+    kind?: 'event';
+  };
+}
+
+export type MCPSchemaFormat = 'tool' | 'legacy';
+
+// Event log query defaults, advertised in the tool schema and applied by src/lib/event-logs
+export const DEFAULT_EVENT_LIMIT = 100;
+export const MAX_EVENT_LIMIT = 1000;
+export const DEFAULT_EVENT_LOOKBACK_BLOCKS = 10000;
+
+// Arguments of an event query tool that set its block range and paging rather than filtering events
+export const EVENT_QUERY_OPTIONS = ['fromBlock', 'toBlock', 'limit', 'cursor'];
+
+export type StateMutability = 'pure' | 'view' | 'nonpayable' | 'payable';
+
+export const STATE_MUTABILITIES: StateMutability[] = ['pure', 'view', 'nonpayable', 'payable'];
+
+/**
+ * Per-contract policy controlling which functions are exposed as tools
+ * List entries match either a full signature or a plain name, which covers every overload.
+ * When `allowlist` is set, only the functions it lists are exposed.
+ */
+export interface ToolPolicy {
+  mutabilities?: StateMutability[];
+  allowlist?: string[];
+  denylist?: string[];
+}
+
+export interface MCPSchemaOptions {
+  format?: MCPSchemaFormat;
+  toolPolicy?: ToolPolicy | null;
+}
+
 interface GPTAction {
   type: string;
   function: {
@@ -78,7 +165,7 @@ const solTypeToJsonType = (solType: string): string => {
 };
 
 // Interface for custom function descriptions
-interface CustomFunctionDescription {
+export interface CustomFunctionDescription {
   description: string;
   inputs: {
     [paramName: string]: {
@@ -87,10 +174,194 @@ interface CustomFunctionDescription {
   };
 }
 
-interface CustomFunctionDescriptions {
+export interface CustomFunctionDescriptions {
   [functionName: string]: CustomFunctionDescription;
 }
 
+/**
+ * Formats a parameter type canonically, expanding tuples into their component types
+ */
+const formatCanonicalType = (param: ABIInput): string => {
+  if (param.type.startsWith('tuple')) {
+    const components = (param.components || []).map(formatCanonicalType).join(',');
+    return `(${components})${param.type.slice('tuple'.length)}`;
+  }
+  return param.type;
+};
+
+/**
+ * Returns the canonical signature of an ABI function, e.g. `transfer(address,uint256)`
+ */
+export const getFunctionSignature = (func: { name: string; inputs: ABIInput[] }): string => {
+  return `${func.name}(${func.inputs.map(formatCanonicalType).join(',')})`;
+};
+
+/**
+ * Short, stable FNV-1a hash used to keep long tool names within 64 characters
+ */
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Appends the parameter types of an overloaded function or event to its tool name, hashing names over 64 characters
+ */
+const withOverloadSuffix = (name: string, item: { name: string; inputs: ABIInput[] }): string => {
+  const suffix = item.inputs
+    .map(input => formatCanonicalType(input).replace(/\[(\d*)\]/g, 'Array$1').replace(/[^a-zA-Z0-9]/g, ''))
+    .join('_');
+  const fullName = `${name}_${suffix}`;
+
+  return fullName.length <= 64 ? fullName : `${fullName.slice(0, 55)}_${hashString(getFunctionSignature(item))}`;
+};
+
+/**
+ * Returns a unique tool name for a function. Overloaded functions get their parameter types
+ * appended, e.g. `safeTransferFrom_address_address_uint256_bytes`.
+ */
+export const getToolName = (func: ABIFunction, functions: ABIFunction[]): string => {
+  const isOverloaded = functions.filter(item => item.name === func.name).length > 1;
+  if (!isOverloaded || func.inputs.length === 0) {
+    return func.name;
+  }
+
+  return withOverloadSuffix(func.name, func);
+};
+
+/**
+ * Returns a unique tool name for an event query, e.g. `getTransferEvents`
+ * A name already taken by a function's tool is prefixed with `_`, so both stay callable.
+ */
+export const getEventToolName = (event: ABIEvent, events: ABIEvent[], functions: ABIFunction[] = []): string => {
+  const baseName = `get${event.name.charAt(0).toUpperCase()}${event.name.slice(1)}Events`;
+  const isOverloaded = events.filter(item => item.name === event.name).length > 1;
+  let name = !isOverloaded || event.inputs.length === 0 ? baseName : withOverloadSuffix(baseName, event);
+
+  const functionToolNames = new Set(functions.map(func => getToolName(func, functions)));
+  while (functionToolNames.has(name)) name = `_${name}`;
+  return name;
+};
+
+/**
+ * Keys of an event's filters in its query tool: the argument name, prefixed with `_` while a query option or
+ * another filter has it
+ */
+export const getEventFilterKeys = (filters: ABIEventInput[]): string[] => {
+  const used = new Set([...EVENT_QUERY_OPTIONS, ...filters.map(input => input.name)]);
+  return filters.map(input => {
+    if (!EVENT_QUERY_OPTIONS.includes(input.name)) return input.name;
+    let key = `_${input.name}`;
+    while (used.has(key)) key = `_${key}`;
+    used.add(key);
+    return key;
+  });
+};
+
+/**
+ * Resolves a tool name back to the ABI function it was generated from
+ */
+export const resolveFunction = (abiJson: string, toolName: string): ABIFunction | null => {
+  const functions: ABIFunction[] = JSON.parse(abiJson).filter((item: any) => item.type === 'function');
+  return functions.find(item => getToolName(item, functions) === toolName) || null;
+};
+
+/**
+ * Resolves a tool name back to the ABI event it queries
+ */
+export const resolveEvent = (abiJson: string, toolName: string): ABIEvent | null => {
+  const abi = JSON.parse(abiJson);
+  const functions: ABIFunction[] = abi.filter((item: any) => item.type === 'function');
+  const events: ABIEvent[] = abi.filter((item: any) => item.type === 'event');
+  return events.find(item => getEventToolName(item, events, functions) === toolName) || null;
+};
+
+/**
+ * Whether a tool queries event logs
+ */
+export const isEventTool = (tool: MCPTool): boolean => {
+  return tool._meta?.kind === 'event';
+};
+
+/**
+ * Returns a function's state mutability, falling back to the pre-0.5 `constant`/`payable` flags
+ */
+export const getStateMutability = (func: ABIFunction): StateMutability => {
+  if (func.stateMutability) return func.stateMutability as StateMutability;
+  if (func.constant) return 'view';
+  return func.payable ? 'payable' : 'nonpayable';
+};
+
+/**
+ * Whether a function or event with the given mutability passes the tool policy
+ * List entries match the full signature or the plain name.
+ */
+const isAllowedByPolicy = (
+  item: ABIFunction | ABIEvent,
+  mutability: StateMutability,
+  toolPolicy?: ToolPolicy | null
+): boolean => {
+  if (!toolPolicy) return true;
+
+  const signature = getFunctionSignature(item);
+  const matches = (entries: string[]) => entries.some(entry => entry === signature || entry === item.name);
+
+  if (toolPolicy.mutabilities && !toolPolicy.mutabilities.includes(mutability)) {
+    return false;
+  }
+  if (toolPolicy.allowlist && !matches(toolPolicy.allowlist)) {
+    return false;
+  }
+  return !(toolPolicy.denylist && matches(toolPolicy.denylist));
+};
+
+/**
+ * Whether a function is exposed as a tool under the contract's tool policy
+ */
+export const isFunctionExposed = (func: ABIFunction, toolPolicy?: ToolPolicy | null): boolean => {
+  return isAllowedByPolicy(func, getStateMutability(func), toolPolicy);
+};
+
+/**
+ * Whether an event query is exposed under the contract's tool policy
+ * Event queries only read logs, so they follow the policy for `view` functions.
+ */
+export const isEventExposed = (event: ABIEvent, toolPolicy?: ToolPolicy | null): boolean => {
+  return isAllowedByPolicy(event, 'view', toolPolicy);
+};
+
+/**
+ * Normalises an untrusted tool policy, dropping unknown keys and invalid entries
+ */
+export const normalizeToolPolicy = (value: any): ToolPolicy => {
+  const toStringList = (list: unknown): string[] | undefined =>
+    Array.isArray(list) ? list.filter((entry): entry is string => typeof entry === 'string') : undefined;
+
+  const policy: ToolPolicy = {};
+  if (Array.isArray(value?.mutabilities)) {
+    policy.mutabilities = STATE_MUTABILITIES.filter(mutability => value.mutabilities.includes(mutability));
+  }
+  const allowlist = toStringList(value?.allowlist);
+  if (allowlist) policy.allowlist = allowlist;
+  const denylist = toStringList(value?.denylist);
+  if (denylist) policy.denylist = denylist;
+
+  return policy;
+};
+
+/**
+ * Custom descriptions are keyed by function signature. Entries saved before overloads were
+ * supported are keyed by plain function name and still apply.
+ */
+const getDescriptionKey = (func: ABIFunction, customDescriptions?: CustomFunctionDescriptions): string => {
+  const signature = getFunctionSignature(func);
+  return customDescriptions?.[signature] || !customDescriptions?.[func.name] ? signature : func.name;
+};
+
 /**
  * Generates a description for a parameter based on its Solidity type
  */
@@ -133,12 +404,14 @@ const generateFunctionDescription = (
   customDescriptions?: CustomFunctionDescriptions
 ): string => {
   // Use custom description if available
-  if (customDescriptions && customDescriptions[func.name]?.description) {
-    return customDescriptions[func.name].description;
+  const descriptionKey = getDescriptionKey(func, customDescriptions);
+  if (customDescriptions && customDescriptions[descriptionKey]?.description) {
+    return customDescriptions[descriptionKey].description;
   }
 
   // Default description generation
-  const paramList = func.inputs.map(input => `${input.name} (${input.type})`).join(', ');
+  const inputKeys = getInputKeys(func.inputs);
+  const paramList = func.inputs.map((input, index) => `${inputKeys[index]} (${input.type})`).join(', ');
   const returnList = func.outputs.map(output => `${output.name || 'return'} (${output.type})`).join(', ');
   
   let description = `Calls the ${func.name} function`;
@@ -150,9 +423,10 @@ const generateFunctionDescription = (
   }
   
   // Add information about state mutability
-  if (func.stateMutability === 'view' || func.stateMutability === 'pure') {
+  const stateMutability = getStateMutability(func);
+  if (stateMutability === 'view' || stateMutability === 'pure') {
     description += '. This function does not modify blockchain state.';
-  } else if (func.stateMutability === 'payable') {
+  } else if (stateMutability === 'payable') {
     description += '. This function can receive Ether.';
   } else {
     description += '. This function may modify blockchain state.';
@@ -216,15 +490,201 @@ const processABIParameter = (
   return mcpParam;
 };
 
+/**
+ * Derives MCP tool annotations from a function's state mutability
+ */
+const getToolAnnotations = (func: ABIFunction): MCPToolAnnotations => {
+  const stateMutability = getStateMutability(func);
+  const isReadOnly = stateMutability === 'view' || stateMutability === 'pure';
+
+  return {
+    title: func.name,
+    readOnlyHint: isReadOnly,
+    // On-chain writes cannot be undone, so every state change is treated as destructive
+    destructiveHint: !isReadOnly,
+    idempotentHint: isReadOnly,
+    openWorldHint: true,
+  };
+};
+
+/**
+ * Converts an ABI function to an MCP `Tool` definition
+ */
+const abiFunctionToMCPTool = (
+  func: ABIFunction,
+  toolName: string,
+  customDescriptions?: CustomFunctionDescriptions
+): MCPTool => {
+  const tool: MCPTool = {
+    name: toolName,
+    description: generateFunctionDescription(func, customDescriptions),
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+    annotations: getToolAnnotations(func),
+    _meta: {
+      signature: getFunctionSignature(func),
+    },
+  };
+
+  // Top-level parameters use the custom or generated description; struct components use their own names
+  const descriptionKey = getDescriptionKey(func, customDescriptions);
+  const describe = (param: ABIInput) =>
+    generateParamDescription(param.name, param.type, customDescriptions, descriptionKey);
+
+  // Unnamed inputs are keyed by position so every argument has its own property
+  const inputKeys = getInputKeys(func.inputs);
+  func.inputs.forEach((input, index) => {
+    const key = inputKeys[index];
+    tool.inputSchema.properties[key] = solidityParamToJsonSchema({ ...input, name: key }, describe);
+    tool.inputSchema.required.push(key);
+  });
+
+  if (func.outputs && func.outputs.length > 0) {
+    tool.outputSchema = getOutputSchema(func);
+  }
+
+  return tool;
+};
+
+/**
+ * Builds the JSON Schema of a function's decoded result, keyed the same way as `decodeFunctionResult`
+ */
+const getOutputSchema = (func: ABIFunction): NonNullable<MCPTool['outputSchema']> => {
+  const keys = func.outputs.map((output, index) => getOutputKey(output, index, func.outputs.length));
+
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      func.outputs.map((output, index) => [keys[index], solidityParamToJsonSchema(output)])
+    ),
+    required: keys,
+  };
+};
+
+/**
+ * Whether an event parameter can filter logs. Indexed arrays and structs are stored as hashes that
+ * cannot be matched from a value, so only indexed value types, strings and bytes qualify.
+ */
+export const isFilterableEventInput = (input: ABIEventInput): boolean => {
+  return !!input.indexed && !!input.name && !input.type.startsWith('tuple') && !input.type.endsWith(']');
+};
+
+/**
+ * Generates a description for an event query tool
+ */
+const generateEventDescription = (event: ABIEvent, filters: ABIEventInput[]): string => {
+  let description = `Queries ${event.name} events emitted by the contract, oldest first`;
+  if (filters.length > 0) {
+    description += `, optionally filtered by ${filters.map(input => input.name).join(', ')}`;
+  }
+  if (event.inputs.length > 0) {
+    description += `. Each event has: ${event.inputs.map(input => `${input.name || 'param'} (${input.type})`).join(', ')}`;
+  }
+  return `${description}. Results are paginated: pass nextCursor back as cursor, with the same filters and block range, to get the next page. This does not modify blockchain state.`;
+};
+
+/**
+ * Converts an ABI event to an MCP `Tool` that queries its logs
+ * Indexed parameters become optional filters, alongside the block range and pagination.
+ */
+const abiEventToMCPTool = (
+  event: ABIEvent,
+  toolName: string,
+  customDescriptions?: CustomFunctionDescriptions
+): MCPTool => {
+  const signature = getFunctionSignature(event);
+  const filters = event.inputs.filter(isFilterableEventInput);
+  const filterKeys = getEventFilterKeys(filters);
+
+  const describe = (param: ABIInput) =>
+    customDescriptions?.[signature]?.inputs?.[param.name]?.description || `Only return events whose ${param.name} equals this value`;
+
+  const argsSchema = Object.fromEntries(
+    event.inputs.map((input, index) => [
+      getOutputKey(input, index, event.inputs.length),
+      input.indexed && !isValueType(input.type)
+        ? { type: 'string', description: `keccak256 hash of the indexed ${input.type} value`, pattern: BYTES32_PATTERN }
+        : solidityParamToJsonSchema(input),
+    ])
+  );
+
+  return {
+    name: toolName,
+    description: customDescriptions?.[signature]?.description || generateEventDescription(event, filters),
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...Object.fromEntries(filters.map((input, index) => [filterKeys[index], solidityParamToJsonSchema(input, describe)])),
+        fromBlock: {
+          type: 'integer',
+          description: `First block to search. Defaults to ${DEFAULT_EVENT_LOOKBACK_BLOCKS} blocks before toBlock.`,
+        },
+        toBlock: {
+          type: 'integer',
+          description: 'Last block to search. Defaults to the latest block.',
+        },
+        limit: {
+          type: 'integer',
+          description: `Maximum number of events to return, up to ${MAX_EVENT_LIMIT}. Defaults to ${DEFAULT_EVENT_LIMIT}.`,
+        },
+        cursor: {
+          type: 'string',
+          description: 'The nextCursor of a previous result, to continue the same query with the same filters and block range',
+        },
+      },
+      required: [],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        events: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              blockNumber: { type: 'integer' },
+              transactionHash: { type: 'string' },
+              logIndex: { type: 'integer' },
+              args: { type: 'object', properties: argsSchema, required: Object.keys(argsSchema) },
+            },
+            required: ['blockNumber', 'transactionHash', 'logIndex', 'args'],
+          },
+        },
+        fromBlock: { type: 'integer', description: 'First block searched' },
+        toBlock: { type: 'integer', description: 'Last block searched' },
+        nextCursor: { type: 'string', description: 'Cursor for the next page; absent on the last page' },
+        source: { type: 'string', enum: ['rpc', 'index'], description: 'Whether events came from the chain or the contract\'s event index' },
+      },
+      required: ['events', 'fromBlock', 'toBlock'],
+    },
+    annotations: {
+      title: `${event.name} events`,
+      readOnlyHint: true,
+      destructiveHint: false,
+      // New blocks can add events, so repeating a query without a toBlock can return more
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    _meta: {
+      signature,
+      kind: 'event',
+    },
+  };
+};
+
 /**
  * Converts an ABI function to MCP action format
  */
 const abiFunctionToMCPAction = (
   func: ABIFunction, 
+  toolName: string,
   customDescriptions?: CustomFunctionDescriptions
 ): MCPAction => {
   const action: MCPAction = {
-    name: func.name,
+    name: toolName,
     description: generateFunctionDescription(func, customDescriptions),
     parameters: {
       type: 'object',
@@ -234,50 +694,114 @@ const abiFunctionToMCPAction = (
   };
   
   // Process inputs
-  func.inputs.forEach(input => {
-    const processedInput = processABIParameter(input, customDescriptions, func.name);
-    action.parameters.properties[input.name] = processedInput;
-    action.parameters.required.push(input.name);
+  const descriptionKey = getDescriptionKey(func, customDescriptions);
+  const inputKeys = getInputKeys(func.inputs);
+  func.inputs.forEach((input, index) => {
+    const key = inputKeys[index];
+    const processedInput = processABIParameter({ ...input, name: key }, customDescriptions, descriptionKey);
+    action.parameters.properties[key] = processedInput;
+    action.parameters.required.push(key);
   });
   
   return action;
 };
 
 /**
- * Converts an MCP action to OpenAI GPT Action format
+ * Converts an MCP tool to OpenAI GPT Action format
  */
-const mcpActionToGPTAction = (mcpAction: MCPAction): GPTAction => {
+const mcpToolToGPTAction = (tool: MCPTool): GPTAction => {
   return {
     type: 'function',
     function: {
-      name: mcpAction.name,
-      description: mcpAction.description,
-      parameters: mcpAction.parameters,
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema,
     },
   };
 };
 
+/**
+ * Converts a legacy MCP action (with `parameters`) to an MCP tool
+ */
+const legacyActionToMCPTool = (action: MCPAction): MCPTool => {
+  // Legacy properties carry a non-standard `name` field that JSON Schema does not allow
+  const stripNames = (param: any): JSONSchemaProperty => {
+    const { name, required, ...schema } = param;
+    if (schema.properties) {
+      schema.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, stripNames(value)])
+      );
+    }
+    if (schema.items) {
+      schema.items = stripNames(schema.items);
+    }
+    return schema;
+  };
+
+  const isReadOnly = action.description.includes('does not modify blockchain state');
+
+  return {
+    name: action.name,
+    description: action.description,
+    inputSchema: {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(action.parameters.properties).map(([key, value]) => [key, stripNames(value)])
+      ),
+      required: action.parameters.required,
+    },
+    annotations: {
+      readOnlyHint: isReadOnly,
+      destructiveHint: !isReadOnly,
+    },
+  };
+};
+
+/**
+ * Parses a stored MCP schema into MCP tools, accepting both the tool and legacy formats
+ */
+export const parseMCPSchema = (mcpSchema: string): MCPTool[] => {
+  const entries = JSON.parse(mcpSchema);
+  return entries.map((entry: MCPTool | MCPAction) =>
+    'inputSchema' in entry ? entry : legacyActionToMCPTool(entry)
+  );
+};
+
 /**
  * Converts an ABI JSON string to MCP schema
+ * The default `tool` format emits MCP `Tool` definitions; `legacy` emits the original `parameters` shape.
+ * Every function is included unless the contract's tool policy excludes it.
  */
 export const abiToMCPSchema = (
   abiJson: string, 
-  customDescriptions?: CustomFunctionDescriptions
+  customDescriptions?: CustomFunctionDescriptions,
+  { format = 'tool', toolPolicy }: MCPSchemaOptions = {}
 ): string => {
   try {
     const abi = JSON.parse(abiJson);
     
-    // Filter for functions only
-    const functions = abi.filter((item: any) => 
-      item.type === 'function' && 
-      // Exclude view/pure functions with no inputs as they're typically getters
-      !(item.stateMutability === 'view' && item.inputs.length === 0)
-    );
+    // Tool names are derived from every function so overloads stay stable under filtering
+    const allFunctions: ABIFunction[] = abi.filter((item: any) => item.type === 'function');
+
+    const functions = allFunctions.filter(func => isFunctionExposed(func, toolPolicy));
     
-    // Convert each function to MCP action
-    const mcpActions = functions.map((func: ABIFunction) => 
-      abiFunctionToMCPAction(func, customDescriptions)
-    );
+    // Convert each function to an MCP tool or legacy action
+    const mcpActions: (MCPTool | MCPAction)[] = functions.map(func => {
+      const toolName = getToolName(func, allFunctions);
+      return format === 'legacy'
+        ? abiFunctionToMCPAction(func, toolName, customDescriptions)
+        : abiFunctionToMCPTool(func, toolName, customDescriptions);
+    });
+
+    // Events become log query tools; the legacy format predates them and only describes functions
+    if (format === 'tool') {
+      const allEvents: ABIEvent[] = abi.filter((item: any) => item.type === 'event' && !item.anonymous);
+      allEvents
+        .filter(event => isEventExposed(event, toolPolicy))
+        .forEach(event => mcpActions.push(
+          abiEventToMCPTool(event, getEventToolName(event, allEvents, allFunctions), customDescriptions)
+        ));
+    }
     
     return JSON.stringify(mcpActions, null, 2);
   } catch (error) {
@@ -291,11 +815,12 @@ export const abiToMCPSchema = (
  */
 export const abiToGPTActionSchema = (
   abiJson: string, 
-  customDescriptions?: CustomFunctionDescriptions
+  customDescriptions?: CustomFunctionDescriptions,
+  toolPolicy?: ToolPolicy | null
 ): string => {
   try {
-    const mcpSchema = JSON.parse(abiToMCPSchema(abiJson, customDescriptions));
-    const gptActions = mcpSchema.map((action: MCPAction) => mcpActionToGPTAction(action));
+    const mcpTools = parseMCPSchema(abiToMCPSchema(abiJson, customDescriptions, { toolPolicy }));
+    const gptActions = mcpTools.map(mcpToolToGPTAction);
     
     return JSON.stringify(gptActions, null, 2);
   } catch (error) {
@@ -0,0 +1,141 @@
+/**
+ * Builds unsigned transactions for state-changing contract functions
+ * The call is simulated with eth_call from the sender's address before gas is estimated, so reverts
+ * are reported before the user is asked to sign anything.
+ */
+
+import { ethers } from 'ethers';
+import { ABIFunction, getFunctionSignature, getStateMutability } from '@/lib/abi-to-mcp';
+import { decodeFunctionResult } from '@/lib/decode-result';
+import { decodeContractError, DecodedRevert } from '@/lib/decode-revert';
+
+/**
+ * An unsigned transaction in `eth_sendTransaction` form, with hex quantities
+ */
+export interface UnsignedTransaction {
+  from: string;
+  to: string;
+  data: string;
+  value: string;
+  chainId: number;
+  gas: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+}
+
+export interface BuildTransactionOptions {
+  from: string;
+  // Amount of wei to send with payable functions, as a decimal string
+  value?: string;
+}
+
+export type BuildTransactionResult =
+  | {
+      success: true;
+      transaction: UnsignedTransaction;
+      // Return values of the simulated call, decoded from the ABI outputs
+      simulatedResult: Record<string, any>;
+    }
+  | {
+      success: false;
+      // True when the simulated call reverted, false when the request itself was invalid
+      reverted: boolean;
+      error: string;
+      details?: string;
+      // Decoded revert reason, panic code or custom error
+      revert?: DecodedRevert;
+    };
+
+/**
+ * Encodes calldata, simulates the call from the sender and estimates gas and fees
+ */
+export const buildTransaction = async (
+  provider: ethers.providers.Provider,
+  contractAddress: string,
+  abiJson: string,
+  func: ABIFunction,
+  args: any[],
+  { from, value = '0' }: BuildTransactionOptions
+): Promise<BuildTransactionResult> => {
+  if (!ethers.utils.isAddress(from)) {
+    return { success: false, reverted: false, error: 'A valid sender address is required to build a transaction' };
+  }
+
+  let txValue: ethers.BigNumber;
+  try {
+    txValue = ethers.BigNumber.from(value);
+  } catch (error) {
+    return { success: false, reverted: false, error: 'Value must be a decimal amount of wei' };
+  }
+
+  if (txValue.isNegative()) {
+    return { success: false, reverted: false, error: 'Value cannot be negative' };
+  }
+
+  if (txValue.gt(0) && getStateMutability(func) !== 'payable') {
+    return { success: false, reverted: false, error: `Function "${func.name}" is not payable and cannot receive Ether` };
+  }
+
+  let data: string;
+  try {
+    const iface = new ethers.utils.Interface([func]);
+    data = iface.encodeFunctionData(getFunctionSignature(func), args);
+  } catch (error: any) {
+    return { success: false, reverted: false, error: 'Invalid function arguments', details: error?.reason || error?.message };
+  }
+
+  const request = {
+    from: ethers.utils.getAddress(from),
+    to: ethers.utils.getAddress(contractAddress),
+    data,
+    value: txValue,
+  };
+
+  // Simulate first so a revert is reported with its reason instead of a failed gas estimate.
+  // Gas estimation also executes the call, so a failure there is treated as a revert too.
+  let simulatedResult: Record<string, any>;
+  let gas: ethers.BigNumber;
+  try {
+    const returnData = await provider.call(request);
+    const iface = new ethers.utils.Interface([func]);
+    simulatedResult = decodeFunctionResult(func.outputs, iface.decodeFunctionResult(getFunctionSignature(func), returnData));
+    gas = await provider.estimateGas(request);
+  } catch (error: any) {
+    const revert = decodeContractError(abiJson, error);
+    if (!revert && error?.code !== ethers.errors.UNPREDICTABLE_GAS_LIMIT) {
+      throw error;
+    }
+    return {
+      success: false,
+      reverted: true,
+      error: 'Transaction would revert',
+      details: revert?.message || error?.reason || error?.message,
+      ...(revert ? { revert } : {}),
+    };
+  }
+
+  const [network, feeData] = await Promise.all([
+    provider.getNetwork(),
+    provider.getFeeData(),
+  ]);
+
+  const transaction: UnsignedTransaction = {
+    from: request.from,
+    to: request.to,
+    data,
+    value: ethers.utils.hexValue(txValue),
+    chainId: network.chainId,
+    gas: ethers.utils.hexValue(gas),
+  };
+
+  // Prefer EIP-1559 fees and fall back to a legacy gas price on chains without them
+  if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
+    transaction.maxFeePerGas = ethers.utils.hexValue(feeData.maxFeePerGas);
+    transaction.maxPriorityFeePerGas = ethers.utils.hexValue(feeData.maxPriorityFeePerGas);
+  } else if (feeData.gasPrice) {
+    transaction.gasPrice = ethers.utils.hexValue(feeData.gasPrice);
+  }
+
+  return { success: true, transaction, simulatedResult };
+};
@@ -0,0 +1,285 @@
+/**
+ * Server-side agent loop for the contract chat
+ * The model is called repeatedly: read-only tool calls are executed here and fed back as `tool` messages,
+ * state-changing calls are handed to the client to sign, and the loop ends on a final answer or the step limit.
+ * Model output is streamed, and progress is reported through `onEvent` so it can be forwarded as server-sent events.
+ */
+
+import { getStateMutability, MCPTool, resolveFunction } from '@/lib/abi-to-mcp';
+import { ContractExecutionResponse, executeContractAction, ExecutableContract } from '@/lib/contract-executor';
+import type { ChatMessage, ChatTool, ChatToolCall, LLMProvider } from '@/lib/llm-provider';
+
+export const DEFAULT_MAX_AGENT_STEPS = 5;
+
+// A contract action the client has to perform, i.e. a transaction for the user's wallet to sign
+export interface PendingAction {
+  action: string;
+  parameters: Record<string, any>;
+  // Wei to send with a payable function, as a decimal string
+  value?: string;
+}
+
+export type ToolCallStatus = 'executed' | 'failed' | 'needs_signature';
+
+export type AgentStep =
+  | {
+      step: number;
+      type: 'message';
+      content: string;
+    }
+  | {
+      step: number;
+      type: 'tool_call';
+      toolCallId: string;
+      action: string;
+      parameters: Record<string, any>;
+      value?: string;
+      status: ToolCallStatus;
+      result?: ContractExecutionResponse;
+      error?: string;
+    };
+
+export type ToolCallStep = Extract<AgentStep, { type: 'tool_call' }>;
+
+export interface AgentLoopOptions {
+  provider: LLMProvider;
+  model: string;
+  messages: ChatMessage[];
+  contract: ExecutableContract;
+  tools: MCPTool[];
+  maxSteps?: number;
+  onEvent?: (event: AgentEvent) => void;
+}
+
+export interface AgentLoopResult {
+  content: string | null;
+  steps: AgentStep[];
+  pendingActions: PendingAction[];
+  stepLimitReached: boolean;
+}
+
+// Progress of a loop run, in the order it happens. `session` is sent by /api/chat before the loop starts.
+export type AgentEvent =
+  | { type: 'session'; sessionId: string }
+  | { type: 'text'; step: number; delta: string }
+  | { type: 'tool_call_start'; step: number; toolCallId: string; action: string; parameters: Record<string, any> }
+  | { type: 'tool_call_finish'; step: number; toolCall: ToolCallStep }
+  | { type: 'done'; result: AgentLoopResult }
+  | { type: 'error'; error: string };
+
+/**
+ * Property of a payable tool that holds the wei to send, clear of the function's own argument names
+ */
+export const getValueKey = (tool: MCPTool): string => {
+  let key = 'value';
+  while (key in tool.inputSchema.properties) key = `_${key}`;
+  return key;
+};
+
+/**
+ * Whether a tool calls a payable function of the contract
+ */
+const isPayableTool = (contract: ExecutableContract, tool: MCPTool): boolean => {
+  const func = resolveFunction(contract.abiJson, tool.name);
+  return !!func && getStateMutability(func) === 'payable';
+};
+
+/**
+ * Builds the tool definitions offered to the model: one function per contract tool, typed by its input schema.
+ * Payable functions also take an optional amount of wei to send, which is not one of the function's arguments.
+ */
+export const getAgentTools = (tools: MCPTool[], contract?: ExecutableContract): ChatTool[] => {
+  return tools.map(tool => {
+    if (!contract || !isPayableTool(contract, tool)) {
+      return {
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.inputSchema },
+      };
+    }
+
+    return {
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: {
+          ...tool.inputSchema,
+          properties: {
+            ...tool.inputSchema.properties,
+            [getValueKey(tool)]: {
+              type: 'string',
+              pattern: '^[0-9]+$',
+              description: 'Amount of wei to send with the call, as a decimal string. Defaults to 0.',
+            },
+          },
+        },
+      },
+    };
+  });
+};
+
+/**
+ * Reads the contract action, parameters and, for payable functions, the wei to send from a tool call
+ */
+const parseToolCall = (
+  contract: ExecutableContract,
+  toolCall: ChatToolCall,
+  tools: MCPTool[]
+): { action: string; parameters: Record<string, any>; value?: string; error?: string } => {
+  const action = toolCall.function.name;
+  const tool = tools.find(item => item.name === action);
+  if (!tool) {
+    return { action, parameters: {}, error: `Unknown tool: ${action}` };
+  }
+
+  let parameters: Record<string, any>;
+  try {
+    parameters = JSON.parse(toolCall.function.arguments || '{}');
+  } catch (error) {
+    return { action, parameters: {}, error: 'Tool arguments are not valid JSON' };
+  }
+
+  if (!isPayableTool(contract, tool)) {
+    return { action, parameters };
+  }
+
+  const valueKey = getValueKey(tool);
+  const { [valueKey]: value, ...functionParameters } = parameters;
+  if (value === undefined) {
+    return { action, parameters: functionParameters };
+  }
+  if (!/^[0-9]+$/.test(String(value))) {
+    return { action, parameters: functionParameters, error: `${valueKey} must be a whole number of wei` };
+  }
+  return { action, parameters: functionParameters, value: String(value) };
+};
+
+/**
+ * Executes one tool call and returns its transcript step
+ */
+const runToolCall = async (
+  contract: ExecutableContract,
+  tools: MCPTool[],
+  toolCall: ChatToolCall,
+  step: number,
+  onEvent?: (event: AgentEvent) => void
+): Promise<ToolCallStep> => {
+  const { action, parameters, value, error } = parseToolCall(contract, toolCall, tools);
+  const base = {
+    step,
+    type: 'tool_call' as const,
+    toolCallId: toolCall.id,
+    action,
+    parameters,
+    ...(value !== undefined ? { value } : {}),
+  };
+  onEvent?.({ type: 'tool_call_start', step, toolCallId: toolCall.id, action, parameters });
+
+  let toolStep: ToolCallStep;
+  if (error) {
+    toolStep = { ...base, status: 'failed', error };
+  } else {
+    // State-changing functions are refused here and passed to the client, which signs them from the wallet
+    const result = await executeContractAction(contract, { action, params: parameters, readOnly: true });
+    if (result.success) {
+      toolStep = { ...base, status: 'executed', result };
+    } else if (result.code === 'READ_ONLY') {
+      toolStep = { ...base, status: 'needs_signature' };
+    } else {
+      toolStep = { ...base, status: 'failed', result, error: result.error };
+    }
+  }
+
+  onEvent?.({ type: 'tool_call_finish', step, toolCall: toolStep });
+  return toolStep;
+};
+
+/**
+ * The content of the `tool` message the model sees for a step
+ */
+export const getToolMessageContent = (step: ToolCallStep): string => {
+  if (step.status === 'needs_signature') {
+    return JSON.stringify({
+      status: 'awaiting_signature',
+      message: `"${step.action}" changes blockchain state. It has been sent to the user's wallet to review and sign.`,
+    });
+  }
+  return JSON.stringify(step.result || { success: false, error: step.error });
+};
+
+/**
+ * Runs the model until it answers without calling tools, or until `maxSteps` model calls have been made
+ */
+export const runAgentLoop = async ({
+  provider,
+  model,
+  messages,
+  contract,
+  tools,
+  maxSteps = DEFAULT_MAX_AGENT_STEPS,
+  onEvent,
+}: AgentLoopOptions): Promise<AgentLoopResult> => {
+  const chatTools = getAgentTools(tools, contract);
+  const conversation: ChatMessage[] = [...messages];
+  const steps: AgentStep[] = [];
+  const pendingActions: PendingAction[] = [];
+
+  for (let step = 1; step <= maxSteps; step++) {
+    console.log(`[chat-agent] Step ${step}: calling ${provider.id} ${model}`);
+    const message = await provider.streamChat(
+      { model, messages: conversation, tools: chatTools, toolChoice: 'auto' },
+      delta => onEvent?.({ type: 'text', step, delta })
+    );
+    conversation.push(message);
+
+    const content = typeof message.content === 'string' ? message.content : null;
+    if (content) {
+      steps.push({ step, type: 'message', content });
+    }
+
+    if (!message.tool_calls || message.tool_calls.length === 0) {
+      return { content, steps, pendingActions, stepLimitReached: false };
+    }
+
+    // Parallel tool calls run together, and every call must be answered before the next model call
+    const toolSteps = await Promise.all(
+      message.tool_calls.map(toolCall => runToolCall(contract, tools, toolCall, step, onEvent))
+    );
+
+    for (const toolStep of toolSteps) {
+      console.log(`[chat-agent] Step ${step}: ${toolStep.action} ${toolStep.status}`);
+      steps.push(toolStep);
+      // A call the model repeats is still only sent to the wallet once
+      const pending: PendingAction = {
+        action: toolStep.action,
+        parameters: toolStep.parameters,
+        ...(toolStep.value !== undefined ? { value: toolStep.value } : {}),
+      };
+      if (
+        toolStep.status === 'needs_signature' &&
+        !pendingActions.some(item => JSON.stringify(item) === JSON.stringify(pending))
+      ) {
+        pendingActions.push(pending);
+      }
+      conversation.push({
+        role: 'tool',
+        tool_call_id: toolStep.toolCallId,
+        content: getToolMessageContent(toolStep),
+      });
+    }
+  }
+
+  // Out of steps: ask for an answer from what has been gathered so far, without further tool calls
+  console.log(`[chat-agent] Step limit of ${maxSteps} reached`);
+  const message = await provider.streamChat(
+    { model, messages: conversation, tools: chatTools, toolChoice: 'none' },
+    delta => onEvent?.({ type: 'text', step: maxSteps + 1, delta })
+  );
+
+  const content = typeof message.content === 'string' ? message.content : null;
+  if (content) {
+    steps.push({ step: maxSteps + 1, type: 'message', content });
+  }
+
+  return { content, steps, pendingActions, stepLimitReached: true };
+};
@@ -0,0 +1,183 @@
+/**
+ * Stored chat sessions: the conversation a wallet had with a contract's agent, and the tool calls made in it
+ * Sessions are scoped to a contract and a wallet address. The agent pages are not behind a login, so a caller
+ * reads, continues or deletes a session by signing in with its wallet; see wallet-session.ts.
+ */
+
+import { ethers } from 'ethers';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { AgentStep, getToolMessageContent, ToolCallStep } from '@/lib/chat-agent';
+import { toToolCallStep } from '@/lib/chat-stream';
+import type { ChatMessage } from '@/lib/llm-provider';
+
+const MAX_TITLE_LENGTH = 80;
+
+const sessionWithMessages = Prisma.validator<Prisma.ChatSessionDefaultArgs>()({
+  include: {
+    messages: {
+      orderBy: { position: 'asc' },
+      include: { toolInvocations: { orderBy: { createdAt: 'asc' } } },
+    },
+  },
+});
+
+export type ChatSessionWithMessages = Prisma.ChatSessionGetPayload<typeof sessionWithMessages>;
+
+export type ChatSessionLookupResult =
+  | { status: 'found'; session: ChatSessionWithMessages }
+  | { status: 'unauthorized'; error: string }
+  | { status: 'not_found'; error: string }
+  | { status: 'forbidden'; error: string };
+
+/**
+ * HTTP status for each unsuccessful lookup, used by the API routes
+ */
+export const SESSION_ERROR_STATUS: Record<Exclude<ChatSessionLookupResult['status'], 'found'>, number> = {
+  unauthorized: 401,
+  not_found: 404,
+  forbidden: 403,
+};
+
+// A message as persisted from a chat request. Clients only contribute user messages.
+export interface ChatTurnMessage {
+  role: 'user';
+  content: string;
+}
+
+/**
+ * Checksums a wallet address, or returns null when it is not an address
+ */
+export const normalizeWalletAddress = (address: unknown): string | null => {
+  try {
+    return typeof address === 'string' ? ethers.utils.getAddress(address) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const getSessionTitle = (content: string): string => {
+  const title = content.trim().replace(/\s+/g, ' ');
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 3)}...` : title;
+};
+
+/**
+ * Finds a session with its messages, checking it belongs to the signed-in wallet and, when given, the contract
+ */
+export const findChatSession = async (
+  sessionId: string,
+  wallet: string | null,
+  contractId?: string
+): Promise<ChatSessionLookupResult> => {
+  if (!wallet) {
+    return { status: 'unauthorized', error: 'Sign in with your wallet to use stored chat sessions' };
+  }
+
+  const session = await prisma.chatSession.findUnique({ where: { id: sessionId }, ...sessionWithMessages });
+  if (!session || (contractId && session.contractId !== contractId)) {
+    return { status: 'not_found', error: `Chat session not found: ${sessionId}` };
+  }
+
+  if (session.walletAddress !== wallet) {
+    return { status: 'forbidden', error: 'This chat session belongs to a different wallet' };
+  }
+
+  return { status: 'found', session };
+};
+
+/**
+ * Lists a wallet's sessions for a contract, most recent first
+ */
+export const listChatSessions = async (contractId: string, walletAddress: string) => {
+  return prisma.chatSession.findMany({
+    where: { contractId, walletAddress },
+    select: { id: true, title: true, createdAt: true, updatedAt: true },
+    orderBy: { updatedAt: 'desc' },
+  });
+};
+
+/**
+ * Starts a session, titled after its first message
+ */
+export const createChatSession = async (contractId: string, walletAddress: string, firstMessage: string) => {
+  return prisma.chatSession.create({
+    data: { contractId, walletAddress, title: getSessionTitle(firstMessage) || null },
+  });
+};
+
+/**
+ * Rebuilds the model conversation from a stored session, replaying tool calls and their results
+ */
+export const toModelMessages = (session: ChatSessionWithMessages): ChatMessage[] => {
+  return session.messages.flatMap((message): ChatMessage[] => {
+    if (message.role === 'user') {
+      return [{ role: 'user', content: message.content }];
+    }
+
+    const invocations = message.toolInvocations;
+    return [
+      {
+        role: 'assistant',
+        content: message.content || null,
+        ...(invocations.length > 0
+          ? {
+              tool_calls: invocations.map(invocation => ({
+                id: invocation.toolCallId,
+                type: 'function' as const,
+                function: { name: invocation.action, arguments: JSON.stringify(invocation.parameters) },
+              })),
+            }
+          : {}),
+      },
+      ...invocations.map((invocation): ChatMessage => ({
+        role: 'tool',
+        tool_call_id: invocation.toolCallId,
+        content: getToolMessageContent(toToolCallStep(invocation)),
+      })),
+    ];
+  });
+};
+
+/**
+ * Appends a turn to a session: the new request messages, then one assistant message per agent step
+ * holding that step's text and tool calls, as they were in the model's response.
+ */
+export const saveChatTurn = async (sessionId: string, requestMessages: ChatTurnMessage[], steps: AgentStep[]) => {
+  await prisma.$transaction(async (tx) => {
+    // Updating the session first locks its row until commit, so a concurrent turn waits here and then counts
+    // this turn's messages instead of taking the same positions
+    await tx.chatSession.update({ where: { id: sessionId }, data: { updatedAt: new Date() } });
+    let position = await tx.chatMessage.count({ where: { sessionId } });
+
+    for (const message of requestMessages) {
+      await tx.chatMessage.create({
+        data: { sessionId, position: position++, role: message.role, content: message.content },
+      });
+    }
+
+    const stepNumbers = Array.from(new Set(steps.map(step => step.step)));
+    for (const stepNumber of stepNumbers) {
+      const stepItems = steps.filter(item => item.step === stepNumber);
+      const toolCalls = stepItems.filter((item): item is ToolCallStep => item.type === 'tool_call');
+
+      await tx.chatMessage.create({
+        data: {
+          sessionId,
+          position: position++,
+          role: 'assistant',
+          content: stepItems.map(item => (item.type === 'message' ? item.content : '')).join(''),
+          toolInvocations: {
+            create: toolCalls.map(toolCall => ({
+              toolCallId: toolCall.toolCallId,
+              action: toolCall.action,
+              parameters: toolCall.parameters,
+              status: toolCall.status,
+              result: toolCall.result ? (toolCall.result as Prisma.InputJsonObject) : undefined,
+              error: toolCall.error,
+            })),
+          },
+        },
+      });
+    }
+  });
+};
@@ -0,0 +1,152 @@
+/**
+ * Client helpers for the streaming /api/chat endpoint
+ * Parses the server-sent events and folds them into the message list the chat components render.
+ */
+
+import type { AgentEvent, AgentLoopResult, ToolCallStatus, ToolCallStep } from '@/lib/chat-agent';
+import { readEventStream } from '@/lib/sse';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  // Set on messages that show a tool call; they are displayed but not sent back to the model
+  toolCallId?: string;
+  // Set on messages that show a transaction awaiting approval; rendered as a confirmation card
+  transactionId?: string;
+  // The agent step whose text this message holds, so streamed text for a step lands in one message
+  step?: number;
+}
+
+// A stored session as returned by /api/chat-sessions/[id]
+export interface StoredToolInvocation {
+  toolCallId: string;
+  action: string;
+  parameters: any;
+  status: string;
+  result: any;
+  error: string | null;
+}
+
+export interface StoredChatSession {
+  id: string;
+  title: string | null;
+  messages: {
+    role: string;
+    content: string;
+    toolInvocations: StoredToolInvocation[];
+  }[];
+}
+
+export interface ChatSessionSummary {
+  id: string;
+  title: string | null;
+  updatedAt: string;
+}
+
+/**
+ * Reads a streaming response, calling `onEvent` for each event as it arrives
+ * Resolves with the loop result from the final `done` event, or null when the stream ended without one.
+ */
+export const readChatStream = async (
+  response: Response,
+  onEvent: (event: AgentEvent) => void
+): Promise<AgentLoopResult | null> => {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  let result: AgentLoopResult | null = null;
+  await readEventStream(response.body, ({ data }) => {
+    // The event name is repeated in the payload's `type`
+    const event: AgentEvent = JSON.parse(data);
+    if (event.type === 'done') {
+      result = event.result;
+    }
+    onEvent(event);
+  });
+
+  return result;
+};
+
+/**
+ * Describes a finished tool call for display
+ */
+export const describeToolCall = (toolCall: ToolCallStep): string => {
+  if (toolCall.status === 'needs_signature') {
+    return `Action requires your signature: ${toolCall.action}`;
+  }
+  if (toolCall.status === 'executed' && toolCall.result?.success && toolCall.result.kind === 'call') {
+    return `Action executed: ${toolCall.action}\nResult: ${JSON.stringify(toolCall.result.result, null, 2)}`;
+  }
+  const revert = toolCall.result && !toolCall.result.success ? toolCall.result.revert : undefined;
+  return `Action failed: ${toolCall.action}\n${revert ? revert.message : toolCall.error}`;
+};
+
+/**
+ * Rebuilds the transcript step of a stored tool invocation
+ */
+export const toToolCallStep = (invocation: StoredToolInvocation, step = 0): ToolCallStep => ({
+  step,
+  type: 'tool_call',
+  toolCallId: invocation.toolCallId,
+  action: invocation.action,
+  parameters: invocation.parameters || {},
+  status: invocation.status as ToolCallStatus,
+  result: invocation.result ?? undefined,
+  error: invocation.error ?? undefined,
+});
+
+/**
+ * Converts a stored session to the message list, showing tool calls the way they appeared while streaming
+ */
+export const sessionToChatMessages = (session: StoredChatSession): ChatMessage[] => {
+  return session.messages.flatMap((message, index): ChatMessage[] => {
+    if (message.role === 'user') {
+      return [{ role: 'user', content: message.content }];
+    }
+    return [
+      ...(message.content ? [{ role: 'assistant' as const, content: message.content, step: index }] : []),
+      ...message.toolInvocations.map(invocation => ({
+        role: 'assistant' as const,
+        content: describeToolCall(toToolCallStep(invocation)),
+        toolCallId: invocation.toolCallId,
+      })),
+    ];
+  });
+};
+
+/**
+ * Applies a stream event to the message list
+ */
+export const applyChatEvent = (messages: ChatMessage[], event: AgentEvent): ChatMessage[] => {
+  switch (event.type) {
+    case 'text': {
+      const last = messages[messages.length - 1];
+      if (last && last.role === 'assistant' && !last.toolCallId && last.step === event.step) {
+        return [...messages.slice(0, -1), { ...last, content: last.content + event.delta }];
+      }
+      return [...messages, { role: 'assistant', content: event.delta, step: event.step }];
+    }
+    case 'tool_call_start':
+      return [...messages, { role: 'assistant', content: `Calling ${event.action}...`, toolCallId: event.toolCallId }];
+    case 'tool_call_finish':
+      return messages.map(message =>
+        message.toolCallId === event.toolCall.toolCallId
+          ? { ...message, content: describeToolCall(event.toolCall) }
+          : message
+      );
+    case 'error':
+      return [...messages, { role: 'assistant', content: `Sorry, there was an error processing your request: ${event.error}` }];
+    default:
+      return messages;
+  }
+};
+
+/**
+ * The conversation as sent to /api/chat: tool call messages are left out, and only role and content are kept
+ */
+export const toChatHistory = (messages: ChatMessage[]) => {
+  return messages
+    .filter(message => !message.toolCallId && !message.transactionId)
+    .map(({ role, content }) => ({ role, content }));
+};
@@ -0,0 +1,350 @@
+/**
+ * ContractExecutor: the single execution path for stored contracts
+ * Resolves an action against the contract's MCP or GPT schema, validates parameters, then either
+ * calls a read-only function or builds an unsigned transaction. Used by the contract-server routes,
+ * the chat endpoint and the MCP endpoint so they all behave the same way.
+ */
+
+import { ethers } from 'ethers';
+import {
+  getEventFilterKeys,
+  getFunctionSignature,
+  getStateMutability,
+  isEventTool,
+  isFilterableEventInput,
+  MCPTool,
+  parseMCPSchema,
+  resolveEvent,
+  resolveFunction,
+} from '@/lib/abi-to-mcp';
+import { buildTransaction, UnsignedTransaction } from '@/lib/build-transaction';
+import { decodeFunctionResult } from '@/lib/decode-result';
+import { decodeContractError, DecodedRevert } from '@/lib/decode-revert';
+import { getIndexedRange, queryIndexedEvents } from '@/lib/event-indexer';
+import { queryEventLogs } from '@/lib/event-logs';
+import { getProvider } from '@/lib/rpc-provider';
+import { findIntegerRangeError, getInputKeys } from '@/lib/solidity-schema';
+
+export type SchemaType = 'mcp' | 'gpt';
+
+// The subset of the SmartContract model the executor needs
+export interface ExecutableContract {
+  // Used to read events from the contract's index, when it has one
+  id?: string;
+  address: string;
+  abiJson: string;
+  network: string;
+  mcpSchema: string | null;
+  gptActionSchema: string | null;
+}
+
+export interface ContractAction {
+  name: string;
+  description: string;
+  parameters: string[];
+}
+
+export interface ContractExecutionRequest {
+  action: string;
+  params: Record<string, any>;
+  schemaType?: SchemaType;
+  // Wallet the transaction is built for; required for state-changing functions
+  from?: string;
+  // Wei sent with payable functions, as a decimal string
+  value?: string;
+  // Refuse state-changing functions instead of building a transaction
+  readOnly?: boolean;
+}
+
+export type ContractExecutionErrorCode =
+  | 'SCHEMA_NOT_FOUND'
+  | 'ACTION_NOT_FOUND'
+  | 'MISSING_PARAMS'
+  | 'INVALID_REQUEST'
+  | 'READ_ONLY'
+  | 'REVERTED'
+  | 'PROVIDER_ERROR'
+  | 'CALL_FAILED';
+
+export type ContractExecutionResponse =
+  | {
+      success: true;
+      kind: 'call';
+      function: string;
+      parameters: Record<string, any>;
+      result: Record<string, any>;
+    }
+  | {
+      success: true;
+      kind: 'transaction';
+      function: string;
+      // Canonical signature of the function the transaction calls, e.g. `transfer(address,uint256)`
+      signature: string;
+      parameters: Record<string, any>;
+      transaction: UnsignedTransaction;
+      simulatedResult: Record<string, any>;
+    }
+  | {
+      success: false;
+      code: ContractExecutionErrorCode;
+      error: string;
+      details?: string;
+      missingParams?: string[];
+      revert?: DecodedRevert;
+    };
+
+/**
+ * HTTP status for each execution error, used by the REST routes
+ */
+export const EXECUTION_ERROR_STATUS: Record<ContractExecutionErrorCode, number> = {
+  SCHEMA_NOT_FOUND: 404,
+  ACTION_NOT_FOUND: 404,
+  MISSING_PARAMS: 400,
+  INVALID_REQUEST: 400,
+  READ_ONLY: 403,
+  REVERTED: 422,
+  PROVIDER_ERROR: 500,
+  CALL_FAILED: 500,
+};
+
+/**
+ * Returns the contract's tools for a schema type, or null when that schema has not been generated.
+ * GPT actions are normalised to the MCP tool shape.
+ */
+export const getContractTools = (contract: ExecutableContract, schemaType: SchemaType = 'mcp'): MCPTool[] | null => {
+  const schema = schemaType === 'mcp' ? contract.mcpSchema : contract.gptActionSchema;
+  if (!schema) return null;
+
+  if (schemaType === 'mcp') {
+    return parseMCPSchema(schema);
+  }
+
+  return JSON.parse(schema)
+    .filter((item: any) => item.function)
+    .map((item: any) => ({
+      name: item.function.name,
+      description: item.function.description,
+      inputSchema: item.function.parameters,
+    }));
+};
+
+/**
+ * Lists the actions a contract exposes, with their required parameters
+ */
+export const listContractActions = (contract: ExecutableContract, schemaType: SchemaType = 'mcp'): ContractAction[] | null => {
+  const tools = getContractTools(contract, schemaType);
+  return tools
+    ? tools.map(tool => ({ name: tool.name, description: tool.description, parameters: tool.inputSchema.required }))
+    : null;
+};
+
+/**
+ * Runs an event query tool: the block range and pagination parameters are read, the rest filter indexed parameters
+ */
+const queryContractEvents = async (
+  contract: ExecutableContract,
+  action: string,
+  params: Record<string, any>
+): Promise<ContractExecutionResponse> => {
+  const event = resolveEvent(contract.abiJson, action);
+  if (!event) {
+    return { success: false, code: 'ACTION_NOT_FOUND', error: `Event for "${action}" not found on contract` };
+  }
+
+  const { fromBlock, toBlock, limit, cursor, ...filterParams } = params;
+
+  // Filters named like a query option are keyed with a `_` prefix in the tool, and mapped back to the argument here
+  const filterInputs = event.inputs.filter(isFilterableEventInput);
+  const filterKeys = getEventFilterKeys(filterInputs);
+  const filters = Object.fromEntries(
+    Object.entries(filterParams).map(([key, value]) => {
+      const index = filterKeys.indexOf(key);
+      return [index === -1 ? key : filterInputs[index].name, value];
+    })
+  );
+
+  // Contracts with an event indexer answer from the index when it covers the requested blocks
+  if (contract.id) {
+    try {
+      const range = await getIndexedRange(contract.id, { fromBlock, toBlock, cursor });
+      if (range) {
+        const queried = await queryIndexedEvents({ id: contract.id, abiJson: contract.abiJson }, {
+          event: getFunctionSignature(event),
+          filters,
+          limit,
+          ...(cursor ? { cursor, fromBlock, toBlock } : range),
+        });
+        if (!queried.success) {
+          return { success: false, code: 'INVALID_REQUEST', error: queried.error, details: queried.details };
+        }
+
+        return { success: true, kind: 'call', function: action, parameters: params, result: { ...queried.page, source: 'index' } };
+      }
+    } catch (error) {
+      console.error(`Failed to query indexed ${event.name} events, querying the chain instead:`, error);
+    }
+  }
+
+  let provider: ethers.providers.Provider;
+  try {
+    provider = getProvider(contract.network);
+  } catch (error: any) {
+    return {
+      success: false,
+      code: 'PROVIDER_ERROR',
+      error: 'Failed to initialize blockchain provider',
+      details: error?.message || String(error),
+    };
+  }
+
+  try {
+    const queried = await queryEventLogs(provider, contract.address, event, { filters, fromBlock, toBlock, limit, cursor });
+    if (!queried.success) {
+      return { success: false, code: 'INVALID_REQUEST', error: queried.error, details: queried.details };
+    }
+
+    return { success: true, kind: 'call', function: action, parameters: params, result: { ...queried.page, source: 'rpc' } };
+  } catch (error: any) {
+    return {
+      success: false,
+      code: 'CALL_FAILED',
+      error: `Failed to query ${event.name} events`,
+      details: error?.message || String(error),
+    };
+  }
+};
+
+/**
+ * Executes an action against a contract
+ */
+export const executeContractAction = async (
+  contract: ExecutableContract,
+  { action, params, schemaType = 'mcp', from, value, readOnly = false }: ContractExecutionRequest
+): Promise<ContractExecutionResponse> => {
+  const tools = getContractTools(contract, schemaType);
+  if (!tools) {
+    return {
+      success: false,
+      code: 'SCHEMA_NOT_FOUND',
+      error: `${schemaType.toUpperCase()} schema not found for this contract`,
+    };
+  }
+
+  const tool = tools.find(item => item.name === action);
+  if (!tool) {
+    return { success: false, code: 'ACTION_NOT_FOUND', error: `Action "${action}" not found` };
+  }
+
+  // Validate required parameters
+  const requiredParams = tool.inputSchema.required;
+  const missingParams = requiredParams.filter(param => params[param] === undefined);
+  if (missingParams.length > 0) {
+    return { success: false, code: 'MISSING_PARAMS', error: 'Missing required parameters', missingParams };
+  }
+
+  if (isEventTool(tool)) {
+    return queryContractEvents(contract, action, params);
+  }
+
+  // Resolve the tool name to its ABI function so overloaded functions are unambiguous
+  const func = resolveFunction(contract.abiJson, action);
+  if (!func) {
+    return { success: false, code: 'ACTION_NOT_FOUND', error: `Function "${action}" not found on contract` };
+  }
+
+  // Read or write is decided by the ABI; tool annotations and descriptions may be missing or customised
+  const stateMutability = getStateMutability(func);
+  const isStateChanging = stateMutability !== 'view' && stateMutability !== 'pure';
+  if (isStateChanging && readOnly) {
+    return {
+      success: false,
+      code: 'READ_ONLY',
+      error: `"${action}" modifies blockchain state and must be sent as a signed transaction from the user's wallet.`,
+    };
+  }
+
+  // Extract the parameters in the correct order
+  const functionParams = requiredParams.map(param => params[param]);
+
+  // Integers outside their type's range are rejected here rather than failing to encode
+  const inputKeys = getInputKeys(func.inputs);
+  const rangeError = func.inputs
+    .map((input, index) => findIntegerRangeError(input, functionParams[index], inputKeys[index]))
+    .find(error => error !== null);
+  if (rangeError) {
+    return { success: false, code: 'INVALID_REQUEST', error: 'Invalid parameters', details: rangeError };
+  }
+
+  let provider: ethers.providers.Provider;
+  try {
+    provider = getProvider(contract.network);
+  } catch (error: any) {
+    return {
+      success: false,
+      code: 'PROVIDER_ERROR',
+      error: 'Failed to initialize blockchain provider',
+      details: error?.message || String(error),
+    };
+  }
+
+  try {
+    if (isStateChanging) {
+      // The transaction is returned unsigned for the sender's wallet to sign
+      const built = await buildTransaction(provider, contract.address, contract.abiJson, func, functionParams, {
+        from: from || '',
+        value,
+      });
+
+      if (!built.success) {
+        return {
+          success: false,
+          code: built.reverted ? 'REVERTED' : 'INVALID_REQUEST',
+          error: built.error,
+          details: built.details,
+          ...(built.revert ? { revert: built.revert } : {}),
+        };
+      }
+
+      return {
+        success: true,
+        kind: 'transaction',
+        function: action,
+        signature: getFunctionSignature(func),
+        parameters: params,
+        transaction: built.transaction,
+        simulatedResult: built.simulatedResult,
+      };
+    }
+
+    // `functions` always returns the full output tuple, which is decoded using the ABI outputs
+    const contractInstance = new ethers.Contract(contract.address, JSON.parse(contract.abiJson), provider);
+    const result = await contractInstance.functions[getFunctionSignature(func)](...functionParams);
+
+    return {
+      success: true,
+      kind: 'call',
+      function: action,
+      parameters: params,
+      result: decodeFunctionResult(func.outputs, result),
+    };
+  } catch (error: any) {
+    // A revert is an outcome of the call rather than a server failure, so report it decoded
+    const revert = decodeContractError(contract.abiJson, error);
+    if (revert) {
+      return {
+        success: false,
+        code: 'REVERTED',
+        error: `Contract function "${action}" reverted`,
+        details: revert.message,
+        revert,
+      };
+    }
+
+    return {
+      success: false,
+      code: 'CALL_FAILED',
+      error: `Failed to call contract function "${action}"`,
+      details: error?.message || String(error),
+    };
+  }
+};
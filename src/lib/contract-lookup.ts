@@ -0,0 +1,110 @@
+/**
+ * Resolves stored contracts by contract id or by (network, address)
+ * The same address is often deployed on several chains (CREATE2) or imported into several projects,
+ * so an address alone only resolves when exactly one contract matches it.
+ */
+
+import { SmartContract } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { getNetwork, getNetworkKeys } from '@/lib/networks';
+
+export interface ContractLookup {
+  contractId?: string;
+  address?: string;
+  network?: string;
+}
+
+// What a caller needs to pick between several matching contracts
+export interface ContractMatch {
+  id: string;
+  name: string | null;
+  address: string;
+  network: string;
+  networkName: string;
+  chainId: number | null;
+}
+
+export type ContractLookupResult =
+  | { status: 'found'; contract: SmartContract }
+  | { status: 'invalid'; error: string }
+  | { status: 'not_found'; error: string }
+  | { status: 'ambiguous'; error: string; matches: ContractMatch[] };
+
+/**
+ * HTTP status for each unsuccessful lookup, used by the API routes
+ */
+export const LOOKUP_ERROR_STATUS: Record<Exclude<ContractLookupResult['status'], 'found'>, number> = {
+  invalid: 400,
+  not_found: 404,
+  ambiguous: 409,
+};
+
+const toContractMatch = (contract: SmartContract): ContractMatch => {
+  const network = getNetwork(contract.network);
+  return {
+    id: contract.id,
+    name: contract.name,
+    address: contract.address,
+    network: network?.id || contract.network,
+    networkName: network?.name || contract.network,
+    chainId: network?.chainId ?? null,
+  };
+};
+
+/**
+ * Finds a single contract. A contract id wins over network and address; when both are given the
+ * address must belong to that contract.
+ */
+export const findContract = async ({ contractId, address, network }: ContractLookup): Promise<ContractLookupResult> => {
+  if (contractId) {
+    const contract = await prisma.smartContract.findUnique({ where: { id: contractId } });
+    if (!contract || (address && contract.address.toLowerCase() !== address.toLowerCase())) {
+      return { status: 'not_found', error: `Contract not found with id: ${contractId}` };
+    }
+    return { status: 'found', contract };
+  }
+
+  if (!address) {
+    return { status: 'invalid', error: 'Contract address or contract id is required' };
+  }
+
+  const networkConfig = network ? getNetwork(network) : undefined;
+  if (network && !networkConfig) {
+    return { status: 'invalid', error: `Unsupported network: ${network}` };
+  }
+
+  const contracts = await prisma.smartContract.findMany({
+    where: {
+      address: { equals: address, mode: 'insensitive' },
+      ...(networkConfig ? { network: { in: getNetworkKeys(networkConfig) } } : {}),
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (contracts.length === 0) {
+    return {
+      status: 'not_found',
+      error: networkConfig
+        ? `Contract not found with address ${address} on ${networkConfig.name}`
+        : `Contract not found with address: ${address}`,
+    };
+  }
+
+  if (contracts.length > 1) {
+    return {
+      status: 'ambiguous',
+      error: `${contracts.length} contracts match address ${address}. ` +
+        `Specify ${networkConfig ? 'contractId' : 'network or contractId'} to choose one.`,
+      matches: contracts.map(toContractMatch),
+    };
+  }
+
+  return { status: 'found', contract: contracts[0] };
+};
+
+/**
+ * Reads an optional string from a Next.js query object
+ */
+export const getQueryString = (value: string | string[] | undefined): string | undefined => {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+};
@@ -0,0 +1,56 @@
+/**
+ * Decodes contract call results into plain JSON using the function's ABI outputs
+ * Integers become decimal strings, addresses are checksummed and structs become named objects.
+ */
+
+import { ethers } from 'ethers';
+import { ABIParameter, getOutputKey, parseArrayType } from '@/lib/solidity-schema';
+
+/**
+ * Decodes a single ABI value
+ */
+export const decodeValue = (param: ABIParameter, value: any): any => {
+  const arrayType = parseArrayType(param.type);
+  if (arrayType) {
+    const itemParam = { name: '', type: arrayType.baseType, components: param.components };
+    return Array.from(value as any[]).map(item => decodeValue(itemParam, item));
+  }
+
+  if (param.type === 'tuple') {
+    const components = param.components || [];
+    return Object.fromEntries(
+      components.map((component, index) => [
+        component.name || String(index),
+        decodeValue(component, value[index]),
+      ])
+    );
+  }
+
+  // ethers returns integers of up to 48 bits as numbers; every integer is a decimal string here
+  if (ethers.BigNumber.isBigNumber(value) || (typeof value === 'number' && /^u?int/.test(param.type))) {
+    return value.toString();
+  }
+
+  if (param.type === 'address') {
+    return ethers.utils.getAddress(value);
+  }
+
+  // bytes and bytesN are already 0x-prefixed hex strings; normalise their case
+  if (param.type.startsWith('bytes') && typeof value === 'string') {
+    return value.toLowerCase();
+  }
+
+  return value;
+};
+
+/**
+ * Decodes the `Result` returned by `contract.functions[signature]()` into a named object
+ */
+export const decodeFunctionResult = (outputs: ABIParameter[], result: ethers.utils.Result): Record<string, any> => {
+  return Object.fromEntries(
+    outputs.map((output, index) => [
+      getOutputKey(output, index, outputs.length),
+      decodeValue(output, result[index]),
+    ])
+  );
+};
@@ -0,0 +1,159 @@
+/**
+ * Decodes revert data from failed contract calls
+ * Covers the built-in `Error(string)` and `Panic(uint256)` errors and custom errors declared in the ABI.
+ */
+
+import { ethers } from 'ethers';
+import { getFunctionSignature } from '@/lib/abi-to-mcp';
+import { decodeValue } from '@/lib/decode-result';
+import { ABIParameter } from '@/lib/solidity-schema';
+
+export type RevertKind = 'error' | 'panic' | 'custom' | 'unknown';
+
+export interface DecodedRevert {
+  kind: RevertKind;
+  // `Error`, `Panic` or the custom error's name
+  name: string;
+  signature?: string;
+  args: Record<string, any>;
+  // Human-readable explanation suitable for users and the chat assistant
+  message: string;
+  data?: string;
+}
+
+const ERROR_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+/**
+ * Meanings of the compiler-inserted panic codes
+ * See https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+ */
+export const PANIC_CODES: Record<number, string> = {
+  0x00: 'Generic compiler panic',
+  0x01: 'Assertion failed',
+  0x11: 'Arithmetic overflow or underflow',
+  0x12: 'Division or modulo by zero',
+  0x21: 'Conversion to an invalid enum value',
+  0x22: 'Incorrectly encoded storage byte array',
+  0x31: 'pop() called on an empty array',
+  0x32: 'Array index out of bounds',
+  0x41: 'Too much memory allocated or array too large',
+  0x51: 'Call to an uninitialised internal function',
+};
+
+/**
+ * Finds the revert data in an ethers or JSON-RPC error, which providers nest at different depths
+ */
+export const getRevertData = (error: any): string | undefined => {
+  let current = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (typeof current.data === 'string' && ethers.utils.isHexString(current.data)) {
+      return current.data;
+    }
+    if (typeof current.data?.data === 'string' && ethers.utils.isHexString(current.data.data)) {
+      return current.data.data;
+    }
+    current = current.error;
+  }
+  return undefined;
+};
+
+const formatArgs = (args: Record<string, any>): string =>
+  Object.entries(args)
+    .map(([name, value]) => `${name}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(', ');
+
+/**
+ * Decodes raw revert data using the contract's ABI for custom errors
+ */
+export const decodeRevertData = (abiJson: string, data: string): DecodedRevert => {
+  const selector = data.slice(0, 10).toLowerCase();
+
+  if (data === '0x') {
+    return { kind: 'unknown', name: 'Revert', args: {}, message: 'Reverted without a reason', data };
+  }
+
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const [reason] = ethers.utils.defaultAbiCoder.decode(['string'], ethers.utils.hexDataSlice(data, 4));
+      return {
+        kind: 'error',
+        name: 'Error',
+        signature: 'Error(string)',
+        args: { reason },
+        message: `Reverted with reason: "${reason}"`,
+        data,
+      };
+    }
+
+    if (selector === PANIC_SELECTOR) {
+      const [code] = ethers.utils.defaultAbiCoder.decode(['uint256'], ethers.utils.hexDataSlice(data, 4));
+      const codeHex = ethers.utils.hexValue(code);
+      const meaning = code.lte(0xff) ? PANIC_CODES[code.toNumber()] : undefined;
+      return {
+        kind: 'panic',
+        name: 'Panic',
+        signature: 'Panic(uint256)',
+        args: { code: codeHex },
+        message: `Panic ${codeHex}: ${meaning || 'Unknown panic code'}`,
+        data,
+      };
+    }
+
+    const errors: { name: string; inputs: ABIParameter[] }[] = JSON.parse(abiJson)
+      .filter((item: any) => item.type === 'error')
+      .map((item: any) => ({ name: item.name, inputs: item.inputs || [] }));
+
+    const customError = errors.find(item => ethers.utils.id(getFunctionSignature(item)).slice(0, 10) === selector);
+    if (customError) {
+      const signature = getFunctionSignature(customError);
+      const values = ethers.utils.defaultAbiCoder.decode(
+        customError.inputs.map(input => ethers.utils.ParamType.from(input as any)),
+        ethers.utils.hexDataSlice(data, 4)
+      );
+      const args = Object.fromEntries(
+        customError.inputs.map((input, index) => [input.name || String(index), decodeValue(input, values[index])])
+      );
+      return {
+        kind: 'custom',
+        name: customError.name,
+        signature,
+        args,
+        message: `Reverted with custom error ${customError.name}(${formatArgs(args)})`,
+        data,
+      };
+    }
+  } catch (error) {
+    console.error('Error decoding revert data:', error);
+  }
+
+  return {
+    kind: 'unknown',
+    name: 'Revert',
+    args: {},
+    message: `Reverted with unrecognised error data (selector ${selector})`,
+    data,
+  };
+};
+
+/**
+ * Decodes the revert behind a failed call, or returns null when the error is not a revert,
+ * e.g. a network failure or invalid arguments
+ */
+export const decodeContractError = (abiJson: string, error: any): DecodedRevert | null => {
+  const data = getRevertData(error);
+  if (data !== undefined) {
+    return decodeRevertData(abiJson, data);
+  }
+
+  if (error?.code === ethers.errors.CALL_EXCEPTION) {
+    return {
+      kind: 'unknown',
+      name: 'Revert',
+      args: {},
+      message: error.reason ? `Reverted: ${error.reason}` : 'Reverted without a reason',
+    };
+  }
+
+  return null;
+};
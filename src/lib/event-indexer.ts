@@ -0,0 +1,353 @@
+/**
+ * Background indexer that stores a contract's decoded events
+ * An indexer backfills logs from its start block in passes of bounded size, then follows new blocks. Each pass
+ * first compares the stored hash of the last indexed block with the chain's: when it changed, a reorg replaced
+ * recent blocks, so the indexer rewinds `INDEXER_REORG_DEPTH` blocks and indexes them again. Reorgs deeper than
+ * that are not detected. Passes run from /api/cron/index-events or, on a long-running server, from a timer.
+ */
+
+import { ethers } from 'ethers';
+import { EventIndexer, Prisma, SmartContract } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import {
+  ABIEvent,
+  ABIEventInput,
+  DEFAULT_EVENT_LIMIT,
+  DEFAULT_EVENT_LOOKBACK_BLOCKS,
+  getFunctionSignature,
+  MAX_EVENT_LIMIT,
+} from '@/lib/abi-to-mcp';
+import { decodeValue } from '@/lib/decode-result';
+import {
+  decodeCursor,
+  decodeEventLog,
+  DecodedEventLog,
+  encodeCursor,
+  EventLogQuery,
+  getCursorQuery,
+  getLogsChunk,
+  readCursor,
+} from '@/lib/event-logs';
+import { getProvider } from '@/lib/rpc-provider';
+
+// Blocks indexed per pass, so a pass stays short enough for a serverless function
+const DEFAULT_BLOCKS_PER_PASS = 10000;
+
+const DEFAULT_REORG_DEPTH = 64;
+
+// Delay between passes while an indexer is still backfilling, when running on a timer
+const BACKFILL_INTERVAL_MS = 1000;
+
+export type IndexerPassResult =
+  | { status: 'indexed'; fromBlock: number; toBlock: number; events: number; reorg: boolean; caughtUp: boolean }
+  | { status: 'idle' }
+  // Another pass advanced the indexer while this one was running, so this pass's work was dropped
+  | { status: 'superseded' }
+  | { status: 'error'; error: string };
+
+export interface IndexedEventQuery {
+  // Event name or full signature; all events when omitted
+  event?: string;
+  // Decoded argument values to match, keyed by argument name
+  filters?: Record<string, any>;
+  fromBlock?: number;
+  toBlock?: number;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface IndexedEventPage {
+  events: (DecodedEventLog & { event: string })[];
+  fromBlock: number;
+  toBlock: number;
+  nextCursor?: string;
+}
+
+export type IndexedEventQueryResult =
+  | { success: true; page: IndexedEventPage }
+  | { success: false; error: string; details?: string };
+
+const getBlocksPerPass = () => Number(process.env.INDEXER_BLOCKS_PER_PASS) || DEFAULT_BLOCKS_PER_PASS;
+const getReorgDepth = () => Number(process.env.INDEXER_REORG_DEPTH) || DEFAULT_REORG_DEPTH;
+
+/**
+ * Events of an ABI keyed by their topic hash. Anonymous events have no topic hash and cannot be recognised.
+ */
+const getEventsByTopic = (abiJson: string): Map<string, ABIEvent> => {
+  const events: ABIEvent[] = JSON.parse(abiJson).filter((item: any) => item.type === 'event' && !item.anonymous);
+  return new Map(events.map(event => [ethers.utils.id(getFunctionSignature(event)), event]));
+};
+
+/**
+ * Finds the block a contract was deployed in by binary search over its code
+ * Needs historical state, so it fails on pruned nodes; a start block has to be given there.
+ */
+export const findDeploymentBlock = async (provider: ethers.providers.Provider, address: string): Promise<number> => {
+  const latest = await provider.getBlockNumber();
+  if ((await provider.getCode(address, latest)) === '0x') {
+    throw new Error(`No contract code at ${address}`);
+  }
+
+  let low = 0;
+  let high = latest;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await provider.getCode(address, middle)) === '0x') {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+/**
+ * Indexes the next range of blocks for a contract
+ */
+export const runIndexerPass = async (indexer: EventIndexer & { contract: SmartContract }): Promise<IndexerPassResult> => {
+  const { contract } = indexer;
+
+  try {
+    const provider = getProvider(contract.network);
+    const latest = await provider.getBlockNumber();
+
+    let lastIndexed = indexer.lastIndexedBlock ?? indexer.startBlock - 1;
+    let reorg = false;
+    if (indexer.lastIndexedBlock !== null && indexer.lastIndexedBlockHash) {
+      const block = await provider.getBlock(indexer.lastIndexedBlock);
+      if (!block || block.hash !== indexer.lastIndexedBlockHash) {
+        reorg = true;
+        lastIndexed = Math.max(indexer.startBlock - 1, indexer.lastIndexedBlock - getReorgDepth());
+        console.log(`[event-indexer] Reorg at block ${indexer.lastIndexedBlock} for contract ${contract.id}, rewinding to ${lastIndexed}`);
+      }
+    }
+
+    if (!reorg && lastIndexed >= latest) {
+      return { status: 'idle' };
+    }
+
+    const fromBlock = lastIndexed + 1;
+    const toBlock = Math.min(latest, lastIndexed + getBlocksPerPass());
+
+    // The hash is read before the logs, so a reorg while scanning shows up as a mismatch on the next pass
+    const toBlockHash = toBlock >= fromBlock ? (await provider.getBlock(toBlock)).hash : null;
+
+    const eventsByTopic = getEventsByTopic(contract.abiJson);
+    const rows: Prisma.IndexedEventCreateManyInput[] = [];
+    let start = fromBlock;
+    let chunkSize: number | undefined;
+    while (start <= toBlock) {
+      const chunk = await getLogsChunk(provider, { address: contract.address }, start, toBlock, chunkSize);
+      chunkSize = chunk.chunkSize;
+
+      for (const log of chunk.logs) {
+        const event = eventsByTopic.get(log.topics[0]);
+        if (!event || log.removed) continue;
+
+        const decoded = decodeEventLog(event, log);
+        rows.push({
+          contractId: contract.id,
+          eventName: event.name,
+          signature: getFunctionSignature(event),
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+          transactionHash: log.transactionHash,
+          logIndex: log.logIndex,
+          args: decoded.args,
+        });
+      }
+      start = chunk.toBlock + 1;
+    }
+
+    const newLastIndexed = Math.max(toBlock, lastIndexed);
+    const claimed = await prisma.$transaction(async (tx) => {
+      // Another pass may have advanced the indexer meanwhile; its work stands and this pass is dropped
+      const { count } = await tx.eventIndexer.updateMany({
+        where: { id: indexer.id, lastIndexedBlock: indexer.lastIndexedBlock },
+        data: {
+          lastIndexedBlock: newLastIndexed < indexer.startBlock ? null : newLastIndexed,
+          lastIndexedBlockHash: toBlockHash,
+          status: newLastIndexed >= latest ? 'following' : 'backfilling',
+          error: null,
+        },
+      });
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.indexedEvent.deleteMany({ where: { contractId: contract.id, blockNumber: { gt: lastIndexed } } });
+      await tx.indexedEvent.createMany({ data: rows, skipDuplicates: true });
+      return true;
+    }, { timeout: 30000 });
+
+    // Overlapping passes are expected when the cron route and the timer both run, and are not an error
+    if (!claimed) {
+      console.log(`[event-indexer] Blocks ${fromBlock}-${toBlock} for contract ${contract.id} were indexed by another pass`);
+      return { status: 'superseded' };
+    }
+
+    console.log(`[event-indexer] Indexed ${rows.length} events in blocks ${fromBlock}-${toBlock} for contract ${contract.id}`);
+    return { status: 'indexed', fromBlock, toBlock, events: rows.length, reorg, caughtUp: newLastIndexed >= latest };
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    console.error(`[event-indexer] Pass failed for contract ${contract.id}:`, error);
+    await prisma.eventIndexer.update({ where: { id: indexer.id }, data: { status: 'error', error: message } });
+    return { status: 'error', error: message };
+  }
+};
+
+/**
+ * Runs one pass of every enabled indexer, one after another to limit the load on RPC providers
+ */
+export const runEventIndexers = async (): Promise<Record<string, IndexerPassResult>> => {
+  const indexers = await prisma.eventIndexer.findMany({ where: { enabled: true }, include: { contract: true } });
+
+  const results: Record<string, IndexerPassResult> = {};
+  for (const indexer of indexers) {
+    results[indexer.contractId] = await runIndexerPass(indexer);
+  }
+  return results;
+};
+
+let loopStarted = false;
+
+/**
+ * Runs the indexers on a timer in this process, faster while any of them is backfilling
+ */
+export const startEventIndexerLoop = (intervalMs: number) => {
+  if (loopStarted) return;
+  loopStarted = true;
+  console.log(`[event-indexer] Running indexers every ${intervalMs}ms`);
+
+  const tick = async () => {
+    let backfilling = false;
+    try {
+      const results = await runEventIndexers();
+      backfilling = Object.values(results).some(result => result.status === 'indexed' && !result.caughtUp);
+    } catch (error) {
+      console.error('[event-indexer] Failed to run indexers:', error);
+    }
+    setTimeout(tick, backfilling ? BACKFILL_INTERVAL_MS : intervalMs);
+  };
+  tick();
+};
+
+/**
+ * The block range of a log query if a contract's index covers it, or null when it has to go to the chain
+ * Open-ended queries end at the last indexed block and look back no further than the indexer's start block.
+ */
+export const getIndexedRange = async (
+  contractId: string,
+  { fromBlock, toBlock, cursor }: EventLogQuery
+): Promise<{ fromBlock: number; toBlock: number } | null> => {
+  const indexer = await prisma.eventIndexer.findUnique({ where: { contractId } });
+  if (!indexer?.enabled || indexer.lastIndexedBlock === null) return null;
+
+  let start: number;
+  let end: number;
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (!decoded) return null;
+    start = decoded.block;
+    end = decoded.toBlock;
+  } else {
+    if ([fromBlock, toBlock].some(block => block !== undefined && !Number.isInteger(block))) return null;
+    end = toBlock ?? indexer.lastIndexedBlock;
+    start = fromBlock ?? Math.max(indexer.startBlock, end - DEFAULT_EVENT_LOOKBACK_BLOCKS + 1);
+  }
+
+  return start >= indexer.startBlock && start <= end && end <= indexer.lastIndexedBlock ? { fromBlock: start, toBlock: end } : null;
+};
+
+/**
+ * Converts a filter value to the form arguments are stored in. Indexed strings and bytes are stored as hashes.
+ */
+const toStoredArgValue = (input: ABIEventInput | undefined, value: any): any => {
+  if (!input) return value;
+  if (input.indexed && (input.type === 'string' || input.type === 'bytes')) {
+    return input.type === 'string' ? ethers.utils.id(value) : ethers.utils.keccak256(value);
+  }
+  if (input.type === 'bool') return value === true || value === 'true';
+  return decodeValue(input, /^u?int/.test(input.type) ? ethers.BigNumber.from(value) : value);
+};
+
+/**
+ * Queries stored events of a contract, oldest first. Cursors have the same form as those of live log queries.
+ */
+export const queryIndexedEvents = async (
+  contract: { id: string; abiJson: string },
+  { event, filters = {}, fromBlock, toBlock, limit = DEFAULT_EVENT_LIMIT, cursor }: IndexedEventQuery
+): Promise<IndexedEventQueryResult> => {
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_EVENT_LIMIT) {
+    return { success: false, error: `limit must be between 1 and ${MAX_EVENT_LIMIT}` };
+  }
+
+  const abiEvents: ABIEvent[] = JSON.parse(contract.abiJson).filter((item: any) => item.type === 'event');
+  const matchesEvent = (item: ABIEvent) => item.name === event || getFunctionSignature(item) === event;
+  if (event && !abiEvents.some(matchesEvent)) {
+    return { success: false, error: `Event "${event}" not found on contract` };
+  }
+
+  // Arguments are typed by the requested event, so values like addresses match their stored form
+  const abiEvent = event ? abiEvents.find(matchesEvent)! : null;
+  const inputs = abiEvent ? abiEvent.inputs : [];
+  let argFilters: Prisma.IndexedEventWhereInput[];
+  try {
+    argFilters = Object.entries(filters).map(([name, value]) => ({
+      args: { path: [name], equals: toStoredArgValue(inputs.find(input => input.name === name), value) },
+    }));
+  } catch (error: any) {
+    return { success: false, error: 'Invalid event filter', details: error?.reason || error?.message };
+  }
+
+  // Cursors name the event by signature, like those of live log queries, so either can continue the other's
+  const query = getCursorQuery(abiEvent ? getFunctionSignature(abiEvent) : '', filters);
+  let start = fromBlock ?? 0;
+  let end = toBlock;
+  let position: Prisma.IndexedEventWhereInput = {};
+  if (cursor) {
+    const read = readCursor(cursor, query, { fromBlock, toBlock });
+    if (!read.success) {
+      return { success: false, error: read.error };
+    }
+    const decoded = read.cursor;
+    start = decoded.block;
+    end = decoded.toBlock;
+    position = {
+      OR: [
+        { blockNumber: { gt: decoded.block } },
+        { blockNumber: decoded.block, logIndex: { gte: decoded.logIndex } },
+      ],
+    };
+  }
+
+  const rows = await prisma.indexedEvent.findMany({
+    where: {
+      contractId: contract.id,
+      ...(event ? { OR: [{ eventName: event }, { signature: event }] } : {}),
+      blockNumber: { gte: start, ...(end !== undefined ? { lte: end } : {}) },
+      AND: [position, ...argFilters],
+    },
+    orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }],
+    take: limit + 1,
+  });
+
+  const events = rows.slice(0, limit).map(row => ({
+    event: row.eventName,
+    blockNumber: row.blockNumber,
+    transactionHash: row.transactionHash,
+    logIndex: row.logIndex,
+    args: row.args as Record<string, any>,
+  }));
+  const next = rows[limit];
+
+  return {
+    success: true,
+    page: {
+      events,
+      fromBlock: start,
+      toBlock: next ? next.blockNumber : end ?? events[events.length - 1]?.blockNumber ?? start,
+      ...(next ? { nextCursor: encodeCursor({ block: next.blockNumber, logIndex: next.logIndex, toBlock: end ?? next.blockNumber, query }) } : {}),
+    },
+  };
+};
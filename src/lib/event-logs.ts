@@ -0,0 +1,261 @@
+/**
+ * Event log queries for imported contracts
+ * Logs are fetched with eth_getLogs over chunked block ranges, since RPC providers cap the span or result count
+ * of a single request, and decoded with the event's ABI. Results are paged by an opaque cursor.
+ */
+
+import { ethers } from 'ethers';
+import {
+  ABIEvent,
+  DEFAULT_EVENT_LIMIT,
+  DEFAULT_EVENT_LOOKBACK_BLOCKS,
+  getFunctionSignature,
+  isFilterableEventInput,
+  MAX_EVENT_LIMIT,
+} from '@/lib/abi-to-mcp';
+import { decodeValue } from '@/lib/decode-result';
+import { getOutputKey } from '@/lib/solidity-schema';
+
+// Block span of one eth_getLogs request. It is halved whenever a provider rejects a request.
+export const DEFAULT_LOG_CHUNK_SIZE = 2000;
+
+// Blocks scanned for one page, so a rare event over a long range returns a cursor instead of running on
+const MAX_BLOCKS_PER_PAGE = 100000;
+
+export interface EventLogQuery {
+  // Values of indexed parameters, keyed by parameter name
+  filters?: Record<string, any>;
+  fromBlock?: number;
+  toBlock?: number;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface DecodedEventLog {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, any>;
+}
+
+export interface EventLogPage {
+  events: DecodedEventLog[];
+  fromBlock: number;
+  toBlock: number;
+  nextCursor?: string;
+}
+
+export type EventLogQueryResult =
+  | { success: true; page: EventLogPage }
+  | { success: false; error: string; details?: string };
+
+export interface LogChunk {
+  logs: ethers.providers.Log[];
+  // Last block covered, which is before the requested end when the span had to shrink
+  toBlock: number;
+  // Span that succeeded, to use for the next chunk
+  chunkSize: number;
+}
+
+// Where the next page starts: logs in `block` before `logIndex` were already returned.
+// `query` identifies the event and filters the cursor was issued for.
+export interface EventLogCursor {
+  block: number;
+  logIndex: number;
+  toBlock: number;
+  query: string;
+}
+
+export const encodeCursor = (cursor: EventLogCursor): string => {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+export const decodeCursor = (value: string): EventLogCursor | null => {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString());
+    const isBlock = (item: any) => Number.isInteger(item) && item >= 0;
+    return isBlock(cursor.block) && isBlock(cursor.logIndex) && isBlock(cursor.toBlock) && typeof cursor.query === 'string'
+      ? cursor
+      : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Short hash of the event (its signature, or empty for every event) and the filters of a query
+ */
+export const getCursorQuery = (event: string, filters: Record<string, any> = {}): string => {
+  const entries = Object.entries(filters)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => [name, String(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return ethers.utils.id(JSON.stringify([event, entries])).slice(2, 18);
+};
+
+/**
+ * Reads a cursor, checking that it continues the same query: the same event and filters, within the requested range
+ */
+export const readCursor = (
+  value: string,
+  query: string,
+  { fromBlock, toBlock }: { fromBlock?: number; toBlock?: number }
+): { success: true; cursor: EventLogCursor } | { success: false; error: string } => {
+  const cursor = decodeCursor(value);
+  if (!cursor) {
+    return { success: false, error: 'Invalid cursor' };
+  }
+  if (cursor.query !== query) {
+    return { success: false, error: 'The cursor was issued for a different event or filters' };
+  }
+  if ((fromBlock !== undefined && cursor.block < fromBlock) || (toBlock !== undefined && cursor.toBlock > toBlock)) {
+    return { success: false, error: 'The cursor was issued for a different block range' };
+  }
+  return { success: true, cursor };
+};
+
+const isBlockNumber = (value: any): boolean => value === undefined || (Number.isInteger(value) && value >= 0);
+
+/**
+ * Builds the topics filter for an event from values of its indexed parameters
+ * Strings and bytes are matched by hash, which ethers computes from the value.
+ */
+export const getEventTopics = (event: ABIEvent, filters: Record<string, any> = {}): (string | string[] | null)[] => {
+  const iface = new ethers.utils.Interface([event]);
+  const values = event.inputs
+    .filter(input => input.indexed)
+    .map(input => (isFilterableEventInput(input) && filters[input.name] !== undefined ? filters[input.name] : null));
+
+  return iface.encodeFilterTopics(iface.getEvent(getFunctionSignature(event)), values);
+};
+
+/**
+ * Decodes a log's arguments into plain JSON, keyed like decoded function results
+ * Indexed strings, bytes, arrays and structs are only stored as their hash, which is returned instead.
+ */
+export const decodeEventLog = (event: ABIEvent, log: ethers.providers.Log): DecodedEventLog => {
+  const iface = new ethers.utils.Interface([event]);
+  const parsed = iface.parseLog(log);
+
+  return {
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+    args: Object.fromEntries(
+      event.inputs.map((input, index) => [
+        getOutputKey(input, index, event.inputs.length),
+        ethers.utils.Indexed.isIndexed(parsed.args[index])
+          ? parsed.args[index].hash
+          : decodeValue(input, parsed.args[index]),
+      ])
+    ),
+  };
+};
+
+/**
+ * Fetches the logs of one chunk starting at `fromBlock`, halving the span until the provider accepts it
+ */
+export const getLogsChunk = async (
+  provider: ethers.providers.Provider,
+  filter: { address: string; topics?: (string | string[] | null)[] },
+  fromBlock: number,
+  toBlock: number,
+  chunkSize = Number(process.env.LOG_QUERY_CHUNK_SIZE) || DEFAULT_LOG_CHUNK_SIZE
+): Promise<LogChunk> => {
+  for (;;) {
+    const chunkEnd = Math.min(fromBlock + chunkSize - 1, toBlock);
+    try {
+      const logs = await provider.getLogs({ ...filter, fromBlock, toBlock: chunkEnd });
+      return { logs, toBlock: chunkEnd, chunkSize };
+    } catch (error) {
+      // Providers reject spans or result sets they consider too large, so retry with a smaller span
+      if (chunkSize === 1) throw error;
+      chunkSize = Math.ceil(chunkSize / 2);
+    }
+  }
+};
+
+/**
+ * Queries a page of an event's logs, oldest first
+ */
+export const queryEventLogs = async (
+  provider: ethers.providers.Provider,
+  contractAddress: string,
+  event: ABIEvent,
+  { filters = {}, fromBlock, toBlock, limit = DEFAULT_EVENT_LIMIT, cursor }: EventLogQuery
+): Promise<EventLogQueryResult> => {
+  if (!isBlockNumber(fromBlock) || !isBlockNumber(toBlock)) {
+    return { success: false, error: 'fromBlock and toBlock must be non-negative block numbers' };
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_EVENT_LIMIT) {
+    return { success: false, error: `limit must be between 1 and ${MAX_EVENT_LIMIT}` };
+  }
+
+  let topics: (string | string[] | null)[];
+  try {
+    topics = getEventTopics(event, filters);
+  } catch (error: any) {
+    return { success: false, error: 'Invalid event filter', details: error?.reason || error?.message };
+  }
+
+  // A cursor continues the range of the query that produced it
+  const query = getCursorQuery(getFunctionSignature(event), filters);
+  let start: number;
+  let end: number;
+  let skip = { block: -1, logIndex: 0 };
+  if (cursor) {
+    const read = readCursor(cursor, query, { fromBlock, toBlock });
+    if (!read.success) {
+      return { success: false, error: read.error };
+    }
+    start = read.cursor.block;
+    end = read.cursor.toBlock;
+    skip = read.cursor;
+  } else {
+    const latest = await provider.getBlockNumber();
+    end = Math.min(toBlock ?? latest, latest);
+    start = fromBlock ?? Math.max(0, end - DEFAULT_EVENT_LOOKBACK_BLOCKS + 1);
+    if (start > end) {
+      return { success: false, error: `fromBlock ${start} is after toBlock ${end}` };
+    }
+  }
+
+  const events: DecodedEventLog[] = [];
+  const pageStart = start;
+  let chunkSize: number | undefined;
+
+  while (start <= end && start - pageStart < MAX_BLOCKS_PER_PAGE) {
+    const chunk = await getLogsChunk(provider, { address: contractAddress, topics }, start, end, chunkSize);
+    chunkSize = chunk.chunkSize;
+
+    for (const log of chunk.logs) {
+      if (log.removed || (log.blockNumber === skip.block && log.logIndex < skip.logIndex)) continue;
+
+      if (events.length === limit) {
+        return {
+          success: true,
+          page: {
+            events,
+            fromBlock: pageStart,
+            toBlock: log.blockNumber,
+            nextCursor: encodeCursor({ block: log.blockNumber, logIndex: log.logIndex, toBlock: end, query }),
+          },
+        };
+      }
+      events.push(decodeEventLog(event, log));
+    }
+
+    start = chunk.toBlock + 1;
+  }
+
+  return {
+    success: true,
+    page: {
+      events,
+      fromBlock: pageStart,
+      toBlock: start - 1,
+      ...(start <= end ? { nextCursor: encodeCursor({ block: start, logIndex: 0, toBlock: end, query }) } : {}),
+    },
+  };
+};
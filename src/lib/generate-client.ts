@@ -0,0 +1,316 @@
+/**
+ * Utility to generate a typed TypeScript client package for a stored contract
+ * The client is built on viem with one method per ABI function. Parameter and return types follow viem's
+ * decoding: wide integers are bigint, addresses and bytes are `0x${string}`, and named structs are objects.
+ */
+
+import { ABIFunction, getFunctionSignature, getStateMutability, getToolName } from '@/lib/abi-to-mcp';
+import { generateAbiModule, GeneratableContract, getContractName, toPackageName } from '@/lib/generate-server';
+import { getNetwork, NetworkConfig } from '@/lib/networks';
+import { ABIParameter, parseArrayType } from '@/lib/solidity-schema';
+
+const INTEGER_TYPE_REGEX = /^u?int(\d*)$/;
+const STRUCT_NAME_REGEX = /^struct (?:[\w$]+\.)*([\w$]+)/;
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*$/;
+
+// viem decodes integers of up to 48 bits to numbers and wider ones to bigints
+const MAX_NUMBER_INTEGER_BITS = 48;
+
+// Fixed-size arrays up to this length are typed as tuples
+const MAX_TUPLE_LENGTH = 16;
+
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum',
+  'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'new', 'null',
+  'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+  'let', 'static', 'implements', 'interface', 'package', 'private', 'protected', 'public', 'await', 'arguments',
+]);
+
+/**
+ * PascalCase type name for a contract, e.g. `MyToken`
+ */
+const toTypeName = (contractName: string): string => {
+  const name = contractName
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  return /^[A-Za-z]/.test(name) ? name : `Contract${name}`;
+};
+
+const toPropertyKey = (name: string): string => (IDENTIFIER_REGEX.test(name) ? name : JSON.stringify(name));
+
+/**
+ * Parameter names for a method: ABI names where usable, unique, and clear of `options`
+ */
+const getParameterNames = (inputs: ABIParameter[]): string[] => {
+  const used = new Set(['options']);
+  return inputs.map((input, index) => {
+    let name = IDENTIFIER_REGEX.test(input.name) && !RESERVED_WORDS.has(input.name) ? input.name : `arg${index}`;
+    while (used.has(name)) name = `_${name}`;
+    used.add(name);
+    return name;
+  });
+};
+
+/**
+ * TypeScript type of an ABI parameter. Structs named in `internalType` are collected into `structs` and referenced
+ * by name; a second struct with the same name but a different shape is written inline.
+ */
+const getParameterType = (param: ABIParameter, structs: Map<string, string>): string => {
+  const arrayType = parseArrayType(param.type);
+  if (arrayType) {
+    const item = getParameterType(
+      { ...param, type: arrayType.baseType, internalType: param.internalType?.replace(/\[\d*\]$/, '') },
+      structs
+    );
+    return arrayType.length !== null && arrayType.length <= MAX_TUPLE_LENGTH
+      ? `readonly [${Array(arrayType.length).fill(item).join(', ')}]`
+      : `readonly ${item}[]`;
+  }
+
+  if (param.type === 'tuple') {
+    const components = param.components || [];
+    // Structs with named fields decode to objects, others to arrays
+    const body = components.length > 0 && components.every(component => component.name)
+      ? `{ ${components.map(component => `${toPropertyKey(component.name)}: ${getParameterType(component, structs)}`).join('; ')} }`
+      : `readonly [${components.map(component => getParameterType(component, structs)).join(', ')}]`;
+
+    const structName = param.internalType?.match(STRUCT_NAME_REGEX)?.[1];
+    if (structName && (!structs.has(structName) || structs.get(structName) === body)) {
+      structs.set(structName, body);
+      return structName;
+    }
+    return body;
+  }
+
+  const integerMatch = param.type.match(INTEGER_TYPE_REGEX);
+  if (integerMatch) {
+    return parseInt(integerMatch[1] || '256', 10) <= MAX_NUMBER_INTEGER_BITS ? 'number' : 'bigint';
+  }
+
+  if (param.type === 'address') return 'Address';
+  if (param.type === 'bool') return 'boolean';
+  if (param.type === 'string') return 'string';
+  if (param.type.startsWith('bytes') || param.type === 'function') return 'Hex';
+  return 'unknown';
+};
+
+/**
+ * Return type of a read method: void, the single output, or a tuple of all outputs
+ */
+const getReturnType = (func: ABIFunction, structs: Map<string, string>): string => {
+  const outputs = func.outputs || [];
+  if (outputs.length === 0) return 'void';
+  if (outputs.length === 1) return getParameterType(outputs[0], structs);
+  return `readonly [${outputs.map(output => getParameterType(output, structs)).join(', ')}]`;
+};
+
+/**
+ * Generates the client method for one function
+ */
+const generateMethod = (func: ABIFunction, methodName: string, structs: Map<string, string>): string => {
+  const mutability = getStateMutability(func);
+  const isReadOnly = mutability === 'view' || mutability === 'pure';
+  const names = getParameterNames(func.inputs);
+  const parameters = func.inputs.map((input, index) => `${names[index]}: ${getParameterType(input, structs)}`);
+  const request = `address, abi, functionName: ${JSON.stringify(func.name)}, args: [${names.join(', ')}]`;
+  const doc = `    /** Calls \`${getFunctionSignature(func)}\` (${mutability}) */`;
+
+  if (isReadOnly) {
+    const returnType = getReturnType(func, structs);
+    return `${doc}
+    ${methodName}: async (${parameters.join(', ')}): Promise<${returnType}> => {
+      return (await publicClient.readContract({ ${request} })) as ${returnType};
+    },`;
+  }
+
+  const options = mutability === 'payable' ? 'options: PayableOptions = {}' : 'options: WriteOptions = {}';
+  return `${doc}
+    ${methodName}: async (${[...parameters, options].join(', ')}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        ${request},
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },`;
+};
+
+/**
+ * Generates src/index.ts: the client factory, its struct types and the contract's deployment details
+ */
+export const generateClientModule = (contract: GeneratableContract, network: NetworkConfig): string => {
+  const contractName = getContractName(contract);
+  const typeName = toTypeName(contractName);
+  const functions: ABIFunction[] = JSON.parse(contract.abiJson).filter((item: any) => item.type === 'function');
+
+  const structs = new Map<string, string>();
+  const methods = functions.map(func => generateMethod(func, getToolName(func, functions), structs));
+  const structTypes = Array.from(structs.entries()).map(([name, body]) => `export type ${name} = ${body};`);
+
+  return `import type { Abi, Account, Address, Hash, Hex, PublicClient, WalletClient } from 'viem';
+import { CONTRACT_ABI } from './abi.js';
+
+export { CONTRACT_ABI };
+
+// Where the contract was imported from: ${network.name}
+export const CONTRACT_ADDRESS: Address = '${contract.address}';
+export const CHAIN_ID = ${network.chainId};
+${structTypes.length > 0 ? `\n${structTypes.join('\n')}\n` : ''}
+export interface WriteOptions {
+  // Sender, when the wallet client has no account of its own
+  account?: Account | Address;
+  gas?: bigint;
+  nonce?: number;
+}
+
+export interface PayableOptions extends WriteOptions {
+  // Wei sent with the call
+  value?: bigint;
+}
+
+export interface ${typeName}ClientConfig {
+  publicClient: PublicClient;
+  // Needed for state-changing functions
+  walletClient?: WalletClient;
+  // Defaults to CONTRACT_ADDRESS
+  address?: Address;
+}
+
+/**
+ * Typed client for ${contractName}. Read methods call the contract; write methods send a transaction and return its hash.
+ */
+export const create${typeName}Client = ({ publicClient, walletClient, address = CONTRACT_ADDRESS }: ${typeName}ClientConfig) => {
+  const abi = CONTRACT_ABI as Abi;
+
+  const getWalletClient = (): WalletClient => {
+    if (!walletClient) {
+      throw new Error('A walletClient is required for state-changing functions');
+    }
+    return walletClient;
+  };
+
+  return {
+    address,
+${methods.join('\n\n')}
+  };
+};
+
+export type ${typeName}Client = ReturnType<typeof create${typeName}Client>;
+`;
+};
+
+/**
+ * Generates a package.json for the client
+ */
+export const generateClientPackageJson = (contractName: string): string => {
+  return `{
+  "name": "${toPackageName(contractName)}-client",
+  "version": "1.0.0",
+  "description": "Typed viem client for ${contractName} smart contract",
+  "type": "module",
+  "main": "dist/index.js",
+  "types": "dist/index.d.ts",
+  "exports": {
+    ".": {
+      "types": "./dist/index.d.ts",
+      "import": "./dist/index.js"
+    }
+  },
+  "files": ["dist"],
+  "scripts": {
+    "build": "tsc",
+    "prepublishOnly": "npm run build"
+  },
+  "peerDependencies": {
+    "viem": "^2.21.0"
+  },
+  "devDependencies": {
+    "typescript": "^5.4.0",
+    "viem": "^2.21.0"
+  }
+}
+`;
+};
+
+/**
+ * Generates a tsconfig.json for the client
+ */
+export const generateClientTsConfig = (): string => {
+  return `{
+  "compilerOptions": {
+    "target": "es2022",
+    "module": "node16",
+    "moduleResolution": "node16",
+    "outDir": "./dist",
+    "declaration": true,
+    "strict": true,
+    "esModuleInterop": true,
+    "skipLibCheck": true,
+    "forceConsistentCasingInFileNames": true
+  },
+  "include": ["src/**/*"],
+  "exclude": ["node_modules"]
+}
+`;
+};
+
+/**
+ * Generates a README.md for the client
+ */
+export const generateClientReadme = (contractName: string, network: NetworkConfig): string => {
+  const typeName = toTypeName(contractName);
+
+  return `# ${contractName} Client
+
+A typed [viem](https://viem.sh) client for the ${contractName} smart contract on ${network.name} (chain ID ${network.chainId}), with one method per contract function.
+
+## Installation
+
+\`\`\`
+npm install
+npm run build
+\`\`\`
+
+## Usage
+
+\`\`\`ts
+import { createPublicClient, createWalletClient, custom, http } from 'viem';
+import { create${typeName}Client } from '${toPackageName(contractName)}-client';
+
+const publicClient = createPublicClient({ transport: http('${network.publicRpcUrls[0] || 'https://your-rpc-url'}') });
+const walletClient = createWalletClient({ transport: custom(window.ethereum) });
+
+const contract = create${typeName}Client({ publicClient, walletClient });
+\`\`\`
+
+Read methods return the decoded result: integers wider than 48 bits are \`bigint\`, addresses and bytes are \`0x\${string}\`, and structs with named fields are objects. Write methods send a transaction from the wallet client and return its hash; payable methods take the wei to send as \`options.value\`.
+
+Overloaded functions get a method per overload, named after their parameter types, e.g. \`safeTransferFrom_address_address_uint256\`.
+
+## License
+
+MIT
+`;
+};
+
+/**
+ * Generates a zip file structure for the client package
+ */
+export const generateClientFiles = (contract: GeneratableContract): Record<string, string> => {
+  const network = getNetwork(contract.network);
+  if (!network) {
+    throw new Error(`Unsupported network: ${contract.network}`);
+  }
+
+  const contractName = getContractName(contract);
+  return {
+    'src/abi.ts': generateAbiModule(contract),
+    'src/index.ts': generateClientModule(contract, network),
+    'package.json': generateClientPackageJson(contractName),
+    'tsconfig.json': generateClientTsConfig(),
+    'README.md': generateClientReadme(contractName, network),
+  };
+};
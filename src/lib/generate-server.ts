@@ -1,296 +1,270 @@
 /**
- * Utility to generate TypeScript server code from MCP schema
+ * Utility to generate a TypeScript MCP server bundle for a stored contract
  */
 
-interface MCPParameter {
-  name: string;
-  type: string;
-  description: string;
-  required?: boolean;
-  enum?: string[];
-  properties?: Record<string, MCPParameter>;
-  items?: {
-    type: string;
-    properties?: Record<string, MCPParameter>;
-  };
-}
+import { isEventTool, MCPTool, parseMCPSchema } from '@/lib/abi-to-mcp';
+import { getNetwork, NetworkConfig } from '@/lib/networks';
 
-interface MCPAction {
-  name: string;
-  description: string;
-  parameters: {
-    type: string;
-    properties: Record<string, MCPParameter>;
-    required: string[];
-  };
+// The subset of the SmartContract model the generator needs
+export interface GeneratableContract {
+  name: string | null;
+  address: string;
+  abiJson: string;
+  network: string;
+  mcpSchema: string | null;
 }
 
 /**
- * Generates TypeScript interface from MCP parameter
+ * Lowercase package-safe name for a contract
  */
-const generateTypeScriptInterface = (name: string, param: MCPParameter): string => {
-  if (param.type === 'object' && param.properties) {
-    const properties = Object.entries(param.properties).map(([propName, propSchema]) => {
-      const isRequired = propSchema.required ? '' : '?';
-      return `  ${propName}${isRequired}: ${getTypeScriptType(propSchema)};`;
-    }).join('\n');
-    
-    return `interface ${name} {\n${properties}\n}`;
-  }
-  
-  return '';
+export const toPackageName = (contractName: string): string => {
+  return contractName.toLowerCase().replace(/[^a-z0-9]/g, '-');
 };
 
+export const getContractName = (contract: GeneratableContract): string => contract.name || 'SmartContract';
+
 /**
- * Gets TypeScript type from MCP parameter
+ * Tools served by generated servers
+ * Event queries need the log scanner in src/lib/event-logs, which generated servers do not include.
+ * Output schemas are left out because the servers return results as text rather than structured content.
  */
-const getTypeScriptType = (param: MCPParameter): string => {
-  switch (param.type) {
-    case 'string':
-      return 'string';
-    case 'integer':
-    case 'number':
-      return 'number';
-    case 'boolean':
-      return 'boolean';
-    case 'array':
-      if (param.items) {
-        if (param.items.type === 'object' && param.items.properties) {
-          return `Array<{${Object.entries(param.items.properties).map(([propName, propSchema]) => {
-            const isRequired = propSchema.required ? '' : '?';
-            return `${propName}${isRequired}: ${getTypeScriptType(propSchema)}`;
-          }).join(', ')}}>`;
-        }
-        return `Array<${param.items.type === 'integer' ? 'number' : param.items.type}>`;
-      }
-      return 'any[]';
-    case 'object':
-      if (param.properties) {
-        return `{${Object.entries(param.properties).map(([propName, propSchema]) => {
-          const isRequired = propSchema.required ? '' : '?';
-          return `${propName}${isRequired}: ${getTypeScriptType(propSchema)}`;
-        }).join(', ')}}`;
-      }
-      return 'Record<string, any>';
-    default:
-      return 'any';
+export const getServerTools = (contract: GeneratableContract): Omit<MCPTool, 'outputSchema'>[] => {
+  if (!contract.mcpSchema) {
+    throw new Error('MCP schema not generated');
   }
+
+  return parseMCPSchema(contract.mcpSchema)
+    .filter(tool => !isEventTool(tool))
+    .map(({ outputSchema, ...tool }) => tool);
 };
 
 /**
- * Generates TypeScript server code from MCP schema
+ * Generates src/abi.ts, which holds the contract's ABI as a typed constant
  */
-export const generateTypeScriptServer = (mcpSchema: string, contractAddress: string, contractName: string): string => {
-  try {
-    const actions: MCPAction[] = JSON.parse(mcpSchema);
-    
-    // Generate interfaces
-    const interfaces: string[] = [];
-    const functionParams: Record<string, string> = {};
-    
-    actions.forEach(action => {
-      const interfaceName = `${action.name.charAt(0).toUpperCase() + action.name.slice(1)}Params`;
-      functionParams[action.name] = interfaceName;
-      
-      const properties = Object.entries(action.parameters.properties).map(([propName, propSchema]) => {
-        const isRequired = action.parameters.required.includes(propName) ? '' : '?';
-        return `  ${propName}${isRequired}: ${getTypeScriptType(propSchema)};`;
-      }).join('\n');
-      
-      interfaces.push(`interface ${interfaceName} {\n${properties}\n}`);
-    });
-    
-    // Generate server code
-    const serverCode = `import express from 'express';
-import cors from 'cors';
-import { ethers } from 'ethers';
-import { WebSocketServer } from 'ws';
-import http from 'http';
+export const generateAbiModule = (contract: GeneratableContract): string => {
+  const abi = JSON.parse(contract.abiJson);
 
-// Contract ABI interfaces
-${interfaces.join('\n\n')}
+  return `// ABI of ${getContractName(contract)} at ${contract.address}
+export const CONTRACT_ABI = ${JSON.stringify(abi, null, 2)} as const;
+`;
+};
 
-// Initialize Express app
-const app = express();
-const server = http.createServer(app);
-const wss = new WebSocketServer({ server });
+/**
+ * Generates src/server.ts: an MCP server built on the MCP TypeScript SDK that serves each contract function as a tool
+ */
+export const generateTypeScriptServer = (contract: GeneratableContract, network: NetworkConfig): string => {
+  const tools = getServerTools(contract);
+  const contractName = getContractName(contract);
 
-// Middleware
-app.use(cors());
-app.use(express.json());
+  return `import { ethers } from 'ethers';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, CallToolResult, ListToolsRequestSchema, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CONTRACT_ABI } from './abi.js';
 
 // Contract configuration
-const CONTRACT_ADDRESS = '${contractAddress}';
-const CONTRACT_ABI = /* ABI JSON goes here */;
-const CONTRACT_NAME = '${contractName || 'SmartContract'}';
+export const CONTRACT_ADDRESS = '${contract.address}';
+export const CONTRACT_NAME = ${JSON.stringify(contractName)};
 
-// Provider setup - replace with your preferred provider
-const provider = new ethers.providers.JsonRpcProvider(process.env.RPC_URL || 'https://mainnet.infura.io/v3/YOUR_INFURA_KEY');
+// Network: ${network.name}. Set RPC_URL to use your own provider.
+const CHAIN_ID = ${network.chainId};
+const RPC_URL = process.env.RPC_URL || '${network.publicRpcUrls[0] || ''}';
+const provider = new ethers.providers.StaticJsonRpcProvider(RPC_URL, CHAIN_ID);
 
 // Initialize contract instance
 const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
 
-// Connect with a signer for state-changing operations
-// const signer = new ethers.Wallet(process.env.PRIVATE_KEY || '', provider);
-// const contractWithSigner = contract.connect(signer);
+// State-changing functions are sent from this key. Without it they return an error.
+const signer = process.env.PRIVATE_KEY ? new ethers.Wallet(process.env.PRIVATE_KEY, provider) : null;
+
+// One tool per contract function; _meta.signature selects overloaded functions
+export const TOOLS: Tool[] = ${JSON.stringify(tools, null, 2)};
 
-// MCP Schema endpoint
-app.get('/mcp-schema', (req, res) => {
-  res.json(${mcpSchema});
+// Converts call results to JSON: numbers become decimal strings and structs become objects
+const toJson = (value: any): any => {
+  if (ethers.BigNumber.isBigNumber(value)) return value.toString();
+  if (Array.isArray(value)) {
+    const keys = Object.keys(value).filter(key => Number.isNaN(Number(key)));
+    return keys.length === value.length
+      ? Object.fromEntries(keys.map(key => [key, toJson((value as any)[key])]))
+      : value.map(toJson);
+  }
+  return value;
+};
+
+const textResult = (value: unknown, isError = false): CallToolResult => ({
+  content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value, null, 2) }],
+  isError,
 });
 
-// GPT Actions Schema endpoint
-app.get('/gpt-actions-schema', (req, res) => {
-  // Convert MCP schema to GPT Actions format
-  const mcpSchema = ${mcpSchema};
-  const gptActions = mcpSchema.map(action => ({
-    type: 'function',
-    function: {
-      name: action.name,
-      description: action.description,
-      parameters: action.parameters
+const callTool = async (name: string, args: Record<string, unknown>): Promise<CallToolResult> => {
+  const tool = TOOLS.find(item => item.name === name);
+  if (!tool) {
+    return textResult(\`Unknown tool: \${name}\`, true);
+  }
+
+  const parameters = (tool.inputSchema.required || []) as string[];
+  const missing = parameters.filter(param => args[param] === undefined);
+  if (missing.length > 0) {
+    return textResult(\`Missing required parameters: \${missing.join(', ')}\`, true);
+  }
+
+  const signature = (tool._meta?.signature as string) || name;
+  const values = parameters.map(param => args[param]);
+
+  try {
+    // The ABI decides between a call and a transaction; ethers reads legacy \`constant\` entries as view
+    const { stateMutability } = contract.interface.getFunction(signature);
+    if (stateMutability === 'view' || stateMutability === 'pure') {
+      const result = await contract[signature](...values);
+      return textResult(toJson(result));
     }
-  }));
-  
-  res.json(gptActions);
-});
 
-${actions.map(action => {
-  const interfaceName = functionParams[action.name];
-  const isStateChanging = !action.description.includes('does not modify blockchain state');
-  const functionBody = isStateChanging 
-    ? `  try {
-    // This function modifies state, so it requires a signer
-    // Uncomment and configure the signer above to enable this functionality
-    // const tx = await contractWithSigner.${action.name}(${action.parameters.required.map(param => `params.${param}`).join(', ')});
-    // const receipt = await tx.wait();
-    // return res.json({ success: true, txHash: receipt.transactionHash });
-    
-    // For now, return a message that state-changing operations are not enabled
-    return res.status(501).json({ 
-      error: 'State-changing operations are not enabled in this demo server',
-      message: 'To enable this functionality, configure a signer with a private key'
-    });
-  } catch (error) {
-    console.error(\`Error calling ${action.name}:\`, error);
-    return res.status(500).json({ error: \`Failed to call ${action.name}\` });
-  }`
-    : `  try {
-    const result = await contract.${action.name}(${action.parameters.required.map(param => `params.${param}`).join(', ')});
-    return res.json({ success: true, result });
-  } catch (error) {
-    console.error(\`Error calling ${action.name}:\`, error);
-    return res.status(500).json({ error: \`Failed to call ${action.name}\` });
-  }`;
-  
-  return `// ${action.description}
-app.post('/contract/${action.name}', async (req, res) => {
-  const params = req.body as ${interfaceName};
-  
-  // Validate required parameters
-  const requiredParams = ${JSON.stringify(action.parameters.required)};
-  const missingParams = requiredParams.filter(param => params[param] === undefined);
-  
-  if (missingParams.length > 0) {
-    return res.status(400).json({ 
-      error: 'Missing required parameters', 
-      missingParams 
+    if (!signer) {
+      return textResult(\`\${name} changes contract state; set PRIVATE_KEY to send transactions\`, true);
+    }
+
+    const tx = await contract.connect(signer)[signature](...values);
+    const receipt = await tx.wait();
+    return textResult({
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      status: receipt.status === 1 ? 'success' : 'reverted',
     });
+  } catch (error: any) {
+    console.error(\`Error calling \${name}:\`, error);
+    return textResult(\`Failed to call \${name}: \${error?.reason || error?.message || String(error)}\`, true);
   }
-  
-${functionBody}
-});`;
-}).join('\n\n')}
-
-// WebSocket handling for real-time updates
-wss.on('connection', (ws) => {
-  console.log('Client connected');
-  
-  // Send welcome message
-  ws.send(JSON.stringify({ 
-    type: 'info', 
-    message: \`Connected to ${contractName} MCP server\` 
-  }));
-  
-  // Handle incoming messages
-  ws.on('message', async (message) => {
+};
+
+export const createServer = (): Server => {
+  const server = new Server(
+    { name: ${JSON.stringify(`${toPackageName(contractName)}-mcp-server`)}, version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) =>
+    callTool(request.params.name, request.params.arguments || {})
+  );
+
+  return server;
+};
+`;
+};
+
+/**
+ * Generates src/index.ts, which serves MCP over stdio by default or over Streamable HTTP with `--http`
+ */
+export const generateEntryPoint = (): string => {
+  return `import http from 'node:http';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { CONTRACT_NAME, createServer } from './server.js';
+
+// Streamable HTTP in stateless mode: every request gets its own server and transport
+const startHttpServer = (port: number) => {
+  const httpServer = http.createServer(async (req, res) => {
+    if (req.url !== '/mcp') {
+      res.writeHead(404).end();
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' }).end();
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+
     try {
-      const { action, params } = JSON.parse(message.toString());
-      
-      // Find the corresponding action
-      const mcpAction = ${mcpSchema}.find(a => a.name === action);
-      
-      if (!mcpAction) {
-        ws.send(JSON.stringify({ 
-          type: 'error', 
-          message: \`Action \${action} not found\` 
-        }));
-        return;
-      }
-      
-      // Validate required parameters
-      const requiredParams = mcpAction.parameters.required;
-      const missingParams = requiredParams.filter(param => params[param] === undefined);
-      
-      if (missingParams.length > 0) {
-        ws.send(JSON.stringify({ 
-          type: 'error', 
-          message: 'Missing required parameters', 
-          missingParams 
-        }));
-        return;
-      }
-      
-      // Call the contract function
-      try {
-        const result = await contract[action](...requiredParams.map(param => params[param]));
-        ws.send(JSON.stringify({ 
-          type: 'result', 
-          action, 
-          result 
-        }));
-      } catch (error) {
-        ws.send(JSON.stringify({ 
-          type: 'error', 
-          message: \`Error calling \${action}\`, 
-          error: error.message 
-        }));
-      }
+      await server.connect(transport);
+      await transport.handleRequest(req, res);
     } catch (error) {
-      ws.send(JSON.stringify({ 
-        type: 'error', 
-        message: 'Invalid message format', 
-        error: error.message 
-      }));
+      console.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        res.writeHead(500).end();
+      }
     }
   });
-  
-  ws.on('close', () => {
-    console.log('Client disconnected');
+
+  httpServer.listen(port, () => {
+    console.error(\`MCP server for \${CONTRACT_NAME} listening on http://localhost:\${port}/mcp\`);
   });
-});
+};
+
+const main = async () => {
+  if (process.argv.includes('--http') || process.env.MCP_TRANSPORT === 'http') {
+    startHttpServer(Number(process.env.PORT) || 3000);
+    return;
+  }
 
-// Start the server
-const PORT = process.env.PORT || 3000;
-server.listen(PORT, () => {
-  console.log(\`MCP server for \${contractName} running on port \${PORT}\`);
-  console.log(\`REST API: http://localhost:\${PORT}/\`);
-  console.log(\`WebSocket: ws://localhost:\${PORT}\`);
+  // stdout carries the protocol, so logs go to stderr
+  await createServer().connect(new StdioServerTransport());
+  console.error(\`MCP server for \${CONTRACT_NAME} running on stdio\`);
+};
+
+main().catch((error) => {
+  console.error('Failed to start MCP server:', error);
+  process.exit(1);
 });
 `;
+};
 
-    return serverCode;
-  } catch (error) {
-    console.error('Error generating TypeScript server:', error);
-    throw new Error('Failed to generate TypeScript server');
+/**
+ * Generates src/server.test.ts, a smoke test that needs no RPC access: tools match the ABI and are served over MCP
+ */
+export const generateSmokeTest = (): string => {
+  return `import assert from 'node:assert/strict';
+import test from 'node:test';
+import { ethers } from 'ethers';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CONTRACT_ABI } from './abi.js';
+import { createServer, TOOLS } from './server.js';
+
+const connect = async () => {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const server = createServer();
+  const client = new Client({ name: 'smoke-test', version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return { client, server };
+};
+
+test('every tool resolves to a function of the ABI', () => {
+  const iface = new ethers.utils.Interface(CONTRACT_ABI);
+  for (const tool of TOOLS) {
+    assert.doesNotThrow(() => iface.getFunction((tool._meta?.signature as string) || tool.name), tool.name);
   }
+});
+
+test('lists the contract tools over MCP', async () => {
+  const { client, server } = await connect();
+  const { tools } = await client.listTools();
+  assert.deepEqual(tools.map(tool => tool.name), TOOLS.map(tool => tool.name));
+  await client.close();
+  await server.close();
+});
+
+test('returns an error result for unknown tools', async () => {
+  const { client, server } = await connect();
+  const result = await client.callTool({ name: 'notAContractFunction', arguments: {} });
+  assert.equal(result.isError, true);
+  await client.close();
+  await server.close();
+});
+`;
 };
 
 /**
- * Generates a Dockerfile for the TypeScript server
+ * Generates a Dockerfile for the TypeScript server. Containers serve MCP over HTTP.
  */
 export const generateDockerfile = (): string => {
-  return `FROM node:18-alpine
+  return `FROM node:20-alpine
 
 WORKDIR /app
 
@@ -304,7 +278,8 @@ COPY . .
 # Build TypeScript code
 RUN npm run build
 
-# Expose port
+# Serve Streamable HTTP instead of stdio
+ENV MCP_TRANSPORT=http
 EXPOSE 3000
 
 # Start the server
@@ -317,28 +292,26 @@ CMD ["npm", "start"]
  */
 export const generatePackageJson = (contractName: string): string => {
   return `{
-  "name": "${contractName.toLowerCase().replace(/[^a-z0-9]/g, '-')}-mcp-server",
+  "name": "${toPackageName(contractName)}-mcp-server",
   "version": "1.0.0",
-  "description": "MCP-compatible server for ${contractName} smart contract",
+  "description": "MCP server for ${contractName} smart contract",
+  "type": "module",
   "main": "dist/index.js",
   "scripts": {
     "build": "tsc",
     "start": "node dist/index.js",
-    "dev": "ts-node src/index.ts"
+    "start:http": "node dist/index.js --http",
+    "dev": "tsx src/index.ts",
+    "test": "node --test dist/server.test.js"
   },
   "dependencies": {
-    "cors": "^2.8.5",
-    "ethers": "^5.7.2",
-    "express": "^4.18.2",
-    "ws": "^8.13.0"
+    "@modelcontextprotocol/sdk": "^1.17.0",
+    "ethers": "^5.7.2"
   },
   "devDependencies": {
-    "@types/cors": "^2.8.13",
-    "@types/express": "^4.17.17",
-    "@types/node": "^18.15.11",
-    "@types/ws": "^8.5.4",
-    "ts-node": "^10.9.1",
-    "typescript": "^5.0.4"
+    "@types/node": "^20.11.0",
+    "tsx": "^4.7.0",
+    "typescript": "^5.4.0"
   }
 }
 `;
@@ -350,8 +323,9 @@ export const generatePackageJson = (contractName: string): string => {
 export const generateTsConfig = (): string => {
   return `{
   "compilerOptions": {
-    "target": "es2020",
-    "module": "commonjs",
+    "target": "es2022",
+    "module": "node16",
+    "moduleResolution": "node16",
     "outDir": "./dist",
     "strict": true,
     "esModuleInterop": true,
@@ -364,13 +338,35 @@ export const generateTsConfig = (): string => {
 `;
 };
 
+/**
+ * Generates the snippet that registers the server with an MCP host over stdio, e.g. in claude_desktop_config.json
+ */
+export const generateMcpConfig = (contractName: string, network: NetworkConfig): string => {
+  const packageName = toPackageName(contractName);
+  const config = {
+    mcpServers: {
+      [packageName]: {
+        command: 'node',
+        args: [`/absolute/path/to/${packageName}-mcp-server/dist/index.js`],
+        env: {
+          RPC_URL: network.publicRpcUrls[0] || 'https://your-rpc-url',
+        },
+      },
+    },
+  };
+
+  return `${JSON.stringify(config, null, 2)}\n`;
+};
+
 /**
  * Generates a README.md for the TypeScript server
  */
-export const generateReadme = (contractName: string): string => {
+export const generateReadme = (contractName: string, network: NetworkConfig): string => {
+  const packageName = toPackageName(contractName);
+
   return `# ${contractName} MCP Server
 
-This is a Model Context Protocol (MCP) compatible server for the ${contractName} smart contract. It provides both REST API and WebSocket interfaces for interacting with the contract.
+A [Model Context Protocol](https://modelcontextprotocol.io) server for the ${contractName} smart contract on ${network.name} (chain ID ${network.chainId}), built on the official MCP TypeScript SDK. Each contract function is exposed as a tool, over stdio or Streamable HTTP.
 
 ## Getting Started
 
@@ -381,54 +377,48 @@ This is a Model Context Protocol (MCP) compatible server for the ${contractName}
 
 ### Installation
 
-1. Install dependencies:
+1. Install dependencies, build and run the smoke test:
    \`\`\`
    npm install
+   npm run build
+   npm test
    \`\`\`
 
 2. Configure environment variables:
-   Create a \`.env\` file with the following variables:
    \`\`\`
-   RPC_URL=https://mainnet.infura.io/v3/YOUR_INFURA_KEY
+   RPC_URL=${network.publicRpcUrls[0] || 'https://your-rpc-url'}
    PRIVATE_KEY=your_private_key_for_state_changing_operations
    PORT=3000
    \`\`\`
 
-3. Start the server:
-   \`\`\`
-   npm start
-   \`\`\`
-
-## API Endpoints
+   Read-only functions work without \`PRIVATE_KEY\`. With it, state-changing functions send a transaction from that key and wait for the receipt.
 
-- GET \`/mcp-schema\`: Returns the MCP schema for the contract
-- GET \`/gpt-actions-schema\`: Returns the OpenAI GPT Actions schema for the contract
-- POST \`/contract/{functionName}\`: Call a contract function
+## Registering with an MCP host
 
-## WebSocket Interface
+### stdio (Claude Desktop and most IDEs)
 
-Connect to \`ws://localhost:3000\` and send JSON messages in the format:
+Add the entry from \`mcp-config.json\` to your host's configuration, e.g. \`claude_desktop_config.json\`, replacing the path with the absolute path of this folder:
 
 \`\`\`json
-{
-  "action": "functionName",
-  "params": {
-    "param1": "value1",
-    "param2": "value2"
-  }
-}
+${generateMcpConfig(contractName, network).trim()}
 \`\`\`
 
+### Streamable HTTP
+
+Start the server with \`npm run start:http\` (or set \`MCP_TRANSPORT=http\`) and register the endpoint \`http://localhost:3000/mcp\` with your host.
+
 ## Docker Deployment
 
+The image serves Streamable HTTP on port 3000.
+
 1. Build the Docker image:
    \`\`\`
-   docker build -t ${contractName.toLowerCase().replace(/[^a-z0-9]/g, '-')}-mcp-server .
+   docker build -t ${packageName}-mcp-server .
    \`\`\`
 
 2. Run the container:
    \`\`\`
-   docker run -p 3000:3000 -e RPC_URL=your_rpc_url -e PRIVATE_KEY=your_private_key ${contractName.toLowerCase().replace(/[^a-z0-9]/g, '-')}-mcp-server
+   docker run -p 3000:3000 -e RPC_URL=your_rpc_url -e PRIVATE_KEY=your_private_key ${packageName}-mcp-server
    \`\`\`
 
 ## License
@@ -440,12 +430,22 @@ MIT
 /**
  * Generates a zip file structure for the TypeScript server
  */
-export const generateServerFiles = (mcpSchema: string, contractAddress: string, contractName: string): Record<string, string> => {
+export const generateServerFiles = (contract: GeneratableContract): Record<string, string> => {
+  const network = getNetwork(contract.network);
+  if (!network) {
+    throw new Error(`Unsupported network: ${contract.network}`);
+  }
+
+  const contractName = getContractName(contract);
   return {
-    'src/index.ts': generateTypeScriptServer(mcpSchema, contractAddress, contractName),
+    'src/abi.ts': generateAbiModule(contract),
+    'src/server.ts': generateTypeScriptServer(contract, network),
+    'src/index.ts': generateEntryPoint(),
+    'src/server.test.ts': generateSmokeTest(),
     'Dockerfile': generateDockerfile(),
     'package.json': generatePackageJson(contractName),
     'tsconfig.json': generateTsConfig(),
-    'README.md': generateReadme(contractName),
+    'mcp-config.json': generateMcpConfig(contractName, network),
+    'README.md': generateReadme(contractName, network),
   };
-};
\ No newline at end of file
+};
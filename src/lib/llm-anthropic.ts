@@ -0,0 +1,181 @@
+/**
+ * Anthropic provider, speaking the Messages API directly
+ * OpenAI-format messages and tools are converted on the way in, and the streamed response is assembled
+ * back into an OpenAI-format assistant message.
+ */
+
+import type { AssistantMessage, ChatMessage, ChatRequest, ChatToolCall, LLMProvider } from '@/lib/llm-provider';
+import { readEventStream } from '@/lib/sse';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+const MAX_TOKENS = 4096;
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, any> }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicBlock[];
+}
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  baseUrl?: string;
+}
+
+/**
+ * Flattens OpenAI message content, which may be a list of parts, to text
+ */
+const getText = (content: ChatMessage['content']): string => {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content.map(part => ('text' in part ? part.text : '')).join('');
+};
+
+const parseArguments = (value: string): Record<string, any> => {
+  try {
+    return JSON.parse(value || '{}');
+  } catch (error) {
+    return {};
+  }
+};
+
+/**
+ * Converts a chat request to a Messages API request body
+ * System messages become the `system` prompt, tool results become `user` turns, and consecutive turns
+ * from the same role are merged since the API requires roles to alternate.
+ */
+const toAnthropicRequest = ({ model, messages, tools, toolChoice }: ChatRequest) => {
+  const system: string[] = [];
+  const converted: AnthropicMessage[] = [];
+
+  const append = (role: AnthropicMessage['role'], blocks: AnthropicBlock[]) => {
+    if (blocks.length === 0) return;
+    const last = converted[converted.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  };
+
+  // The API rejects empty text blocks
+  const textBlocks = (text: string): AnthropicBlock[] => (text ? [{ type: 'text', text }] : []);
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        system.push(getText(message.content));
+        break;
+      case 'user':
+        append('user', textBlocks(getText(message.content)));
+        break;
+      case 'assistant':
+        append('assistant', [
+          ...textBlocks(typeof message.content === 'string' ? message.content : ''),
+          ...(message.tool_calls || []).map((toolCall): AnthropicBlock => ({
+            type: 'tool_use',
+            id: toolCall.id,
+            name: toolCall.function.name,
+            input: parseArguments(toolCall.function.arguments),
+          })),
+        ]);
+        break;
+      case 'tool':
+        append('user', [{ type: 'tool_result', tool_use_id: message.tool_call_id, content: getText(message.content) }]);
+        break;
+    }
+  }
+
+  const hasTools = tools !== undefined && tools.length > 0;
+  return {
+    model,
+    max_tokens: MAX_TOKENS,
+    ...(system.length > 0 ? { system: system.join('\n\n') } : {}),
+    messages: converted,
+    ...(hasTools
+      ? {
+          tools: tools.map(tool => ({
+            name: tool.function.name,
+            description: tool.function.description,
+            input_schema: tool.function.parameters || { type: 'object', properties: {} },
+          })),
+          tool_choice: { type: toolChoice === 'none' ? 'none' : 'auto' },
+        }
+      : {}),
+    stream: true,
+  };
+};
+
+/**
+ * Creates an Anthropic provider. Anthropic has no speech-to-text API, so `transcribe` is not provided.
+ */
+export const createAnthropicProvider = ({ apiKey, baseUrl = ANTHROPIC_API_URL }: AnthropicProviderOptions): LLMProvider => ({
+  id: 'anthropic',
+
+  streamChat: async (request, onText): Promise<AssistantMessage> => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify(toAnthropicRequest(request)),
+    });
+
+    if (!response.ok || !response.body) {
+      const details = await response.text().catch(() => '');
+      throw new Error(`Anthropic API error ${response.status}: ${details || response.statusText}`);
+    }
+
+    let content = '';
+    const toolCalls: ChatToolCall[] = [];
+    // Tool input arrives as JSON fragments for the content block at the event's index
+    const toolCallsByIndex: Record<number, ChatToolCall> = {};
+
+    await readEventStream(response.body, ({ data }) => {
+      const event = JSON.parse(data);
+      switch (event.type) {
+        case 'content_block_start':
+          if (event.content_block.type === 'tool_use') {
+            const toolCall: ChatToolCall = {
+              id: event.content_block.id,
+              type: 'function',
+              function: { name: event.content_block.name, arguments: '' },
+            };
+            toolCallsByIndex[event.index] = toolCall;
+            toolCalls.push(toolCall);
+          }
+          break;
+        case 'content_block_delta':
+          if (event.delta.type === 'text_delta') {
+            content += event.delta.text;
+            onText(event.delta.text);
+          } else if (event.delta.type === 'input_json_delta' && toolCallsByIndex[event.index]) {
+            toolCallsByIndex[event.index].function.arguments += event.delta.partial_json;
+          }
+          break;
+        case 'error':
+          throw new Error(`Anthropic API error: ${event.error?.message || data}`);
+      }
+    });
+
+    return {
+      role: 'assistant',
+      content: content || null,
+      ...(toolCalls.length > 0
+        ? {
+            tool_calls: toolCalls.map(toolCall => ({
+              ...toolCall,
+              function: { ...toolCall.function, arguments: toolCall.function.arguments || '{}' },
+            })),
+          }
+        : {}),
+    };
+  },
+});
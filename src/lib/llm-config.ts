@@ -0,0 +1,126 @@
+/**
+ * Registry of LLM providers and resolution of the chat and transcription models a project uses
+ * Safe to import from the browser: it only describes providers; clients are created in llm-provider.ts.
+ */
+
+export type LLMProviderId = 'openai' | 'azure-openai' | 'anthropic' | 'openai-compatible' | 'fake';
+
+export interface LLMProviderInfo {
+  id: LLMProviderId;
+  name: string;
+  defaultChatModel: string;
+  // Omitted for providers without a speech-to-text API
+  defaultTranscriptionModel?: string;
+  // Suggestions shown in the model settings; any model name the provider accepts can be entered
+  chatModels: string[];
+  // Environment variables the provider needs on the server
+  envVars: string[];
+  // Hidden from project settings; the fake provider is only enabled through LLM_PROVIDER for tests
+  selectable: boolean;
+}
+
+// Project columns that select the models, all optional
+export interface ProjectModelSettings {
+  llmProvider?: string | null;
+  chatModel?: string | null;
+  transcriptionModel?: string | null;
+}
+
+export interface ResolvedModelSettings {
+  provider: LLMProviderId;
+  chatModel: string;
+  transcriptionProvider: LLMProviderId;
+  transcriptionModel: string;
+}
+
+export const DEFAULT_LLM_PROVIDER: LLMProviderId = 'openai';
+
+export const LLM_PROVIDERS: LLMProviderInfo[] = [
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    defaultChatModel: 'gpt-4o',
+    defaultTranscriptionModel: 'whisper-1',
+    chatModels: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'],
+    envVars: ['OPENAI_API_KEY'],
+    selectable: true,
+  },
+  {
+    id: 'azure-openai',
+    name: 'Azure OpenAI',
+    // Azure addresses models by deployment name
+    defaultChatModel: 'gpt-4o',
+    defaultTranscriptionModel: 'whisper',
+    chatModels: ['gpt-4o', 'gpt-4o-mini'],
+    envVars: ['AZURE_OPENAI_API_KEY', 'AZURE_OPENAI_ENDPOINT', 'AZURE_OPENAI_API_VERSION'],
+    selectable: true,
+  },
+  {
+    id: 'anthropic',
+    name: 'Anthropic',
+    defaultChatModel: 'claude-sonnet-4-5',
+    chatModels: ['claude-sonnet-4-5', 'claude-opus-4-1', 'claude-3-5-haiku-latest'],
+    envVars: ['ANTHROPIC_API_KEY'],
+    selectable: true,
+  },
+  {
+    id: 'openai-compatible',
+    name: 'OpenAI-compatible server (Ollama, vLLM)',
+    defaultChatModel: 'llama3.1',
+    defaultTranscriptionModel: 'whisper-1',
+    chatModels: ['llama3.1', 'qwen2.5', 'mistral-nemo'],
+    envVars: ['OPENAI_COMPATIBLE_BASE_URL'],
+    selectable: true,
+  },
+  {
+    id: 'fake',
+    name: 'Fake (deterministic, for tests)',
+    defaultChatModel: 'fake-chat',
+    defaultTranscriptionModel: 'fake-transcription',
+    chatModels: ['fake-chat'],
+    envVars: [],
+    selectable: false,
+  },
+];
+
+/**
+ * Looks up a provider by id
+ */
+export const getLLMProviderInfo = (id: string | null | undefined): LLMProviderInfo | undefined => {
+  return LLM_PROVIDERS.find(provider => provider.id === id);
+};
+
+/**
+ * Providers a project can be configured to use
+ */
+export const getSelectableLLMProviders = (): LLMProviderInfo[] => {
+  return LLM_PROVIDERS.filter(provider => provider.selectable);
+};
+
+/**
+ * Resolves the models for a project: project settings first, then the LLM_PROVIDER, CHAT_MODEL and
+ * TRANSCRIPTION_MODEL environment variables, then the provider's defaults.
+ * Providers without speech-to-text transcribe with TRANSCRIPTION_PROVIDER, or OpenAI.
+ */
+export const resolveModelSettings = (project?: ProjectModelSettings | null): ResolvedModelSettings => {
+  const envProvider = getLLMProviderInfo(process.env.LLM_PROVIDER)?.id || DEFAULT_LLM_PROVIDER;
+  const provider = getLLMProviderInfo(project?.llmProvider)?.id || envProvider;
+  const providerInfo = getLLMProviderInfo(provider)!;
+
+  // Environment model names only apply to the provider they were configured for
+  const chatModel =
+    project?.chatModel ||
+    (provider === envProvider ? process.env.CHAT_MODEL : undefined) ||
+    providerInfo.defaultChatModel;
+
+  const fallbackInfo = getLLMProviderInfo(process.env.TRANSCRIPTION_PROVIDER);
+  const transcriptionProvider = providerInfo.defaultTranscriptionModel
+    ? provider
+    : fallbackInfo?.defaultTranscriptionModel ? fallbackInfo.id : DEFAULT_LLM_PROVIDER;
+  const transcriptionModel =
+    (transcriptionProvider === provider ? project?.transcriptionModel : undefined) ||
+    (transcriptionProvider === envProvider ? process.env.TRANSCRIPTION_MODEL : undefined) ||
+    getLLMProviderInfo(transcriptionProvider)!.defaultTranscriptionModel!;
+
+  return { provider, chatModel, transcriptionProvider, transcriptionModel };
+};
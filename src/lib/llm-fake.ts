@@ -0,0 +1,78 @@
+/**
+ * Deterministic fake provider for tests and local development without API keys
+ * Enabled with LLM_PROVIDER=fake. Its behaviour depends only on the conversation:
+ * - a user message `call <tool> {"arg": "value"}` produces a call to that tool, when it is offered
+ * - after tool results, it replies with the results, one per line
+ * - anything else is echoed back
+ */
+
+import type { AssistantMessage, ChatMessage, LLMProvider } from '@/lib/llm-provider';
+
+export const FAKE_TRANSCRIPTION = 'This is a fake transcription.';
+
+const CALL_PATTERN = /^call\s+([A-Za-z0-9_-]+)\s*(\{[\s\S]*\})?\s*$/;
+
+const getText = (content: ChatMessage['content']): string => {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content.map(part => ('text' in part ? part.text : '')).join('');
+};
+
+/**
+ * Works out the assistant's reply to a conversation
+ */
+const getFakeReply = (
+  messages: ChatMessage[],
+  toolNames: string[]
+): { content: string | null; toolCall?: { name: string; arguments: string } } => {
+  const last = messages[messages.length - 1];
+  if (!last) {
+    return { content: 'Echo: ' };
+  }
+
+  if (last.role === 'tool') {
+    const results: string[] = [];
+    for (let index = messages.length - 1; index >= 0 && messages[index].role === 'tool'; index--) {
+      results.unshift(getText(messages[index].content));
+    }
+    return { content: `Tool results:\n${results.join('\n')}` };
+  }
+
+  const text = getText(last.content).trim();
+  const match = text.match(CALL_PATTERN);
+  if (match && toolNames.includes(match[1])) {
+    return { content: null, toolCall: { name: match[1], arguments: match[2] || '{}' } };
+  }
+
+  return { content: `Echo: ${text}` };
+};
+
+export const createFakeProvider = (): LLMProvider => ({
+  id: 'fake',
+
+  streamChat: async ({ messages, tools, toolChoice }, onText): Promise<AssistantMessage> => {
+    const toolNames = toolChoice === 'none' ? [] : (tools || []).map(tool => tool.function.name);
+    const { content, toolCall } = getFakeReply(messages, toolNames);
+
+    // Stream word by word so clients exercise incremental rendering
+    if (content) {
+      for (const word of content.match(/\S+\s*|\s+/g) || []) {
+        onText(word);
+      }
+    }
+
+    if (toolCall) {
+      // Ids are numbered by position so repeated runs produce the same transcript
+      const id = `call_fake_${messages.filter(message => message.role === 'assistant').length + 1}`;
+      return {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id, type: 'function', function: toolCall }],
+      };
+    }
+
+    return { role: 'assistant', content };
+  },
+
+  transcribe: async () => FAKE_TRANSCRIPTION,
+});
@@ -0,0 +1,161 @@
+/**
+ * Server-side LLM providers for chat and transcription
+ * Messages and tools use the OpenAI chat format throughout; providers with a different wire format
+ * (Anthropic) convert at their boundary, so the agent loop does not depend on the provider.
+ */
+
+import OpenAI, { AzureOpenAI } from 'openai';
+import { createReadStream } from 'fs';
+import { getLLMProviderInfo, LLMProviderId } from '@/lib/llm-config';
+import { createAnthropicProvider } from '@/lib/llm-anthropic';
+import { createFakeProvider } from '@/lib/llm-fake';
+
+export type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+export type ChatTool = OpenAI.Chat.Completions.ChatCompletionTool;
+export type ChatToolCall = OpenAI.Chat.Completions.ChatCompletionMessageToolCall;
+export type AssistantMessage = OpenAI.Chat.Completions.ChatCompletionAssistantMessageParam;
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  tools?: ChatTool[];
+  // `none` keeps the tools visible, since earlier messages may reference them, but forbids new calls
+  toolChoice?: 'auto' | 'none';
+}
+
+export interface TranscriptionRequest {
+  filePath: string;
+  model: string;
+  language?: string;
+  prompt?: string;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  // Streams a response, reporting text as it arrives, and resolves with the complete assistant message
+  streamChat: (request: ChatRequest, onText: (delta: string) => void) => Promise<AssistantMessage>;
+  // Absent when the provider has no speech-to-text API
+  transcribe?: (request: TranscriptionRequest) => Promise<string>;
+}
+
+/**
+ * A provider for any API that speaks the OpenAI protocol
+ */
+const createOpenAIProvider = (id: LLMProviderId, client: OpenAI): LLMProvider => ({
+  id,
+
+  streamChat: async ({ model, messages, tools, toolChoice }, onText) => {
+    const hasTools = tools !== undefined && tools.length > 0;
+    const stream = await client.chat.completions.create({
+      model,
+      messages,
+      tools: hasTools ? tools : undefined,
+      tool_choice: hasTools ? toolChoice || 'auto' : undefined,
+      stream: true,
+    });
+
+    let content = '';
+    const toolCalls: ChatToolCall[] = [];
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        onText(delta.content);
+      }
+
+      // Tool calls arrive in fragments keyed by their index in the message
+      for (const fragment of delta.tool_calls || []) {
+        if (!toolCalls[fragment.index]) {
+          toolCalls[fragment.index] = { id: '', type: 'function', function: { name: '', arguments: '' } };
+        }
+        const toolCall = toolCalls[fragment.index];
+        if (fragment.id) toolCall.id = fragment.id;
+        if (fragment.function?.name) toolCall.function.name += fragment.function.name;
+        if (fragment.function?.arguments) toolCall.function.arguments += fragment.function.arguments;
+      }
+    }
+
+    return {
+      role: 'assistant',
+      content: content || null,
+      ...(toolCalls.length > 0 ? { tool_calls: toolCalls.filter(Boolean) } : {}),
+    };
+  },
+
+  transcribe: async ({ filePath, model, language, prompt }) => {
+    const transcription = await client.audio.transcriptions.create({
+      file: createReadStream(filePath),
+      model,
+      response_format: 'json',
+      temperature: 0.0, // Lowest temperature for most accurate transcriptions
+      language,
+      prompt,
+    });
+    return transcription.text;
+  },
+});
+
+/**
+ * Reads a required environment variable for a provider
+ */
+const requireEnv = (provider: LLMProviderId, name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${getLLMProviderInfo(provider)?.name || provider} is not configured. Set ${name}.`);
+  }
+  return value;
+};
+
+const providers = new Map<LLMProviderId, LLMProvider>();
+
+/**
+ * Returns the provider for an id, creating its client on first use
+ * Throws when the provider is unknown or its environment variables are missing.
+ */
+export const getLLMProvider = (id: LLMProviderId): LLMProvider => {
+  const cached = providers.get(id);
+  if (cached) return cached;
+
+  let provider: LLMProvider;
+  switch (id) {
+    case 'openai':
+      provider = createOpenAIProvider(id, new OpenAI({ apiKey: requireEnv(id, 'OPENAI_API_KEY') }));
+      break;
+    case 'azure-openai':
+      provider = createOpenAIProvider(
+        id,
+        new AzureOpenAI({
+          apiKey: requireEnv(id, 'AZURE_OPENAI_API_KEY'),
+          endpoint: requireEnv(id, 'AZURE_OPENAI_ENDPOINT'),
+          apiVersion: requireEnv(id, 'AZURE_OPENAI_API_VERSION'),
+        })
+      );
+      break;
+    case 'openai-compatible':
+      // Local servers usually ignore the key, but the SDK requires one
+      provider = createOpenAIProvider(
+        id,
+        new OpenAI({
+          baseURL: requireEnv(id, 'OPENAI_COMPATIBLE_BASE_URL'),
+          apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+        })
+      );
+      break;
+    case 'anthropic':
+      provider = createAnthropicProvider({
+        apiKey: requireEnv(id, 'ANTHROPIC_API_KEY'),
+        baseUrl: process.env.ANTHROPIC_BASE_URL,
+      });
+      break;
+    case 'fake':
+      provider = createFakeProvider();
+      break;
+    default:
+      throw new Error(`Unsupported LLM provider: ${id}`);
+  }
+
+  providers.set(id, provider);
+  return provider;
+};
@@ -0,0 +1,166 @@
+/**
+ * Minimal Model Context Protocol server for hosted contract endpoints
+ * Implements the JSON-RPC lifecycle and tools capability from the MCP specification:
+ * https://modelcontextprotocol.io/specification/2025-03-26/basic/transports#streamable-http
+ */
+
+import { MCPTool, parseMCPSchema } from '@/lib/abi-to-mcp';
+import { executeContractAction, ExecutableContract } from '@/lib/contract-executor';
+import { getNetwork } from '@/lib/networks';
+
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+// Tool `outputSchema` and `structuredContent` were added in 2025-06-18; older clients ignore them
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+// Standard JSON-RPC 2.0 error codes
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+};
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: any;
+  error?: {
+    code: number;
+    message: string;
+    data?: any;
+  };
+}
+
+export interface MCPToolResult {
+  content: { type: 'text'; text: string }[];
+  structuredContent?: Record<string, any>;
+  isError?: boolean;
+}
+
+// The subset of the SmartContract model the MCP server needs
+export interface MCPContract extends ExecutableContract {
+  id: string;
+  name: string | null;
+}
+
+const textResult = (text: string, isError = false): MCPToolResult => ({
+  content: [{ type: 'text', text }],
+  ...(isError ? { isError: true } : {}),
+});
+
+/**
+ * Executes a tool call through the shared contract executor. A hosted endpoint never holds a
+ * signer, so state-changing tools are refused.
+ */
+const callTool = async (
+  contract: MCPContract,
+  tools: MCPTool[],
+  toolName: string,
+  args: Record<string, any>
+): Promise<MCPToolResult> => {
+  const tool = tools.find(item => item.name === toolName);
+  if (!tool) {
+    throw Object.assign(new Error(`Unknown tool: ${toolName}`), { code: JSON_RPC_ERRORS.INVALID_PARAMS });
+  }
+
+  const execution = await executeContractAction(contract, { action: toolName, params: args, readOnly: true });
+
+  if (!execution.success) {
+    if (execution.code === 'MISSING_PARAMS') {
+      return textResult(`Missing required parameters: ${execution.missingParams!.join(', ')}`, true);
+    }
+    if (execution.revert) {
+      return textResult(`Contract function "${toolName}" reverted. ${execution.revert.message}`, true);
+    }
+    console.error(`[mcp] Error calling contract function ${toolName}:`, execution.details || execution.error);
+    return textResult(execution.details ? `${execution.error}: ${execution.details}` : execution.error, true);
+  }
+
+  const decoded = execution.kind === 'call' ? execution.result : execution.simulatedResult;
+  return {
+    ...textResult(JSON.stringify(decoded, null, 2)),
+    ...(tool.outputSchema ? { structuredContent: decoded } : {}),
+  };
+};
+
+const rpcResult = (id: JsonRpcRequest['id'], result: any): JsonRpcResponse => ({
+  jsonrpc: '2.0',
+  id: id ?? null,
+  result,
+});
+
+const rpcError = (id: JsonRpcRequest['id'], code: number, message: string): JsonRpcResponse => ({
+  jsonrpc: '2.0',
+  id: id ?? null,
+  error: { code, message },
+});
+
+/**
+ * Handles a single JSON-RPC message. Returns null for notifications, which get no response.
+ */
+export const handleMCPMessage = async (
+  contract: MCPContract,
+  message: JsonRpcRequest
+): Promise<JsonRpcResponse | null> => {
+  if (!message || message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+    return rpcError(message?.id, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid JSON-RPC request');
+  }
+
+  // Notifications such as notifications/initialized never get a response
+  if (message.id === undefined) {
+    return null;
+  }
+
+  try {
+    // A stored schema that cannot be parsed is reported as an internal error
+    const tools = contract.mcpSchema ? parseMCPSchema(contract.mcpSchema) : [];
+
+    switch (message.method) {
+      case 'initialize': {
+        const requestedVersion = message.params?.protocolVersion;
+        return rpcResult(message.id, {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requestedVersion) ? requestedVersion : MCP_PROTOCOL_VERSION,
+          capabilities: {
+            tools: { listChanged: false },
+          },
+          serverInfo: {
+            name: `${contract.name || 'SmartContract'} MCP Server`,
+            version: '1.0.0',
+          },
+          instructions: `Tools for the smart contract ${contract.address} on ${getNetwork(contract.network)?.name || contract.network}. ` +
+            'Read-only functions are executed directly; state-changing functions must be signed by the user.',
+        });
+      }
+
+      case 'ping':
+        return rpcResult(message.id, {});
+
+      case 'tools/list':
+        return rpcResult(message.id, { tools });
+
+      case 'tools/call': {
+        const { name, arguments: args } = message.params || {};
+        if (!name || typeof name !== 'string') {
+          return rpcError(message.id, JSON_RPC_ERRORS.INVALID_PARAMS, 'Tool name is required');
+        }
+        return rpcResult(message.id, await callTool(contract, tools, name, args || {}));
+      }
+
+      default:
+        return rpcError(message.id, JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+    }
+  } catch (error: any) {
+    console.error(`[mcp] Error handling ${message.method}:`, error);
+    const code = typeof error?.code === 'number' ? error.code : JSON_RPC_ERRORS.INTERNAL_ERROR;
+    return rpcError(message.id, code, error?.message || 'Internal error');
+  }
+};
@@ -0,0 +1,307 @@
+/**
+ * Registry of the EVM networks contracts can be imported from and executed on
+ * The `id` is what gets stored in `SmartContract.network`. RPC URLs are read from the environment
+ * variable named by `rpcEnvVar` (comma-separated for several) before falling back to public endpoints.
+ */
+
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface NetworkConfig {
+  id: string;
+  chainId: number;
+  name: string;
+  testnet: boolean;
+  // Retired networks still resolve for existing contracts but are hidden from network selects
+  deprecated?: boolean;
+  // Development nodes, offered only when NEXT_PUBLIC_ENABLE_LOCAL_NETWORK is `true` and used by the server
+  // only when ENABLE_LOCAL_NETWORK is `true`
+  local?: boolean;
+  // Other values stored for this network by earlier versions, e.g. `mainnet`
+  aliases?: string[];
+  rpcEnvVar: string;
+  publicRpcUrls: string[];
+  nativeCurrency: NativeCurrency;
+  explorerUrl: string;
+  // Etherscan-compatible API used to import verified ABIs
+  explorerApiUrl?: string;
+}
+
+export const DEFAULT_NETWORK = 'ethereum';
+
+// Etherscan's V2 API serves every chain it indexes from one endpoint, selected by `chainid`
+const ETHERSCAN_V2_API_URL = 'https://api.etherscan.io/v2/api';
+
+const ETH: NativeCurrency = { name: 'Ether', symbol: 'ETH', decimals: 18 };
+
+export const NETWORKS: NetworkConfig[] = [
+  {
+    id: 'ethereum',
+    chainId: 1,
+    name: 'Ethereum Mainnet',
+    testnet: false,
+    aliases: ['mainnet'],
+    rpcEnvVar: 'MAINNET_RPC_URL',
+    publicRpcUrls: ['https://ethereum-rpc.publicnode.com'],
+    nativeCurrency: ETH,
+    explorerUrl: 'https://etherscan.io',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+  },
+  {
+    id: 'sepolia',
+    chainId: 11155111,
+    name: 'Sepolia Testnet',
+    testnet: true,
+    rpcEnvVar: 'SEPOLIA_RPC_URL',
+    publicRpcUrls: ['https://ethereum-sepolia-rpc.publicnode.com'],
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+    explorerUrl: 'https://sepolia.etherscan.io',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+  },
+  {
+    id: 'holesky',
+    chainId: 17000,
+    name: 'Holesky Testnet',
+    testnet: true,
+    rpcEnvVar: 'HOLESKY_RPC_URL',
+    publicRpcUrls: ['https://ethereum-holesky-rpc.publicnode.com'],
+    nativeCurrency: { name: 'Holesky Ether', symbol: 'ETH', decimals: 18 },
+    explorerUrl: 'https://holesky.etherscan.io',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+  },
+  {
+    id: 'goerli',
+    chainId: 5,
+    name: 'Goerli Testnet',
+    testnet: true,
+    deprecated: true,
+    rpcEnvVar: 'GOERLI_RPC_URL',
+    publicRpcUrls: [],
+    nativeCurrency: { name: 'Goerli Ether', symbol: 'ETH', decimals: 18 },
+    explorerUrl: 'https://goerli.etherscan.io',
+  },
+  {
+    id: 'base',
+    chainId: 8453,
+    name: 'Base',
+    testnet: false,
+    rpcEnvVar: 'BASE_RPC_URL',
+    publicRpcUrls: ['https://mainnet.base.org'],
+    nativeCurrency: ETH,
+    explorerUrl: 'https://basescan.org',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+  },
+  {
+    id: 'base-sepolia',
+    chainId: 84532,
+    name: 'Base Sepolia Testnet',
+    testnet: true,
+    rpcEnvVar: 'BASE_SEPOLIA_RPC_URL',
+    publicRpcUrls: ['https://sepolia.base.org'],
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+    explorerUrl: 'https://sepolia.basescan.org',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+  },
+  {
+    id: 'arbitrum',
+    chainId: 42161,
+    name: 'Arbitrum One',
+    testnet: false,
+    rpcEnvVar: 'ARBITRUM_RPC_URL',
+    publicRpcUrls: ['https://arb1.arbitrum.io/rpc'],
+    nativeCurrency: ETH,
+    explorerUrl: 'https://arbiscan.io',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+  },
+  {
+    id: 'arbitrum-sepolia',
+    chainId: 421614,
+    name: 'Arbitrum Sepolia Testnet',
+    testnet: true,
+    rpcEnvVar: 'ARBITRUM_SEPOLIA_RPC_URL',
+    publicRpcUrls: ['https://sepolia-rollup.arbitrum.io/rpc'],
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+    explorerUrl: 'https://sepolia.arbiscan.io',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+  },
+  {
+    id: 'optimism',
+    chainId: 10,
+    name: 'OP Mainnet',
+    testnet: false,
+    rpcEnvVar: 'OPTIMISM_RPC_URL',
+    publicRpcUrls: ['https://mainnet.optimism.io'],
+    nativeCurrency: ETH,
+    explorerUrl: 'https://optimistic.etherscan.io',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+  },
+  {
+    id: 'optimism-sepolia',
+    chainId: 11155420,
+    name: 'OP Sepolia Testnet',
+    testnet: true,
+    rpcEnvVar: 'OPTIMISM_SEPOLIA_RPC_URL',
+    publicRpcUrls: ['https://sepolia.optimism.io'],
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+    explorerUrl: 'https://sepolia-optimism.etherscan.io',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+  },
+  {
+    id: 'polygon',
+    chainId: 137,
+    name: 'Polygon PoS',
+    testnet: false,
+    rpcEnvVar: 'POLYGON_RPC_URL',
+    publicRpcUrls: ['https://polygon-rpc.com'],
+    nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+    explorerUrl: 'https://polygonscan.com',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+  },
+  {
+    id: 'polygon-amoy',
+    chainId: 80002,
+    name: 'Polygon Amoy Testnet',
+    testnet: true,
+    rpcEnvVar: 'POLYGON_AMOY_RPC_URL',
+    publicRpcUrls: ['https://rpc-amoy.polygon.technology'],
+    nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+    explorerUrl: 'https://amoy.polygonscan.com',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+  },
+  {
+    id: 'polygon-mumbai',
+    chainId: 80001,
+    name: 'Polygon Mumbai Testnet',
+    testnet: true,
+    deprecated: true,
+    rpcEnvVar: 'POLYGON_MUMBAI_RPC_URL',
+    publicRpcUrls: [],
+    nativeCurrency: { name: 'MATIC', symbol: 'MATIC', decimals: 18 },
+    explorerUrl: 'https://mumbai.polygonscan.com',
+  },
+  {
+    id: 'bsc',
+    chainId: 56,
+    name: 'BNB Smart Chain',
+    testnet: false,
+    rpcEnvVar: 'BSC_RPC_URL',
+    publicRpcUrls: ['https://bsc-dataseed.bnbchain.org'],
+    nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+    explorerUrl: 'https://bscscan.com',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+  },
+  {
+    id: 'bsc-testnet',
+    chainId: 97,
+    name: 'BNB Smart Chain Testnet',
+    testnet: true,
+    rpcEnvVar: 'BSC_TESTNET_RPC_URL',
+    publicRpcUrls: ['https://data-seed-prebsc-1-s1.bnbchain.org:8545'],
+    nativeCurrency: { name: 'Test BNB', symbol: 'tBNB', decimals: 18 },
+    explorerUrl: 'https://testnet.bscscan.com',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+  },
+  {
+    id: 'avalanche',
+    chainId: 43114,
+    name: 'Avalanche C-Chain',
+    testnet: false,
+    rpcEnvVar: 'AVALANCHE_RPC_URL',
+    publicRpcUrls: ['https://api.avax.network/ext/bc/C/rpc'],
+    nativeCurrency: { name: 'Avalanche', symbol: 'AVAX', decimals: 18 },
+    explorerUrl: 'https://snowtrace.io',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+  },
+  {
+    id: 'avalanche-fuji',
+    chainId: 43113,
+    name: 'Avalanche Fuji Testnet',
+    testnet: true,
+    rpcEnvVar: 'AVALANCHE_FUJI_RPC_URL',
+    publicRpcUrls: ['https://api.avax-test.network/ext/bc/C/rpc'],
+    nativeCurrency: { name: 'Avalanche', symbol: 'AVAX', decimals: 18 },
+    explorerUrl: 'https://testnet.snowtrace.io',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+  },
+  {
+    // Chain ID shared by anvil and hardhat nodes
+    id: 'localhost',
+    chainId: 31337,
+    name: 'Local Node',
+    testnet: true,
+    local: true,
+    rpcEnvVar: 'LOCALHOST_RPC_URL',
+    publicRpcUrls: ['http://127.0.0.1:8545'],
+    nativeCurrency: ETH,
+    // Local nodes have no block explorer
+    explorerUrl: '',
+  },
+];
+
+/**
+ * Looks up a network by id or legacy alias, case-insensitively
+ */
+export const getNetwork = (network: string | null | undefined): NetworkConfig | undefined => {
+  if (!network) return undefined;
+  const key = network.toLowerCase();
+  return NETWORKS.find(item => item.id === key || item.aliases?.includes(key));
+};
+
+/**
+ * Looks up a network by EIP-155 chain ID
+ */
+export const getNetworkByChainId = (chainId: number): NetworkConfig | undefined => {
+  return NETWORKS.find(item => item.chainId === chainId);
+};
+
+/**
+ * Networks offered when importing a contract, mainnets first
+ */
+export const getSelectableNetworks = (): NetworkConfig[] => {
+  return NETWORKS
+    .filter(item => !item.deprecated && (!item.local || process.env.NEXT_PUBLIC_ENABLE_LOCAL_NETWORK === 'true'))
+    .sort((a, b) => Number(a.testnet) - Number(b.testnet));
+};
+
+/**
+ * Whether the server may connect to a network. The client-side flag only hides local nodes from selects, so the
+ * server checks its own flag before sending RPC calls to its loopback.
+ */
+export const isNetworkEnabledOnServer = (network: NetworkConfig): boolean => {
+  return !network.local || process.env.ENABLE_LOCAL_NETWORK === 'true';
+};
+
+/**
+ * Every stored value that refers to a network: its id and legacy aliases
+ */
+export const getNetworkKeys = (network: NetworkConfig): string[] => {
+  return [network.id, ...(network.aliases || [])];
+};
+
+/**
+ * RPC URLs for a network, configured ones first. Only meaningful on the server.
+ */
+export const getRpcUrls = (network: NetworkConfig): string[] => {
+  const configured = (process.env[network.rpcEnvVar] || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+  return [...configured, ...network.publicRpcUrls];
+};
+
+/**
+ * Block explorer page for an address
+ */
+export const getExplorerAddressUrl = (network: NetworkConfig, address: string): string => {
+  return `${network.explorerUrl}/address/${address}`;
+};
+
+/**
+ * Block explorer page for a transaction
+ */
+export const getExplorerTransactionUrl = (network: NetworkConfig, hash: string): string => {
+  return `${network.explorerUrl}/tx/${hash}`;
+};
@@ -0,0 +1,112 @@
+/**
+ * Client helpers for transactions the agent proposes
+ * A state-changing call comes back from the contract server as an unsigned transaction. It is shown in the chat
+ * for the user to approve, signed and sent by the connected wallet, and followed until its receipt arrives.
+ */
+
+import { formatUnits, hexToBigInt } from 'viem';
+import type { UnsignedTransaction } from '@/lib/build-transaction';
+import { getNetworkByChainId } from '@/lib/networks';
+
+export type ProposedTransactionStatus =
+  | 'awaiting_approval'
+  | 'signing'
+  | 'submitted'
+  | 'confirmed'
+  | 'reverted'
+  | 'rejected'
+  | 'failed';
+
+export interface ProposedTransaction {
+  id: string;
+  action: string;
+  signature: string;
+  parameters: Record<string, any>;
+  transaction: UnsignedTransaction;
+  // Return values of the simulated call
+  simulatedResult: Record<string, any>;
+  status: ProposedTransactionStatus;
+  hash?: string;
+  blockNumber?: string;
+  gasUsed?: string;
+  error?: string;
+}
+
+export interface TransactionDetails {
+  network: string;
+  value: string;
+  gasLimit: string;
+  // Upper bound of the fee: gas limit times the max fee per gas, or the gas price on legacy chains
+  maxFee: string | null;
+}
+
+// A transaction response from /api/contract-server/[address]/[action]
+export interface TransactionExecutionResponse {
+  kind: 'transaction';
+  function: string;
+  signature: string;
+  parameters: Record<string, any>;
+  transaction: UnsignedTransaction;
+  simulatedResult: Record<string, any>;
+}
+
+let nextProposalId = 0;
+
+/**
+ * Creates a proposal awaiting the user's approval from a contract server response
+ */
+export const toProposedTransaction = (response: TransactionExecutionResponse): ProposedTransaction => ({
+  id: `tx-${Date.now()}-${nextProposalId++}`,
+  action: response.function,
+  signature: response.signature,
+  parameters: response.parameters,
+  transaction: response.transaction,
+  simulatedResult: response.simulatedResult,
+  status: 'awaiting_approval',
+});
+
+/**
+ * Formats the amounts of a transaction in the native currency of its chain
+ */
+export const getTransactionDetails = ({ transaction }: ProposedTransaction): TransactionDetails => {
+  const network = getNetworkByChainId(transaction.chainId);
+  const currency = network?.nativeCurrency || { name: 'Ether', symbol: 'ETH', decimals: 18 };
+  const formatAmount = (wei: bigint) => `${formatUnits(wei, currency.decimals)} ${currency.symbol}`;
+
+  const gas = hexToBigInt(transaction.gas as `0x${string}`);
+  const feePerGas = transaction.maxFeePerGas || transaction.gasPrice;
+
+  return {
+    network: network ? `${network.name} (${transaction.chainId})` : `Chain ${transaction.chainId}`,
+    value: formatAmount(hexToBigInt(transaction.value as `0x${string}`)),
+    gasLimit: gas.toString(),
+    maxFee: feePerGas ? formatAmount(gas * hexToBigInt(feePerGas as `0x${string}`)) : null,
+  };
+};
+
+/**
+ * True when the wallet reports that the user declined to sign
+ */
+export const isUserRejection = (error: any): boolean => {
+  if (!error) return false;
+  if (error.code === 4001 || error.name === 'UserRejectedRequestError') return true;
+  return isUserRejection(error.cause);
+};
+
+/**
+ * Describes how a proposal ended, for the conversation. Returns null while it is still in progress.
+ */
+export const describeTransactionOutcome = (proposal: ProposedTransaction): string | null => {
+  switch (proposal.status) {
+    case 'confirmed':
+      return `Transaction confirmed: ${proposal.action}\nHash: ${proposal.hash}\nBlock: ${proposal.blockNumber}, gas used: ${proposal.gasUsed}`;
+    case 'reverted':
+      return `Transaction reverted: ${proposal.action}\nHash: ${proposal.hash}\nBlock: ${proposal.blockNumber}`;
+    case 'rejected':
+      return `Transaction rejected: ${proposal.action} was not signed`;
+    case 'failed':
+      return `Transaction failed: ${proposal.action}\n${proposal.error}`;
+    default:
+      return null;
+  }
+};
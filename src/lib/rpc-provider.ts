@@ -0,0 +1,28 @@
+/**
+ * Server-side JSON-RPC providers for registered networks
+ */
+
+import { ethers } from 'ethers';
+import { getNetwork, getRpcUrls, isNetworkEnabledOnServer, NetworkConfig } from '@/lib/networks';
+
+/**
+ * Returns a provider for a network id, alias or config
+ * The chain ID comes from the registry, so no request is spent detecting it.
+ */
+export const getProvider = (network: string | NetworkConfig): ethers.providers.StaticJsonRpcProvider => {
+  const config = typeof network === 'string' ? getNetwork(network) : network;
+  if (!config) {
+    throw new Error(`Unsupported network: ${network}`);
+  }
+
+  if (!isNetworkEnabledOnServer(config)) {
+    throw new Error(`${config.name} is not enabled on this server. Set ENABLE_LOCAL_NETWORK=true to use it.`);
+  }
+
+  const [rpcUrl] = getRpcUrls(config);
+  if (!rpcUrl) {
+    throw new Error(`No RPC URL configured for ${config.name}. Set ${config.rpcEnvVar}.`);
+  }
+
+  return new ethers.providers.StaticJsonRpcProvider(rpcUrl, { chainId: config.chainId, name: config.id });
+};
@@ -0,0 +1,252 @@
+/**
+ * Maps Solidity ABI types to JSON Schema
+ * Integers are represented as decimal strings so uint256 values survive JSON and LLM round-trips.
+ */
+
+export interface ABIParameter {
+  name: string;
+  type: string;
+  internalType?: string;
+  indexed?: boolean;
+  components?: ABIParameter[];
+}
+
+/**
+ * A JSON Schema property as used in an MCP tool `inputSchema`
+ */
+export interface JSONSchemaProperty {
+  type: string;
+  description?: string;
+  enum?: string[];
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JSONSchemaProperty>;
+  required?: string[];
+  items?: JSONSchemaProperty;
+  additionalProperties?: boolean;
+}
+
+export const ADDRESS_PATTERN = '^0x[0-9a-fA-F]{40}$';
+export const BYTES_PATTERN = '^0x([0-9a-fA-F]{2})*$';
+
+const ARRAY_TYPE_REGEX = /^(.*)\[(\d*)\]$/;
+const INTEGER_TYPE_REGEX = /^(u?)int(\d*)$/;
+const FIXED_BYTES_TYPE_REGEX = /^bytes(\d+)$/;
+
+/**
+ * Returns the inclusive bounds of a Solidity integer type, or null for non-integer types
+ */
+export const getIntegerBounds = (solType: string): { min: bigint; max: bigint } | null => {
+  const match = solType.match(INTEGER_TYPE_REGEX);
+  if (!match) return null;
+
+  const isSigned = match[1] !== 'u';
+  const bits = BigInt(match[2] || '256');
+
+  if (isSigned) {
+    const half = BigInt(1) << (bits - BigInt(1));
+    return { min: -half, max: half - BigInt(1) };
+  }
+  return { min: BigInt(0), max: (BigInt(1) << bits) - BigInt(1) };
+};
+
+/**
+ * Splits the outermost array dimension off a type, e.g. `uint8[3][]` -> `uint8[3]` of dynamic length
+ */
+export const parseArrayType = (solType: string): { baseType: string; length: number | null } | null => {
+  const match = solType.match(ARRAY_TYPE_REGEX);
+  if (!match) return null;
+
+  return {
+    baseType: match[1],
+    length: match[2] === '' ? null : parseInt(match[2], 10),
+  };
+};
+
+/**
+ * Key of a function output in a decoded result. Unnamed outputs fall back to `result` when the
+ * function returns a single value and to their index otherwise.
+ */
+export const getOutputKey = (param: ABIParameter, index: number, count: number): string => {
+  if (param.name) return param.name;
+  return count === 1 ? 'result' : String(index);
+};
+
+/**
+ * Keys of a function's inputs in tool arguments. Unnamed inputs are keyed by position, `arg0`, `arg1`, ...,
+ * skipping keys already taken by named inputs.
+ */
+export const getInputKeys = (inputs: ABIParameter[]): string[] => {
+  const used = new Set(inputs.map(input => input.name).filter(Boolean));
+  return inputs.map((input, index) => {
+    if (input.name) return input.name;
+    let key = `arg${index}`;
+    while (used.has(key)) key = `_${key}`;
+    used.add(key);
+    return key;
+  });
+};
+
+/**
+ * Human-readable range for an integer type, using powers of two for wide types
+ */
+const describeIntegerRange = (solType: string): string => {
+  const match = solType.match(INTEGER_TYPE_REGEX)!;
+  const bits = parseInt(match[2] || '256', 10);
+  const bounds = getIntegerBounds(solType)!;
+
+  if (bits <= 64) {
+    return `${bounds.min.toString()} to ${bounds.max.toString()}`;
+  }
+  return match[1] === 'u' ? `0 to 2^${bits}-1` : `-2^${bits - 1} to 2^${bits - 1}-1`;
+};
+
+const withHint = (description: string | undefined, hint: string): string =>
+  description ? `${description} (${hint})` : hint;
+
+/**
+ * Converts an ABI parameter to a JSON Schema property
+ * `describe` supplies descriptions for named parameters and struct components.
+ */
+export const solidityParamToJsonSchema = (
+  param: ABIParameter,
+  describe?: (param: ABIParameter) => string | undefined
+): JSONSchemaProperty => {
+  const description = param.name && describe ? describe(param) : undefined;
+  const arrayType = parseArrayType(param.type);
+
+  // Arrays, including fixed-size, multidimensional and tuple arrays
+  if (arrayType) {
+    const schema: JSONSchemaProperty = {
+      type: 'array',
+      items: solidityParamToJsonSchema(
+        { name: '', type: arrayType.baseType, components: param.components },
+        describe
+      ),
+    };
+    if (description) schema.description = description;
+    if (arrayType.length !== null) {
+      schema.minItems = arrayType.length;
+      schema.maxItems = arrayType.length;
+    }
+    return schema;
+  }
+
+  // Structs become objects with every component required; unnamed components are keyed by index
+  if (param.type === 'tuple') {
+    const components = param.components || [];
+    const keys = components.map((component, index) => component.name || String(index));
+    const schema: JSONSchemaProperty = {
+      type: 'object',
+      properties: Object.fromEntries(
+        components.map((component, index) => [keys[index], solidityParamToJsonSchema(component, describe)])
+      ),
+      required: keys,
+      additionalProperties: false,
+    };
+    if (description) schema.description = description;
+    return schema;
+  }
+
+  const integerMatch = param.type.match(INTEGER_TYPE_REGEX);
+  if (integerMatch) {
+    const maxDigits = getIntegerBounds(param.type)!.max.toString().length;
+    return {
+      type: 'string',
+      description: withHint(description, `${param.type} as a decimal string, ${describeIntegerRange(param.type)}`),
+      pattern: integerMatch[1] === 'u' ? `^[0-9]{1,${maxDigits}}$` : `^-?[0-9]{1,${maxDigits}}$`,
+    };
+  }
+
+  if (param.type === 'address') {
+    return {
+      type: 'string',
+      description: withHint(description, '0x-prefixed 20-byte address'),
+      pattern: ADDRESS_PATTERN,
+    };
+  }
+
+  if (param.type === 'bool') {
+    return description ? { type: 'boolean', description } : { type: 'boolean' };
+  }
+
+  if (param.type === 'string') {
+    return description ? { type: 'string', description } : { type: 'string' };
+  }
+
+  if (param.type === 'bytes') {
+    return {
+      type: 'string',
+      description: withHint(description, '0x-prefixed hex bytes'),
+      pattern: BYTES_PATTERN,
+    };
+  }
+
+  const fixedBytesMatch = param.type.match(FIXED_BYTES_TYPE_REGEX);
+  if (fixedBytesMatch || param.type === 'function') {
+    // An external function reference is an address followed by a 4-byte selector
+    const size = fixedBytesMatch ? parseInt(fixedBytesMatch[1], 10) : 24;
+    return {
+      type: 'string',
+      description: withHint(description, `0x-prefixed hex, exactly ${size} bytes`),
+      pattern: `^0x[0-9a-fA-F]{${size * 2}}$`,
+    };
+  }
+
+  // Fixed-point types are declared in Solidity but not yet supported by the compiler
+  return description ? { type: 'string', description } : { type: 'string' };
+};
+
+/**
+ * Checks that the integers in an argument fit their Solidity type, looking inside arrays and structs.
+ * Returns an error for the first integer that does not, or null. Other types are left to the ABI encoder.
+ */
+export const findIntegerRangeError = (param: ABIParameter, value: unknown, path: string): string | null => {
+  const arrayType = parseArrayType(param.type);
+  if (arrayType) {
+    if (!Array.isArray(value)) return null;
+    const item = { ...param, type: arrayType.baseType };
+    for (let index = 0; index < value.length; index++) {
+      const error = findIntegerRangeError(item, value[index], `${path}[${index}]`);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  // Structs are passed as objects keyed like their JSON Schema, or as arrays
+  if (param.type === 'tuple') {
+    if (typeof value !== 'object' || value === null) return null;
+    const components = param.components || [];
+    for (let index = 0; index < components.length; index++) {
+      const key = components[index].name || String(index);
+      const entry = Array.isArray(value) ? value[index] : (value as Record<string, unknown>)[key];
+      const error = findIntegerRangeError(components[index], entry, `${path}.${key}`);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  const bounds = getIntegerBounds(param.type);
+  if (!bounds) return null;
+
+  let parsed: bigint;
+  try {
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'bigint') {
+      throw new Error(`Not an integer: ${value}`);
+    }
+    if (typeof value === 'string' && !value.trim()) {
+      throw new Error('Empty integer');
+    }
+    parsed = BigInt(typeof value === 'string' ? value.trim() : value);
+  } catch (error) {
+    return `${path} must be a ${param.type} integer`;
+  }
+
+  if (parsed < bounds.min || parsed > bounds.max) {
+    return `${path} is out of range for ${param.type}: must be ${describeIntegerRange(param.type)}`;
+  }
+  return null;
+};
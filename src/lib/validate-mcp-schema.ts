@@ -0,0 +1,159 @@
+/**
+ * Validates generated MCP tool definitions against the MCP `Tool` schema
+ * See https://modelcontextprotocol.io/specification/2025-03-26/server/tools#tool
+ */
+
+const JSON_SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+// JSON Schema keywords the generators are allowed to emit
+const ALLOWED_SCHEMA_KEYWORDS = [
+  'type',
+  'title',
+  'description',
+  'enum',
+  'const',
+  'default',
+  'pattern',
+  'format',
+  'minLength',
+  'maxLength',
+  'minimum',
+  'maximum',
+  'minItems',
+  'maxItems',
+  'items',
+  'properties',
+  'required',
+  'additionalProperties',
+];
+
+const ANNOTATION_HINTS = ['readOnlyHint', 'destructiveHint', 'idempotentHint', 'openWorldHint'];
+
+// Most MCP hosts reject tool names outside this pattern
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates a JSON Schema node, collecting errors with their JSON path
+ */
+const validateSchemaNode = (schema: unknown, path: string, errors: string[]) => {
+  if (!isPlainObject(schema)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+
+  Object.keys(schema)
+    .filter(key => !ALLOWED_SCHEMA_KEYWORDS.includes(key))
+    .forEach(key => errors.push(`${path} has unsupported keyword "${key}"`));
+
+  if (!JSON_SCHEMA_TYPES.includes(schema.type)) {
+    errors.push(`${path}.type must be one of ${JSON_SCHEMA_TYPES.join(', ')}`);
+  }
+
+  if (schema.description !== undefined && typeof schema.description !== 'string') {
+    errors.push(`${path}.description must be a string`);
+  }
+
+  if (schema.type === 'array') {
+    if (schema.items === undefined) {
+      errors.push(`${path}.items is required for array schemas`);
+    } else {
+      validateSchemaNode(schema.items, `${path}.items`, errors);
+    }
+  }
+
+  if (schema.properties !== undefined) {
+    if (!isPlainObject(schema.properties)) {
+      errors.push(`${path}.properties must be an object`);
+    } else {
+      Object.entries(schema.properties).forEach(([key, value]) =>
+        validateSchemaNode(value, `${path}.properties.${key}`, errors)
+      );
+    }
+  }
+
+  if (schema.required !== undefined) {
+    if (!Array.isArray(schema.required) || schema.required.some((key: unknown) => typeof key !== 'string')) {
+      errors.push(`${path}.required must be an array of strings`);
+    } else {
+      schema.required
+        .filter((key: string) => key === '')
+        .forEach(() => errors.push(`${path}.required must not contain an empty name`));
+      schema.required
+        .filter((key: string, index: number) => key !== '' && schema.required.indexOf(key) !== index)
+        .forEach((key: string) => errors.push(`${path}.required lists "${key}" more than once`));
+      schema.required
+        .filter((key: string) => key !== '' && (!isPlainObject(schema.properties) || !(key in schema.properties)))
+        .forEach((key: string) => errors.push(`${path}.required lists "${key}" which is not a declared property`));
+    }
+  }
+};
+
+/**
+ * Validates a list of MCP tools. Returns an empty array when every tool is valid.
+ */
+export const validateMCPTools = (tools: unknown): string[] => {
+  const errors: string[] = [];
+
+  if (!Array.isArray(tools)) {
+    return ['MCP schema must be an array of tools'];
+  }
+
+  const seenNames = new Set<string>();
+
+  tools.forEach((tool, index) => {
+    const path = `tools[${index}]`;
+
+    if (!isPlainObject(tool)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    if (typeof tool.name !== 'string' || !TOOL_NAME_PATTERN.test(tool.name)) {
+      errors.push(`${path}.name must match ${TOOL_NAME_PATTERN}`);
+    } else if (seenNames.has(tool.name)) {
+      errors.push(`${path}.name "${tool.name}" is not unique`);
+    } else {
+      seenNames.add(tool.name);
+    }
+
+    if (typeof tool.description !== 'string') {
+      errors.push(`${path}.description must be a string`);
+    }
+
+    if (!isPlainObject(tool.inputSchema)) {
+      errors.push(`${path}.inputSchema is required`);
+    } else {
+      if (tool.inputSchema.type !== 'object') {
+        errors.push(`${path}.inputSchema.type must be "object"`);
+      }
+      validateSchemaNode(tool.inputSchema, `${path}.inputSchema`, errors);
+    }
+
+    if (tool.outputSchema !== undefined) {
+      if (!isPlainObject(tool.outputSchema) || tool.outputSchema.type !== 'object') {
+        errors.push(`${path}.outputSchema.type must be "object"`);
+      } else {
+        validateSchemaNode(tool.outputSchema, `${path}.outputSchema`, errors);
+      }
+    }
+
+    if (tool.annotations !== undefined) {
+      if (!isPlainObject(tool.annotations)) {
+        errors.push(`${path}.annotations must be an object`);
+      } else {
+        ANNOTATION_HINTS
+          .filter(hint => tool.annotations[hint] !== undefined && typeof tool.annotations[hint] !== 'boolean')
+          .forEach(hint => errors.push(`${path}.annotations.${hint} must be a boolean`));
+
+        if (tool.annotations.title !== undefined && typeof tool.annotations.title !== 'string') {
+          errors.push(`${path}.annotations.title must be a string`);
+        }
+      }
+    }
+  });
+
+  return errors;
+};
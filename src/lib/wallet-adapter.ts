@@ -0,0 +1,32 @@
+/**
+ * The wallet a chat client signs with
+ * Each wallet library (wagmi with RainbowKit, Privy) is wrapped in an adapter hook so the chat client does not
+ * depend on either. The read-only adapter has no wallet: contracts can be queried but nothing can be signed.
+ */
+
+import type { UnsignedTransaction } from '@/lib/build-transaction';
+
+export interface TransactionReceiptSummary {
+  status: 'success' | 'reverted';
+  blockNumber: bigint | number;
+  gasUsed: bigint | number;
+}
+
+export interface WalletAdapter {
+  id: 'wagmi' | 'privy' | 'read-only';
+  address?: string;
+  // True when the chat can be used: a wallet is connected, or the adapter needs none
+  ready: boolean;
+  // Opens the wallet library's connect flow
+  connect?: () => void;
+  // Signs and sends a transaction, resolving with its hash. Adapters without a wallet leave these out.
+  sendTransaction?: (transaction: UnsignedTransaction) => Promise<string>;
+  waitForReceipt?: (hash: string, chainId: number) => Promise<TransactionReceiptSummary>;
+  // Signs a plain-text message (personal_sign), used to sign in so stored chats can be loaded
+  signMessage?: (message: string) => Promise<string>;
+}
+
+export const READ_ONLY_WALLET: WalletAdapter = {
+  id: 'read-only',
+  ready: true,
+};
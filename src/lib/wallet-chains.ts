@@ -0,0 +1,50 @@
+/**
+ * viem chain definitions for the registered networks, used to configure wagmi and Privy
+ */
+
+import type { Chain } from 'viem';
+import {
+  arbitrum,
+  arbitrumSepolia,
+  avalanche,
+  avalancheFuji,
+  base,
+  baseSepolia,
+  bsc,
+  bscTestnet,
+  foundry,
+  holesky,
+  mainnet,
+  optimism,
+  optimismSepolia,
+  polygon,
+  polygonAmoy,
+  sepolia,
+} from 'viem/chains';
+import { getSelectableNetworks } from '@/lib/networks';
+
+const VIEM_CHAINS: Chain[] = [
+  mainnet,
+  sepolia,
+  holesky,
+  base,
+  baseSepolia,
+  arbitrum,
+  arbitrumSepolia,
+  optimism,
+  optimismSepolia,
+  polygon,
+  polygonAmoy,
+  bsc,
+  bscTestnet,
+  avalanche,
+  avalancheFuji,
+  foundry,
+];
+
+/**
+ * Chains wallets can switch to, in registry order with Ethereum Mainnet first
+ */
+export const WALLET_CHAINS = getSelectableNetworks()
+  .map(network => VIEM_CHAINS.find(chain => chain.id === network.chainId))
+  .filter((chain): chain is Chain => chain !== undefined) as [Chain, ...Chain[]];
@@ -0,0 +1,145 @@
+/**
+ * Wallet sessions: proof that the caller controls a wallet address
+ * A caller signs a challenge with the wallet, and gets back an httpOnly cookie naming the address. Challenges and
+ * cookies are HMAC-signed with WALLET_SESSION_SECRET, so the server keeps no state and nothing can be forged
+ * without the secret. Stored chat sessions are only served to the wallet named in the cookie.
+ */
+
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+export const WALLET_SESSION_COOKIE = 'wallet_session';
+
+// A challenge has to be signed within this time
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+// How long a signed-in wallet stays signed in
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const STATEMENT = 'Sign in to load and continue your saved chats. This does not send a transaction or cost gas.';
+
+export type WalletSignInResult =
+  | { success: true; address: string; token: string; expiresAt: number }
+  | { success: false; error: string };
+
+const getSecret = (): string | null => process.env.WALLET_SESSION_SECRET || null;
+
+const toChecksumAddress = (address: string | undefined): string | null => {
+  try {
+    return address ? ethers.utils.getAddress(address) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const sign = (secret: string, value: string): string => {
+  return crypto.createHmac('sha256', secret).update(value).digest('base64url');
+};
+
+const isValidSignature = (secret: string, value: string, signature: string): boolean => {
+  const expected = Buffer.from(sign(secret, value));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * Message for a wallet to sign. The nonce binds the address and expiry to this server.
+ */
+export const createSignInChallenge = (address: string, domain: string): { message: string; expiresAt: number } | null => {
+  const secret = getSecret();
+  if (!secret) return null;
+
+  const expiresAt = Date.now() + CHALLENGE_TTL_MS;
+  const random = crypto.randomBytes(16).toString('hex');
+  const nonce = `${random}.${sign(secret, `challenge:${random}:${address}:${expiresAt}`)}`;
+
+  const message = `${domain} wants you to sign in with your Ethereum account:
+${address}
+
+${STATEMENT}
+
+Nonce: ${nonce}
+Expiration Time: ${new Date(expiresAt).toISOString()}`;
+
+  return { message, expiresAt };
+};
+
+/**
+ * Checks a signed challenge and, when it holds, issues a session token for the signing wallet
+ */
+export const verifySignIn = (message: unknown, signature: unknown): WalletSignInResult => {
+  const secret = getSecret();
+  if (!secret) {
+    return { success: false, error: 'WALLET_SESSION_SECRET is not configured' };
+  }
+
+  if (typeof message !== 'string' || typeof signature !== 'string') {
+    return { success: false, error: 'A message and signature are required' };
+  }
+
+  const lines = message.split('\n');
+  const address = toChecksumAddress(lines[1]);
+  const nonce = lines.find(line => line.startsWith('Nonce: '))?.slice('Nonce: '.length);
+  const expiry = lines.find(line => line.startsWith('Expiration Time: '))?.slice('Expiration Time: '.length);
+  const expiresAt = expiry ? Date.parse(expiry) : NaN;
+  const [random, nonceSignature] = nonce?.split('.') || [];
+
+  if (!address || !random || !nonceSignature || Number.isNaN(expiresAt)) {
+    return { success: false, error: 'Malformed sign-in message' };
+  }
+
+  if (!isValidSignature(secret, `challenge:${random}:${address}:${expiresAt}`, nonceSignature)) {
+    return { success: false, error: 'The sign-in message was not issued by this server' };
+  }
+
+  if (expiresAt < Date.now()) {
+    return { success: false, error: 'The sign-in message has expired' };
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.utils.verifyMessage(message, signature);
+  } catch (error) {
+    return { success: false, error: 'Invalid signature' };
+  }
+
+  if (signer !== address) {
+    return { success: false, error: 'The message was not signed by this wallet' };
+  }
+
+  const sessionExpiresAt = Date.now() + SESSION_TTL_MS;
+  const token = `${address}.${sessionExpiresAt}.${sign(secret, `session:${address}:${sessionExpiresAt}`)}`;
+  return { success: true, address, token, expiresAt: sessionExpiresAt };
+};
+
+/**
+ * The wallet the caller has signed in with, or null
+ */
+export const getWalletSession = (req: NextApiRequest): string | null => {
+  const secret = getSecret();
+  const token = req.cookies?.[WALLET_SESSION_COOKIE];
+  if (!secret || !token) return null;
+
+  const [address, expiresAt, signature] = token.split('.');
+  if (!address || !expiresAt || !signature) return null;
+  if (!isValidSignature(secret, `session:${address}:${expiresAt}`, signature)) return null;
+  if (Number(expiresAt) < Date.now()) return null;
+
+  return toChecksumAddress(address);
+};
+
+/**
+ * Sets the session cookie, or clears it when no token is given
+ */
+export const setWalletSessionCookie = (res: NextApiResponse, token: string | null, expiresAt = 0) => {
+  const attributes = [
+    `${WALLET_SESSION_COOKIE}=${token || ''}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${token ? Math.floor((expiresAt - Date.now()) / 1000) : 0}`,
+    ...(process.env.NODE_ENV === 'production' ? ['Secure'] : []),
+  ];
+  res.setHeader('Set-Cookie', attributes.join('; '));
+};
@@ -1,7 +1,8 @@
 import { GetServerSideProps } from 'next';
-import prisma from '@/lib/prisma'; 
+import { ContractMatch, findContract, getQueryString } from '@/lib/contract-lookup'; 
 import { usePrivy } from '@privy-io/react-auth';
-import { MCPClient } from '@/components/MCPClient_privy';
+import { MCPClient } from '@/components/MCPClient';
+import { usePrivyWalletAdapter } from '@/hooks/usePrivyWalletAdapter';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import PrivyProviders from '@/components/PrivyProvider';
@@ -16,11 +17,14 @@ interface PreviewPageProps {
     mcpSchema: string | null;
   } | null;
   error?: string;
+  // Contracts sharing the requested address, when the URL does not pick one
+  matches?: ContractMatch[];
 }
 
 // Component that uses Privy hooks - must be inside PrivyProvider
-function AgentContent({ contract, error }: PreviewPageProps) {
+function AgentContent({ contract, error, matches }: PreviewPageProps) {
   const { ready } = usePrivy();
+  const wallet = usePrivyWalletAdapter();
   
   if (!ready) {
     return (
@@ -46,6 +50,17 @@ function AgentContent({ contract, error }: PreviewPageProps) {
           </CardHeader>
           <CardContent>
             <p>{error}</p>
+            {matches && matches.length > 0 && (
+              <ul className="mt-4 space-y-2">
+                {matches.map((match) => (
+                  <li key={match.id}>
+                    <a href={`?contractId=${match.id}`} className="text-primary hover:underline">
+                      {match.name || 'Smart Contract'} on {match.networkName}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -88,7 +103,9 @@ function AgentContent({ contract, error }: PreviewPageProps) {
           <Separator className="my-4" />
           <MCPClient 
             contractAddress={contract.address} 
-            network={contract.network} 
+            network={contract.network}
+            contractId={contract.id}
+            wallet={wallet}
           />
         </CardContent>
       </Card>
@@ -107,6 +124,7 @@ export default function PreviewPage(props: PreviewPageProps) {
 
 export const getServerSideProps: GetServerSideProps = async (context) => {
   const { address } = context.params || {};
+  const { network, contractId } = context.query;
   
   if (!address || typeof address !== 'string') {
     return {
@@ -118,29 +136,26 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
   }
   
   try {
-    // Find the contract by address
-    const contract = await prisma.smartContract.findFirst({
-      where: { 
-        address: { equals: address, mode: 'insensitive' },
-      },
-      select: {
-        id: true,
-        name: true,
-        address: true,
-        network: true,
-        mcpSchema: true,
-      },
+    // Find the contract by id or by (network, address); a bare address must match exactly one contract
+    const lookup = await findContract({
+      address,
+      network: getQueryString(network),
+      contractId: getQueryString(contractId),
     });
     
-    if (!contract) {
+    if (lookup.status !== 'found') {
       return {
         props: {
           contract: null,
-          error: `Contract not found with address: ${address}`,
+          error: lookup.error,
+          ...(lookup.status === 'ambiguous' ? { matches: lookup.matches } : {}),
         },
       };
     }
     
+    const { id, name, address: contractAddress, network: contractNetwork, mcpSchema } = lookup.contract;
+    const contract = { id, name, address: contractAddress, network: contractNetwork, mcpSchema };
+    
     if (!contract.mcpSchema) {
       return {
         props: {
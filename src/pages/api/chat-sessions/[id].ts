@@ -0,0 +1,56 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '@/lib/prisma';
+import { findChatSession, saveChatTurn, SESSION_ERROR_STATUS } from '@/lib/chat-sessions';
+import { getWalletSession } from '@/lib/wallet-session';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  console.log(`[chat-sessions/id] Received ${req.method} request`);
+
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { id } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ error: 'Session ID is required' });
+    }
+
+    // The session must belong to the wallet the caller signed in with
+    const lookup = await findChatSession(id, getWalletSession(req));
+    if (lookup.status !== 'found') {
+      console.log(`[chat-sessions/id] ${lookup.error}`);
+      return res.status(SESSION_ERROR_STATUS[lookup.status]).json(lookup);
+    }
+
+    // POST: record something that happened outside the agent, like the outcome of a signed transaction, so the
+    // model sees it when the conversation continues. It is stored as a user message: the client reports it, and
+    // assistant messages are only written by the agent loop.
+    if (req.method === 'POST') {
+      const { content } = req.body || {};
+      if (typeof content !== 'string' || !content.trim()) {
+        return res.status(400).json({ error: 'Message content is required' });
+      }
+
+      await saveChatTurn(id, [{ role: 'user', content }], []);
+      console.log(`[chat-sessions/id] Recorded a message in session ${id}`);
+      return res.status(201).json({ success: true });
+    }
+
+    if (req.method === 'DELETE') {
+      // Messages and tool invocations are removed with the session
+      await prisma.chatSession.delete({ where: { id } });
+      console.log(`[chat-sessions/id] Deleted session ${id}`);
+      return res.status(204).end();
+    }
+
+    return res.status(200).json({ session: lookup.session });
+  } catch (error: any) {
+    console.error('[chat-sessions/id] Unexpected error:', error);
+    return res.status(500).json({
+      error: 'Failed to process chat session request',
+      details: error?.message || String(error)
+    });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { listChatSessions } from '@/lib/chat-sessions';
+import { getWalletSession } from '@/lib/wallet-session';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  console.log(`[chat-sessions] Received ${req.method} request`);
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { contractId } = req.query;
+
+    if (!contractId || typeof contractId !== 'string') {
+      return res.status(400).json({ error: 'Contract ID is required' });
+    }
+
+    // Sessions are listed for the wallet the caller signed in with, never for an address it names
+    const wallet = getWalletSession(req);
+    if (!wallet) {
+      return res.status(401).json({ error: 'Sign in with your wallet to use stored chat sessions' });
+    }
+
+    const sessions = await listChatSessions(contractId, wallet);
+    console.log(`[chat-sessions] Found ${sessions.length} sessions for ${wallet}`);
+
+    return res.status(200).json({ sessions });
+  } catch (error: any) {
+    console.error('[chat-sessions] Unexpected error:', error);
+    return res.status(500).json({
+      error: 'Failed to list chat sessions',
+      details: error?.message || String(error)
+    });
+  }
+}
@@ -1,18 +1,39 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import OpenAI from 'openai';
+import { DEFAULT_NETWORK, getNetwork } from '@/lib/networks';
+import { findContract, LOOKUP_ERROR_STATUS } from '@/lib/contract-lookup';
 import prisma from '@/lib/prisma';
-
-// Create an OpenAI API client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { getContractTools } from '@/lib/contract-executor';
+import { resolveModelSettings } from '@/lib/llm-config';
+import { ChatMessage, getLLMProvider, LLMProvider } from '@/lib/llm-provider';
+import { AgentEvent, AgentStep, DEFAULT_MAX_AGENT_STEPS, runAgentLoop } from '@/lib/chat-agent';
+import {
+  ChatTurnMessage,
+  createChatSession,
+  findChatSession,
+  normalizeWalletAddress,
+  saveChatTurn,
+  SESSION_ERROR_STATUS,
+  toModelMessages,
+} from '@/lib/chat-sessions';
+import { getWalletSession } from '@/lib/wallet-session';
+
+/**
+ * Stores a finished turn. The answer has already been produced, so a storage failure is logged rather than returned.
+ */
+const saveTurn = async (sessionId: string, newMessages: ChatTurnMessage[], steps: AgentStep[]) => {
+  try {
+    await saveChatTurn(sessionId, newMessages, steps);
+  } catch (error) {
+    console.error(`[chat] Failed to save turn for session ${sessionId}:`, error);
+  }
+};
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   console.log('[chat] Received request');
   
   try {
     // Extract the request body
-    const { messages, contractAddress, network, walletAddress, user } = req.body;
+    const { messages, contractAddress, contractId, network, walletAddress, sessionId } = req.body;
 
     // Validate required parameters
     if (!contractAddress) {
@@ -20,149 +41,169 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'Contract address is required' });
     }
 
-    if (!walletAddress) {
-      console.log('[chat] Error: Wallet address is required');
-      return res.status(400).json({ error: 'Wallet address is required' });
+    // Without a wallet the contract can only be queried. The conversation is only stored once the wallet has
+    // signed in, since the address in the request proves nothing.
+    const wallet = walletAddress ? normalizeWalletAddress(walletAddress) : null;
+    if (walletAddress && !wallet) {
+      console.log(`[chat] Error: Invalid wallet address: ${walletAddress}`);
+      return res.status(400).json({ error: `Invalid wallet address: ${walletAddress}` });
     }
 
-    // Find the contract by address
-    console.log(`[chat] Finding contract: ${contractAddress} on ${network || 'mainnet'}`);
-    const contract = await prisma.smartContract.findFirst({
-      where: { 
-        address: { equals: contractAddress, mode: 'insensitive' },
-        network: network || 'mainnet',
-      },
+    if (!Array.isArray(messages) || messages.length === 0) {
+      console.log('[chat] Error: Messages are required');
+      return res.status(400).json({ error: 'Messages are required' });
+    }
+
+    // Only user and assistant messages are accepted from the client, and only user messages are stored:
+    // assistant turns in a stored session are written by the agent loop alone
+    const requestMessages: ChatMessage[] = messages
+      .filter((message: any) => (message.role === 'user' || message.role === 'assistant') && typeof message.content === 'string')
+      .map((message: any) => ({ role: message.role, content: message.content }));
+    const userMessages: ChatTurnMessage[] = requestMessages.flatMap(message =>
+      message.role === 'user' && typeof message.content === 'string' ? [{ role: 'user' as const, content: message.content }] : []
+    );
+
+    // Resolve the contract by id, or by address on the requested network
+    console.log(`[chat] Finding contract: ${contractId || `${contractAddress} on ${network || DEFAULT_NETWORK}`}`);
+    const lookup = await findContract({
+      contractId,
+      address: contractAddress,
+      network: network || DEFAULT_NETWORK,
     });
 
-    if (!contract) {
-      console.log('[chat] Error: Contract not found');
-      return res.status(404).json({ error: 'Contract not found' });
+    if (lookup.status !== 'found') {
+      console.log(`[chat] Error: ${lookup.error}`);
+      return res.status(LOOKUP_ERROR_STATUS[lookup.status]).json(lookup);
     }
 
-    // Get the MCP schema
-    const mcpSchema = contract.mcpSchema ? JSON.parse(contract.mcpSchema) : [];
-    console.log(`[chat] Found contract with ${mcpSchema.length} functions`);
-
-    // Create functions for OpenAI based on the MCP schema
-    const functions = mcpSchema.map((func: any) => {
-      // Create parameters object for the function
-      const parameters: any = {
-        type: 'object',
-        properties: {},
-        required: [],
-      };
+    const { contract } = lookup;
+    const networkConfig = getNetwork(contract.network) || getNetwork(DEFAULT_NETWORK)!;
 
-      // Add each parameter to the properties
-      if (func.inputs && Array.isArray(func.inputs)) {
-        func.inputs.forEach((input: any) => {
-          // Map Solidity types to JSON Schema types
-          let type = 'string'; // Default to string for most Ethereum types
-          if (input.type.includes('int')) {
-            type = 'number';
-          } else if (input.type === 'bool') {
-            type = 'boolean';
-          }
-
-          parameters.properties[input.name] = {
-            type,
-            description: input.description || `${input.name} parameter`,
-          };
-
-          // Add to required list if not optional
-          if (!input.optional) {
-            parameters.required.push(input.name);
-          }
-        });
+    // The project that owns the contract picks the provider and model
+    const project = await prisma.project.findUnique({ where: { id: contract.projectId } });
+    const modelSettings = resolveModelSettings(project);
+
+    let provider: LLMProvider;
+    try {
+      provider = getLLMProvider(modelSettings.provider);
+    } catch (error: any) {
+      console.log(`[chat] Error: ${error.message}`);
+      return res.status(500).json({ error: 'LLM provider is not available', details: error.message });
+    }
+
+    // A sessionId continues a stored conversation, whose history replaces the client's; the new message is
+    // the last one sent. Without one, a session is started from the user messages in the request.
+    let session: { id: string } | null = null;
+    let history: ChatMessage[] = requestMessages;
+    let newMessages: ChatTurnMessage[] = [];
+    const signedInWallet = getWalletSession(req);
+    if (sessionId) {
+      const sessionLookup = await findChatSession(sessionId, signedInWallet, contract.id);
+      if (sessionLookup.status !== 'found') {
+        console.log(`[chat] Error: ${sessionLookup.error}`);
+        return res.status(SESSION_ERROR_STATUS[sessionLookup.status]).json(sessionLookup);
       }
 
-      return {
-        name: func.name,
-        description: func.description || `Execute the ${func.name} function`,
-        parameters,
-      };
-    });
+      const latest = requestMessages[requestMessages.length - 1];
+      if (!latest || latest.role !== 'user' || typeof latest.content !== 'string') {
+        return res.status(400).json({ error: 'The last message must be a user message' });
+      }
+
+      session = sessionLookup.session;
+      history = [...toModelMessages(sessionLookup.session), latest];
+      newMessages = [{ role: 'user', content: latest.content }];
+    } else if (!wallet || wallet !== signedInWallet) {
+      console.log('[chat] Wallet is not signed in, the conversation will not be stored');
+    } else {
+      session = await createChatSession(contract.id, wallet, userMessages[0]?.content || 'New conversation');
+      history = userMessages;
+      newMessages = userMessages;
+    }
+    if (session) {
+      console.log(`[chat] Using chat session ${session.id}`);
+    }
+
+    // Each contract function is offered to the model as its own tool, typed by the stored MCP schema
+    const tools = getContractTools(contract) || [];
+    console.log(`[chat] Found contract with ${tools.length} functions`);
 
     // Create a system message with contract information
     const systemMessage = {
-      role: 'system',
-      content: `You are an AI assistant that helps users interact with the Ethereum smart contract at address ${contractAddress} on the ${network || 'mainnet'} network.
+      role: 'system' as const,
+      content: `You are an AI assistant that helps users interact with the smart contract at address ${contractAddress} on ${networkConfig.name} (chain ID ${networkConfig.chainId}, native currency ${networkConfig.nativeCurrency.symbol}).
       
-The user's wallet address is ${walletAddress || user?.wallet?.address}. ${user ? `The user's object is ${user}.` : ''}
+${wallet
+  ? `The user's wallet address is ${wallet}.`
+  : 'The user has not connected a wallet, so state-changing functions cannot be signed. Tell the user to connect a wallet to send transactions.'}
+
+You have access to the contract's functions as tools, one tool per function. When a user wants to execute a function, call the matching tool with its arguments.
 
-You have access to the contract's functions through the function calling API. When a user wants to execute a function, use the appropriate function call.
+Read-only functions are executed for you and their results are returned as tool results, so you can call several functions and combine their results before answering. State-changing functions are sent to the user's wallet to review and sign; explain that they require a transaction and gas fees.
 
-For read-only functions, you can execute them directly. For state-changing functions, explain that they require a transaction and gas fees.
+If an earlier action failed with a revert reason, panic code or custom error, explain in plain language what went wrong and what the user could change.
 
 Be helpful, concise, and accurate in your responses.`,
     };
 
-    // Combine the system message with the user messages
-    const combinedMessages = [systemMessage, ...messages];
-
-    console.log('[chat] Calling OpenAI API with function definitions');
-    
-    // Call the OpenAI API with the combined messages and functions
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: combinedMessages,
-      tools: functions.length > 0 ? [
-        {
-          type: 'function',
-          function: {
-            name: 'execute_contract_function',
-            description: 'Execute a function on the smart contract',
-            parameters: {
-              type: 'object',
-              properties: {
-                action: {
-                  type: 'string',
-                  description: 'The name of the function to execute',
-                  enum: mcpSchema.map((func: any) => func.name),
-                },
-                parameters: {
-                  type: 'object',
-                  description: 'The parameters for the function call',
-                },
-              },
-              required: ['action', 'parameters'],
-            },
-          },
-        },
-      ] : undefined,
-      tool_choice: 'auto',
-    });
+    // The step limit can be lowered per request but not raised above the server's limit
+    const stepLimit = Number(process.env.CHAT_MAX_AGENT_STEPS) || DEFAULT_MAX_AGENT_STEPS;
+    const maxSteps = Math.max(1, Math.min(Number(req.body.maxSteps) || stepLimit, stepLimit));
+
+    const loopOptions = {
+      provider,
+      model: modelSettings.chatModel,
+      messages: [systemMessage, ...history],
+      contract,
+      tools,
+      maxSteps,
+    };
 
-    const assistantMessage = response.choices[0].message;
-    console.log('[chat] Received response from OpenAI');
+    // Streaming clients receive the loop's events as server-sent events, ending with `done` or `error`
+    if (req.body.stream) {
+      console.log(`[chat] Streaming agent loop on ${provider.id} ${modelSettings.chatModel} with up to ${maxSteps} steps`);
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'Content-Encoding': 'none',
+        'X-Accel-Buffering': 'no',
+      });
+
+      const sendEvent = (event: AgentEvent) => {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
 
-    // Check if there's a function call in the response
-    if (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
-      const toolCall = assistantMessage.tool_calls[0];
-      
-      if (toolCall.function.name === 'execute_contract_function') {
-        try {
-          const functionArgs = JSON.parse(toolCall.function.arguments);
-          console.log(`[chat] Function call detected: ${functionArgs.action}`);
-          
-          // Return both the message content and the function call
-          return res.status(200).json({
-            role: 'assistant',
-            content: assistantMessage.content || "I'll execute this function for you.",
-            functionCall: {
-              action: functionArgs.action,
-              parameters: functionArgs.parameters,
-            },
-          });
-        } catch (error) {
-          console.error('[chat] Error parsing function arguments:', error);
+      try {
+        if (session) {
+          sendEvent({ type: 'session', sessionId: session.id });
         }
+        const result = await runAgentLoop({ ...loopOptions, onEvent: sendEvent });
+        console.log(`[chat] Agent loop finished after ${result.steps.length} steps`);
+        if (session) {
+          await saveTurn(session.id, newMessages, result.steps);
+        }
+        sendEvent({ type: 'done', result });
+      } catch (error: any) {
+        console.error('[chat] Streaming error:', error);
+        sendEvent({ type: 'error', error: error.message || 'An error occurred' });
       }
+      return res.end();
+    }
+
+    console.log(`[chat] Running agent loop on ${provider.id} ${modelSettings.chatModel} with up to ${maxSteps} steps`);
+    const result = await runAgentLoop(loopOptions);
+    console.log(`[chat] Agent loop finished after ${result.steps.length} steps`);
+    if (session) {
+      await saveTurn(session.id, newMessages, result.steps);
     }
 
-    // If no function call or error parsing, just return the message content
     return res.status(200).json({
+      sessionId: session?.id ?? null,
       role: 'assistant',
-      content: assistantMessage.content,
+      content: result.content,
+      steps: result.steps,
+      pendingActions: result.pendingActions,
+      stepLimitReached: result.stepLimitReached,
     });
   } catch (error: any) {
     console.error('[chat] API error:', error);
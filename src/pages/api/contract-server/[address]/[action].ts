@@ -1,17 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import prisma from '@/lib/prisma';
-import { ethers } from 'ethers';
-
-// Define interfaces for our API
-interface ContractFunction {
-  name: string;
-  description: string;
-  parameters: {
-    type: string;
-    properties: Record<string, any>;
-    required: string[];
-  };
-}
+import { findContract, getQueryString, LOOKUP_ERROR_STATUS } from '@/lib/contract-lookup';
+import { executeContractAction, EXECUTION_ERROR_STATUS } from '@/lib/contract-executor';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   console.log(`[contract-server/address/action] Received ${req.method} request`);
@@ -35,8 +24,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Extract path parameters
     const { address, action } = req.query;
     
-    // Extract query parameters
-    const { schemaType } = req.query;
+    // Extract query parameters. `network` or `contractId` pick between contracts sharing an address;
+    // `from` and `value` are only used to build transactions.
+    const { network, contractId, schemaType, from, value } = req.query;
     
     // Validate required parameters
     if (!address || typeof address !== 'string') {
@@ -51,166 +41,37 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'Schema type must be either "mcp" or "gpt"' });
     }
 
-    console.log(`[contract-server/address/action] Looking up contract with address: ${address}`);
+    console.log(`[contract-server/address/action] Looking up contract with address: ${address}${network ? ` on ${network}` : ''}`);
     
-    // Find the contract by address
-    const contract = await prisma.smartContract.findFirst({
-      where: { address: { equals: address, mode: 'insensitive' } },
+    // Resolve the contract by id or by (network, address); a bare address must match exactly one contract
+    const lookup = await findContract({
+      address,
+      network: getQueryString(network),
+      contractId: getQueryString(contractId),
     });
 
-    if (!contract) {
-      console.log(`[contract-server/address/action] Contract not found with address: ${address}`);
-      return res.status(404).json({ error: 'Contract not found' });
+    if (lookup.status !== 'found') {
+      console.log(`[contract-server/address/action] ${lookup.error}`);
+      return res.status(LOOKUP_ERROR_STATUS[lookup.status]).json(lookup);
     }
 
-    // Get the appropriate schema based on the schemaType
-    const schema = schemaType === 'mcp' ? contract.mcpSchema : contract.gptActionSchema;
-    
-    if (!schema) {
-      console.log(`[contract-server/address/action] ${schemaType.toUpperCase()} schema not found for contract: ${address}`);
-      return res.status(404).json({ error: `${schemaType.toUpperCase()} schema not found for this contract` });
-    }
+    const { contract } = lookup;
 
-    // Parse the schema
-    const parsedSchema = JSON.parse(schema);
-    
-    // Find the requested action in the schema
-    let actionSchema: ContractFunction | null = null;
-    
-    if (schemaType === 'mcp') {
-      actionSchema = parsedSchema.find((item: any) => item.name === action);
-    } else {
-      // For GPT schema, the structure is different
-      const gptAction = parsedSchema.find((item: any) => 
-        item.function && item.function.name === action
-      );
-      actionSchema = gptAction ? gptAction.function : null;
-    }
-    
-    if (!actionSchema) {
-      console.log(`[contract-server/address/action] Action not found: ${action}`);
-      return res.status(404).json({ error: `Action "${action}" not found` });
-    }
-    
-    // Get the parameters from the request body
-    const params = req.body;
-    
-    // Validate required parameters
-    const requiredParams = actionSchema.parameters.required;
-    const missingParams = requiredParams.filter(param => params[param] === undefined);
-    
-    if (missingParams.length > 0) {
-      console.log(`[contract-server/address/action] Missing required parameters: ${missingParams.join(', ')}`);
-      return res.status(400).json({ 
-        error: 'Missing required parameters', 
-        missingParams 
-      });
-    }
+    const execution = await executeContractAction(contract, {
+      action,
+      params: req.body || {},
+      schemaType,
+      from: typeof from === 'string' ? from : undefined,
+      value: typeof value === 'string' ? value : undefined,
+    });
     
-    // Initialize ethers provider based on the network
-    let provider;
-    try {
-      // Use appropriate provider based on network
-      if (contract.network === 'mainnet') {
-        provider = new ethers.providers.JsonRpcProvider(
-          process.env.MAINNET_RPC_URL || 'https://eth-mainnet.g.alchemy.com/v2/demo'
-        );
-      } else if (contract.network === 'goerli') {
-        provider = new ethers.providers.JsonRpcProvider(
-          process.env.GOERLI_RPC_URL || 'https://eth-goerli.g.alchemy.com/v2/demo'
-        );
-      } else if (contract.network === 'sepolia') {
-        provider = new ethers.providers.JsonRpcProvider(
-          process.env.SEPOLIA_RPC_URL || 'https://eth-sepolia.g.alchemy.com/v2/demo'
-        );
-      } else {
-        // Default to mainnet
-        provider = new ethers.providers.JsonRpcProvider(
-          process.env.MAINNET_RPC_URL || 'https://eth-mainnet.g.alchemy.com/v2/demo'
-        );
-      }
-    } catch (error) {
-      console.error('[contract-server/address/action] Error initializing provider:', error);
-      return res.status(500).json({ error: 'Failed to initialize blockchain provider' });
+    if (!execution.success) {
+      console.log(`[contract-server/address/action] Action ${action} failed: ${execution.error}`);
+      return res.status(EXECUTION_ERROR_STATUS[execution.code]).json(execution);
     }
     
-    // Initialize contract instance
-    try {
-      const contractInstance = new ethers.Contract(contract.address, JSON.parse(contract.abiJson), provider);
-      
-      // Check if the function exists on the contract
-      if (!contractInstance.functions[action]) {
-        console.log(`[contract-server/address/action] Function not found on contract: ${action}`);
-        return res.status(404).json({ error: `Function "${action}" not found on contract` });
-      }
-      
-      // Determine if the function is read-only or state-changing
-      const isStateChanging = !actionSchema.description.includes('does not modify blockchain state');
-      
-      if (isStateChanging) {
-        console.log(`[contract-server/address/action] State-changing operation requested: ${action}`);
-        // For state-changing operations, we would need a signer
-        // This is just a simulation endpoint, so we return a message
-        return res.status(200).json({ 
-          simulation: true,
-          message: 'This is a simulation of a state-changing operation. In a production environment, this would require a signer with ETH to pay for gas.',
-          function: action,
-          parameters: params,
-          estimatedGas: 'Not calculated in simulation mode'
-        });
-      } else {
-        // For read-only functions, we can call them directly
-        console.log(`[contract-server/address/action] Calling read-only function: ${action}`);
-        
-        // Extract the parameters in the correct order
-        const functionParams = requiredParams.map(param => params[param]);
-        
-        // Call the contract function
-        const result = await contractInstance[action](...functionParams);
-        
-        // Format the result for better readability
-        let formattedResult = result;
-        
-        // Handle BigNumber results
-        if (ethers.BigNumber.isBigNumber(result)) {
-          formattedResult = {
-            type: 'BigNumber',
-            hex: result.toHexString(),
-            decimal: result.toString(),
-            formatted: ethers.utils.formatUnits(result, 0)
-          };
-        }
-        
-        // Handle array results
-        if (Array.isArray(result)) {
-          formattedResult = result.map(item => {
-            if (ethers.BigNumber.isBigNumber(item)) {
-              return {
-                type: 'BigNumber',
-                hex: item.toHexString(),
-                decimal: item.toString(),
-                formatted: ethers.utils.formatUnits(item, 0)
-              };
-            }
-            return item;
-          });
-        }
-        
-        console.log(`[contract-server/address/action] Function call successful: ${action}`);
-        return res.status(200).json({ 
-          success: true, 
-          function: action,
-          parameters: params,
-          result: formattedResult
-        });
-      }
-    } catch (error: any) {
-      console.error(`[contract-server/address/action] Error calling contract function ${action}:`, error);
-      return res.status(500).json({ 
-        error: `Failed to call contract function "${action}"`,
-        details: error?.message || String(error)
-      });
-    }
+    console.log(`[contract-server/address/action] Action ${action} succeeded (${execution.kind})`);
+    return res.status(200).json(execution);
   } catch (error: any) {
     console.error('[contract-server/address/action] Unexpected error:', error);
     return res.status(500).json({ 
@@ -1,6 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import prisma from '@/lib/prisma';
-import { ethers } from 'ethers';
+import { findContract, getQueryString, LOOKUP_ERROR_STATUS } from '@/lib/contract-lookup';
+import { listContractActions } from '@/lib/contract-executor';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   console.log(`[contract-server/address] Received ${req.method} request`);
@@ -24,8 +24,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Extract path parameters
     const { address } = req.query;
     
-    // Extract query parameters
-    const { schemaType } = req.query;
+    // Extract query parameters. `network` or `contractId` pick between contracts sharing an address.
+    const { network, contractId, schemaType } = req.query;
     
     // Validate required parameters
     if (!address || typeof address !== 'string') {
@@ -36,39 +36,30 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'Schema type must be either "mcp" or "gpt"' });
     }
 
-    console.log(`[contract-server/address] Looking up contract with address: ${address}`);
+    console.log(`[contract-server/address] Looking up contract with address: ${address}${network ? ` on ${network}` : ''}`);
     
-    // Find the contract by address
-    const contract = await prisma.smartContract.findFirst({
-      where: { address: { equals: address, mode: 'insensitive' } },
+    // Resolve the contract by id or by (network, address); a bare address must match exactly one contract
+    const lookup = await findContract({
+      address,
+      network: getQueryString(network),
+      contractId: getQueryString(contractId),
     });
 
-    if (!contract) {
-      console.log(`[contract-server/address] Contract not found with address: ${address}`);
-      return res.status(404).json({ error: 'Contract not found' });
+    if (lookup.status !== 'found') {
+      console.log(`[contract-server/address] ${lookup.error}`);
+      return res.status(LOOKUP_ERROR_STATUS[lookup.status]).json(lookup);
     }
 
-    // Get the appropriate schema based on the schemaType
+    const { contract } = lookup;
+
+    // Get the schema as stored and the actions it exposes
     const schema = schemaType === 'mcp' ? contract.mcpSchema : contract.gptActionSchema;
+    const availableActions = listContractActions(contract, schemaType);
     
-    if (!schema) {
+    if (!schema || !availableActions) {
       console.log(`[contract-server/address] ${schemaType.toUpperCase()} schema not found for contract: ${address}`);
       return res.status(404).json({ error: `${schemaType.toUpperCase()} schema not found for this contract` });
     }
-
-    // Parse the schema
-    const parsedSchema = JSON.parse(schema);
-    
-    // Extract function names for easier reference
-    const availableActions = parsedSchema.map((item: any) => {
-      // Handle different schema formats
-      const func = schemaType === 'gpt' ? item.function : item;
-      return {
-        name: func.name,
-        description: func.description,
-        parameters: func.parameters.required
-      };
-    });
     
     console.log(`[contract-server/address] Returning schema for contract: ${address}`);
     return res.status(200).json({
@@ -77,7 +68,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         name: contract.name,
         network: contract.network
       },
-      schema: parsedSchema,
+      schema: JSON.parse(schema),
       availableActions
     });
   } catch (error: any) {
@@ -0,0 +1,91 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@/util/supabase/api';
+import prisma from '@/lib/prisma';
+import { queryIndexedEvents } from '@/lib/event-indexer';
+
+// Query parameters that are not argument filters
+const QUERY_PARAMS = ['id', 'event', 'fromBlock', 'toBlock', 'limit', 'cursor'];
+
+const toOptionalInteger = (value: string | string[] | undefined): number | undefined | null => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+};
+
+/**
+ * Indexed events of a contract, oldest first
+ * Query: event (name or signature), fromBlock, toBlock, limit, cursor; any other parameter filters by that argument.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Get the user from the request
+  const supabase = createClient(req, res);
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    console.error('Authentication error:', authError);
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { id, event, cursor } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Contract ID is required' });
+  }
+
+  const fromBlock = toOptionalInteger(req.query.fromBlock);
+  const toBlock = toOptionalInteger(req.query.toBlock);
+  const limit = toOptionalInteger(req.query.limit);
+  if (fromBlock === null || toBlock === null || limit === null) {
+    return res.status(400).json({ error: 'fromBlock, toBlock and limit must be non-negative integers' });
+  }
+
+  const filters = Object.fromEntries(
+    Object.entries(req.query).filter(([key, value]) => !QUERY_PARAMS.includes(key) && typeof value === 'string')
+  );
+
+  try {
+    const contract = await prisma.smartContract.findUnique({
+      where: { id },
+      include: { project: true, eventIndexer: true },
+    });
+
+    if (!contract) {
+      return res.status(404).json({ error: 'Contract not found' });
+    }
+
+    // Check if the contract belongs to the user
+    if (contract.project.userId !== user.id) {
+      return res.status(403).json({ error: 'You do not have permission to access this contract' });
+    }
+
+    if (!contract.eventIndexer) {
+      return res.status(404).json({ error: 'Event indexing is not enabled for this contract' });
+    }
+
+    const queried = await queryIndexedEvents(contract, {
+      event: typeof event === 'string' ? event : undefined,
+      filters,
+      fromBlock,
+      toBlock,
+      limit,
+      cursor: typeof cursor === 'string' ? cursor : undefined,
+    });
+
+    if (!queried.success) {
+      return res.status(400).json({ error: queried.error, details: queried.details });
+    }
+
+    return res.status(200).json({
+      ...queried.page,
+      lastIndexedBlock: contract.eventIndexer.lastIndexedBlock,
+      status: contract.eventIndexer.status,
+    });
+  } catch (error) {
+    console.error('Error querying indexed events:', error);
+    return res.status(500).json({ error: 'Failed to query indexed events' });
+  }
+}
@@ -1,7 +1,8 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { createClient } from '@/util/supabase/api';
 import prisma from '@/lib/prisma';
-import { abiToMCPSchema, abiToGPTActionSchema } from '@/lib/abi-to-mcp';
+import { abiToMCPSchema, abiToGPTActionSchema, normalizeToolPolicy } from '@/lib/abi-to-mcp';
+import { validateMCPTools } from '@/lib/validate-mcp-schema';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Get the user from the request
@@ -42,11 +43,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Get custom function descriptions if available
     const customFunctionDescriptions = contract.customFunctionDescriptions as any || {};
 
+    // Limit the exposed functions to the contract's tool policy, if one is set
+    const toolPolicy = contract.toolPolicy ? normalizeToolPolicy(contract.toolPolicy) : null;
+
     // Generate MCP schema with custom descriptions
-    const mcpSchema = abiToMCPSchema(contract.abiJson, customFunctionDescriptions);
+    const mcpSchema = abiToMCPSchema(contract.abiJson, customFunctionDescriptions, { toolPolicy });
+
+    // Refuse to save tool definitions that MCP clients would reject
+    const validationErrors = validateMCPTools(JSON.parse(mcpSchema));
+    if (validationErrors.length > 0) {
+      console.error('Generated MCP schema is invalid:', validationErrors);
+      return res.status(422).json({ error: 'Generated MCP schema is invalid', details: validationErrors });
+    }
     
     // Generate GPT Action schema with custom descriptions
-    const gptActionSchema = abiToGPTActionSchema(contract.abiJson, customFunctionDescriptions);
+    const gptActionSchema = abiToGPTActionSchema(contract.abiJson, customFunctionDescriptions, toolPolicy);
 
     // Update the contract with the generated schemas
     const updatedContract = await prisma.smartContract.update({
@@ -1,7 +1,17 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { createClient } from '@/util/supabase/api';
 import prisma from '@/lib/prisma';
-import { generateServerFiles } from '@/lib/generate-server';
+import { GeneratableContract, generateServerFiles } from '@/lib/generate-server';
+import { generatePythonServerFiles } from '@/lib/generate-python-server';
+import { generateClientFiles } from '@/lib/generate-client';
+import { getNetwork } from '@/lib/networks';
+
+// Bundles that can be downloaded, selected by the `target` query parameter: MCP servers or a typed client
+const SERVER_GENERATORS: Record<string, (contract: GeneratableContract) => Record<string, string>> = {
+  typescript: generateServerFiles,
+  python: generatePythonServerFiles,
+  client: generateClientFiles,
+};
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Get the user from the request
@@ -18,12 +28,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { id } = req.query;
+    const { id, target = 'typescript' } = req.query;
     
     if (!id || typeof id !== 'string') {
       return res.status(400).json({ error: 'Contract ID is required' });
     }
 
+    if (typeof target !== 'string' || !Object.prototype.hasOwnProperty.call(SERVER_GENERATORS, target)) {
+      return res.status(400).json({ error: `Unsupported server target: ${target}` });
+    }
+
     // Get the contract
     const contract = await prisma.smartContract.findUnique({
       where: { id },
@@ -44,12 +58,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'MCP schema not generated yet. Please generate schemas first.' });
     }
 
+    if (!getNetwork(contract.network)) {
+      return res.status(400).json({ error: `Unsupported network: ${contract.network}` });
+    }
+
     // Generate server files
-    const serverFiles = generateServerFiles(
-      contract.mcpSchema,
-      contract.address,
-      contract.name || 'SmartContract'
-    );
+    const serverFiles = SERVER_GENERATORS[target](contract);
 
     // Return the generated files
     return res.status(200).json({
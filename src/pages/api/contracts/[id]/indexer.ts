@@ -0,0 +1,110 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@/util/supabase/api';
+import prisma from '@/lib/prisma';
+import { findDeploymentBlock } from '@/lib/event-indexer';
+import { getProvider } from '@/lib/rpc-provider';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Get the user from the request
+  const supabase = createClient(req, res);
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    console.error('Authentication error:', authError);
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Contract ID is required' });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const contract = await prisma.smartContract.findUnique({
+      where: { id },
+      include: { project: true, eventIndexer: true },
+    });
+
+    if (!contract) {
+      return res.status(404).json({ error: 'Contract not found' });
+    }
+
+    // Check if the contract belongs to the user
+    if (contract.project.userId !== user.id) {
+      return res.status(403).json({ error: 'You do not have permission to access this contract' });
+    }
+
+    // GET: Retrieve the indexer and how many events it has stored
+    if (req.method === 'GET') {
+      const indexedEvents = contract.eventIndexer
+        ? await prisma.indexedEvent.count({ where: { contractId: id } })
+        : 0;
+
+      return res.status(200).json({ indexer: contract.eventIndexer, indexedEvents });
+    }
+
+    // DELETE: Remove the indexer together with its stored events
+    if (req.method === 'DELETE') {
+      await prisma.$transaction([
+        prisma.indexedEvent.deleteMany({ where: { contractId: id } }),
+        prisma.eventIndexer.deleteMany({ where: { contractId: id } }),
+      ]);
+
+      return res.status(204).end();
+    }
+
+    // PUT: Enable or disable the indexer. Without a start block, indexing starts at the deployment block.
+    const { enabled, startBlock } = req.body;
+
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled must be a boolean' });
+    }
+
+    if (startBlock !== undefined && (!Number.isInteger(startBlock) || startBlock < 0)) {
+      return res.status(400).json({ error: 'startBlock must be a non-negative block number' });
+    }
+
+    let start: number | undefined = startBlock ?? contract.eventIndexer?.startBlock;
+    if (start === undefined) {
+      try {
+        start = await findDeploymentBlock(getProvider(contract.network), contract.address);
+      } catch (error: any) {
+        console.error('Error finding deployment block:', error);
+        return res.status(422).json({
+          error: 'Could not find the deployment block; provide a startBlock',
+          details: error?.message || String(error),
+        });
+      }
+    }
+
+    // A new start block invalidates what was indexed so far
+    const restart = start !== contract.eventIndexer?.startBlock;
+    const indexer = await prisma.$transaction(async (tx) => {
+      if (restart) {
+        await tx.indexedEvent.deleteMany({ where: { contractId: id } });
+      }
+
+      return tx.eventIndexer.upsert({
+        where: { contractId: id },
+        create: { contractId: id, enabled, startBlock: start! },
+        update: {
+          enabled,
+          ...(restart
+            ? { startBlock: start, lastIndexedBlock: null, lastIndexedBlockHash: null, status: 'backfilling', error: null }
+            : {}),
+        },
+      });
+    });
+
+    console.log(`[indexer] ${enabled ? 'Enabled' : 'Disabled'} event indexer for contract ${id} from block ${start}`);
+    return res.status(200).json({ indexer });
+  } catch (error) {
+    console.error('Error handling event indexer request:', error);
+    return res.status(500).json({ error: 'Failed to handle event indexer request' });
+  }
+}
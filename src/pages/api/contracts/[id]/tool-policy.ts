@@ -0,0 +1,115 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@/util/supabase/api';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { abiToGPTActionSchema, abiToMCPSchema, normalizeToolPolicy } from '@/lib/abi-to-mcp';
+import { validateMCPTools } from '@/lib/validate-mcp-schema';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Get the user from the request
+  const supabase = createClient(req, res);
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    console.error('Authentication error:', authError);
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Contract ID is required' });
+  }
+
+  // GET: Retrieve the tool policy
+  if (req.method === 'GET') {
+    try {
+      const contract = await prisma.smartContract.findUnique({
+        where: { id },
+        include: { project: true },
+      });
+
+      if (!contract) {
+        return res.status(404).json({ error: 'Contract not found' });
+      }
+
+      // Check if the contract belongs to the user
+      if (contract.project.userId !== user.id) {
+        return res.status(403).json({ error: 'You do not have permission to access this contract' });
+      }
+
+      return res.status(200).json({
+        toolPolicy: contract.toolPolicy || null,
+      });
+    } catch (error) {
+      console.error('Error retrieving tool policy:', error);
+      return res.status(500).json({ error: 'Failed to retrieve tool policy' });
+    }
+  }
+
+  // PUT: Update the tool policy. A null policy exposes every function.
+  if (req.method === 'PUT') {
+    try {
+      const { toolPolicy } = req.body;
+
+      if (toolPolicy === undefined || (toolPolicy !== null && typeof toolPolicy !== 'object')) {
+        return res.status(400).json({ error: 'Tool policy must be an object or null' });
+      }
+
+      const contract = await prisma.smartContract.findUnique({
+        where: { id },
+        include: { project: true },
+      });
+
+      if (!contract) {
+        return res.status(404).json({ error: 'Contract not found' });
+      }
+
+      // Check if the contract belongs to the user
+      if (contract.project.userId !== user.id) {
+        return res.status(403).json({ error: 'You do not have permission to modify this contract' });
+      }
+
+      const normalizedPolicy = toolPolicy === null ? null : normalizeToolPolicy(toolPolicy);
+
+      // Schemas that have been generated are regenerated under the new policy and saved with it, so the agent,
+      // the MCP endpoint and downloads stop offering a denied function as soon as the policy is saved
+      let schemas: { mcpSchema?: string; gptActionSchema?: string } = {};
+      if (contract.mcpSchema || contract.gptActionSchema) {
+        const customFunctionDescriptions = contract.customFunctionDescriptions as any || {};
+        const mcpSchema = abiToMCPSchema(contract.abiJson, customFunctionDescriptions, { toolPolicy: normalizedPolicy });
+
+        const validationErrors = validateMCPTools(JSON.parse(mcpSchema));
+        if (validationErrors.length > 0) {
+          console.error('Generated MCP schema is invalid:', validationErrors);
+          return res.status(422).json({ error: 'Generated MCP schema is invalid', details: validationErrors });
+        }
+
+        schemas = {
+          mcpSchema,
+          gptActionSchema: abiToGPTActionSchema(contract.abiJson, customFunctionDescriptions, normalizedPolicy),
+        };
+      }
+
+      const updatedContract = await prisma.smartContract.update({
+        where: { id },
+        data: {
+          toolPolicy: normalizedPolicy === null ? Prisma.DbNull : { ...normalizedPolicy },
+          ...schemas,
+        },
+      });
+
+      return res.status(200).json({
+        id: updatedContract.id,
+        toolPolicy: updatedContract.toolPolicy,
+        mcpSchema: updatedContract.mcpSchema,
+        gptActionSchema: updatedContract.gptActionSchema,
+      });
+    } catch (error) {
+      console.error('Error updating tool policy:', error);
+      return res.status(500).json({ error: 'Failed to update tool policy' });
+    }
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
@@ -1,7 +1,14 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { createClient } from '@/util/supabase/api';
+import { Prisma } from '@prisma/client';
 import prisma from '@/lib/prisma';
 import axios from 'axios';
+import { ethers } from 'ethers';
+import { getNetwork, getNetworkKeys, isNetworkEnabledOnServer } from '@/lib/networks';
+
+// Another request can import the same contract between the duplicate check and the insert
+const isDuplicateContractError = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Get the user from the request
@@ -36,15 +43,56 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(404).json({ error: 'Project not found' });
     }
 
+    // Contracts are stored under the registry's canonical network id
+    const networkConfig = getNetwork(network);
+
+    // Retired networks and local nodes the server is not configured for cannot be imported on
+    if (networkConfig && (networkConfig.deprecated || !isNetworkEnabledOnServer(networkConfig))) {
+      return res.status(400).json({ error: `Contracts cannot be imported on ${networkConfig.name}` });
+    }
+
+    // Addresses are stored checksummed, and each contract is imported once per project and network
+    let normalizedAddress = address;
+    if (address && networkConfig) {
+      try {
+        normalizedAddress = ethers.utils.getAddress(address);
+      } catch (e) {
+        return res.status(400).json({ error: `Invalid contract address: ${address}` });
+      }
+
+      const existingContract = await prisma.smartContract.findFirst({
+        where: {
+          projectId,
+          address: { equals: normalizedAddress, mode: 'insensitive' },
+          network: { in: getNetworkKeys(networkConfig) }
+        }
+      });
+
+      if (existingContract) {
+        return res.status(409).json({
+          error: `This contract is already imported on ${networkConfig.name}`,
+          contractId: existingContract.id
+        });
+      }
+    }
+
     // Handle different import methods
     if (importMethod === 'etherscan') {
       if (!etherscanLink || !address || !network) {
         return res.status(400).json({ error: 'Etherscan link, address, and network are required for Etherscan import' });
       }
 
+      if (!networkConfig) {
+        return res.status(400).json({ error: `Unsupported network: ${network}` });
+      }
+
+      if (!networkConfig.explorerApiUrl) {
+        return res.status(400).json({ error: `Explorer import is not available for ${networkConfig.name}. Import the ABI manually instead.` });
+      }
+
       try {
         // Extract contract address from Etherscan link if not provided directly
-        let contractAddress = address;
+        let contractAddress = normalizedAddress;
         
         // Fetch contract data from Etherscan API
         const apiKey = process.env.ETHERSCAN_API_KEY;
@@ -52,19 +100,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           return res.status(500).json({ error: 'Etherscan API key not configured' });
         }
 
-        // Determine the correct Etherscan API URL based on the network
-        let apiUrl = 'https://api.etherscan.io/api';
-        if (network.includes('goerli')) {
-          apiUrl = 'https://api-goerli.etherscan.io/api';
-        } else if (network.includes('sepolia')) {
-          apiUrl = 'https://api-sepolia.etherscan.io/api';
-        } else if (network.includes('polygon')) {
-          apiUrl = 'https://api.polygonscan.com/api';
-        }
+        // The explorer API serves every supported chain, selected by chain ID
+        const apiUrl = networkConfig.explorerApiUrl;
 
         // Fetch ABI
         const abiResponse = await axios.get(apiUrl, {
           params: {
+            chainid: networkConfig.chainId,
             module: 'contract',
             action: 'getabi',
             address: contractAddress,
@@ -82,6 +124,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         // Fetch source code
         const sourceResponse = await axios.get(apiUrl, {
           params: {
+            chainid: networkConfig.chainId,
             module: 'contract',
             action: 'getsourcecode',
             address: contractAddress,
@@ -103,7 +146,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             name: contractName || 'Unnamed Contract',
             address: contractAddress,
             abiJson: fetchedAbiJson,
-            network,
+            network: networkConfig.id,
             sourceCode,
             networkData: sourceResponse.data.result[0],
             importMethod: 'etherscan',
@@ -113,6 +156,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         
         return res.status(201).json(contract);
       } catch (error) {
+        if (isDuplicateContractError(error)) {
+          return res.status(409).json({ error: `This contract is already imported on ${networkConfig.name}` });
+        }
         console.error('Error fetching from Etherscan:', error);
         return res.status(500).json({ error: 'Failed to fetch contract data from Etherscan' });
       }
@@ -122,6 +168,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         return res.status(400).json({ error: 'Address, ABI JSON, and network are required for manual import' });
       }
 
+      if (!networkConfig) {
+        return res.status(400).json({ error: `Unsupported network: ${network}` });
+      }
+
       // Validate ABI JSON
       try {
         JSON.parse(abiJson);
@@ -133,9 +183,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const contract = await prisma.smartContract.create({
         data: {
           name: req.body.name || 'Unnamed Contract',
-          address,
+          address: normalizedAddress,
           abiJson,
-          network,
+          network: networkConfig.id,
           importMethod: 'manual',
           projectId
         }
@@ -146,6 +196,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'Invalid import method' });
     }
   } catch (error) {
+    if (isDuplicateContractError(error)) {
+      return res.status(409).json({ error: 'This contract is already imported on this network' });
+    }
     console.error('Error creating smart contract:', error);
     return res.status(500).json({ error: 'Failed to create smart contract' });
   }
@@ -0,0 +1,30 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { runEventIndexers } from '@/lib/event-indexer';
+
+/**
+ * Runs one pass of every enabled event indexer
+ * Meant to be called on a schedule, e.g. by Vercel Cron, with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return res.status(503).json({ error: 'CRON_SECRET is not configured' });
+  }
+
+  if (req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const results = await runEventIndexers();
+    console.log(`[cron] Ran ${Object.keys(results).length} event indexers`);
+    return res.status(200).json({ results });
+  } catch (error: any) {
+    console.error('Error running event indexers:', error);
+    return res.status(500).json({ error: 'Failed to run event indexers', details: error?.message || String(error) });
+  }
+}
@@ -1,14 +1,32 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import prisma from '@/lib/prisma';
+import { handleMCPMessage, JsonRpcRequest, JsonRpcResponse, JSON_RPC_ERRORS } from '@/lib/mcp-server';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  if (req.method !== 'GET') {
+  // Set CORS headers so browser-based MCP hosts can connect
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Mcp-Session-Id, Mcp-Protocol-Version');
+
+  // Handle OPTIONS request for CORS preflight
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const accept = req.headers.accept || '';
+
+  // This endpoint is stateless, so it never opens a server-initiated SSE stream
+  if (req.method === 'GET' && accept.includes('text/event-stream')) {
+    return res.status(405).json({ error: 'Server-initiated streams are not supported' });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
     const { id } = req.query;
-    
+
     if (!id || typeof id !== 'string') {
       return res.status(400).json({ error: 'Contract ID is required' });
     }
@@ -27,14 +45,48 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(404).json({ error: 'MCP schema not found for this contract' });
     }
 
-    // Set appropriate headers for JSON response
-    res.setHeader('Content-Type', 'application/json');
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    
-    // Return the MCP schema
-    return res.status(200).send(contract.mcpSchema);
+    // Plain GET requests keep returning the raw MCP schema
+    if (req.method === 'GET') {
+      res.setHeader('Content-Type', 'application/json');
+      return res.status(200).send(contract.mcpSchema);
+    }
+
+    // POST requests carry a JSON-RPC message or batch of messages
+    const body = req.body;
+    if (!body || typeof body !== 'object') {
+      return res.status(400).json({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: JSON_RPC_ERRORS.PARSE_ERROR, message: 'Request body must be a JSON-RPC message' },
+      });
+    }
+
+    const messages: JsonRpcRequest[] = Array.isArray(body) ? body : [body];
+    console.log(`[mcp] ${messages.map(message => message.method).join(', ')} for contract: ${id}`);
+
+    const responses = (await Promise.all(
+      messages.map(message => handleMCPMessage(contract, message))
+    )).filter((response): response is JsonRpcResponse => response !== null);
+
+    // Batches made up only of notifications and responses are acknowledged without a body
+    if (responses.length === 0) {
+      return res.status(202).end();
+    }
+
+    const payload = Array.isArray(body) ? responses : responses[0];
+
+    // Clients that only accept event streams get the response as a single SSE event
+    if (accept.includes('text/event-stream') && !accept.includes('application/json')) {
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.status(200);
+      res.write(`event: message\ndata: ${JSON.stringify(payload)}\n\n`);
+      return res.end();
+    }
+
+    return res.status(200).json(payload);
   } catch (error) {
-    console.error('Error serving MCP schema:', error);
-    return res.status(500).json({ error: 'Failed to serve MCP schema' });
+    console.error('Error handling MCP request:', error);
+    return res.status(500).json({ error: 'Failed to handle MCP request' });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,87 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@/util/supabase/api';
+import prisma from '@/lib/prisma';
+import { getLLMProviderInfo, resolveModelSettings } from '@/lib/llm-config';
+
+const MAX_MODEL_NAME_LENGTH = 100;
+
+// Model names are free text: deployments and local models can be named anything
+const isValidModelName = (value: any) =>
+  value === null || (typeof value === 'string' && value.trim() !== '' && value.length <= MAX_MODEL_NAME_LENGTH);
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Get the user from the request
+  const supabase = createClient(req, res);
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    console.error('Authentication error:', authError);
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid project ID' });
+  }
+
+  // Check if the project belongs to the user
+  const project = await prisma.project.findFirst({
+    where: {
+      id,
+      userId: user.id
+    }
+  });
+
+  if (!project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  // GET: Retrieve the model settings, with the values they resolve to on this server
+  if (req.method === 'GET') {
+    return res.status(200).json({
+      llmProvider: project.llmProvider,
+      chatModel: project.chatModel,
+      transcriptionModel: project.transcriptionModel,
+      resolved: resolveModelSettings(project),
+    });
+  }
+
+  // PUT: Update the model settings. Null clears a setting so the server default applies.
+  if (req.method === 'PUT') {
+    try {
+      const { llmProvider = null, chatModel = null, transcriptionModel = null } = req.body;
+
+      if (llmProvider !== null && !getLLMProviderInfo(llmProvider)?.selectable) {
+        return res.status(400).json({ error: `Unsupported LLM provider: ${llmProvider}` });
+      }
+
+      if (!isValidModelName(chatModel) || !isValidModelName(transcriptionModel)) {
+        return res.status(400).json({
+          error: `Model names must be non-empty strings of at most ${MAX_MODEL_NAME_LENGTH} characters, or null`
+        });
+      }
+
+      const updatedProject = await prisma.project.update({
+        where: { id },
+        data: {
+          llmProvider,
+          chatModel: chatModel?.trim() ?? null,
+          transcriptionModel: transcriptionModel?.trim() ?? null,
+        },
+      });
+
+      return res.status(200).json({
+        llmProvider: updatedProject.llmProvider,
+        chatModel: updatedProject.chatModel,
+        transcriptionModel: updatedProject.transcriptionModel,
+        resolved: resolveModelSettings(updatedProject),
+      });
+    } catch (error) {
+      console.error('Error updating model settings:', error);
+      return res.status(500).json({ error: 'Failed to update model settings' });
+    }
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
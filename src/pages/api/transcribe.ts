@@ -1,15 +1,11 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import OpenAI from 'openai';
-import { createReadStream } from 'fs';
 import { IncomingForm } from 'formidable';
 import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
-
-// Configure OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import prisma from '@/lib/prisma';
+import { resolveModelSettings } from '@/lib/llm-config';
+import { getLLMProvider } from '@/lib/llm-provider';
 
 // Disable the default body parser to handle form data
 export const config = {
@@ -45,27 +41,36 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'Audio file is too small or empty' });
     }
     
+    // The project of the contract being used picks the transcription provider and model
+    const contractId = Array.isArray(fields.contractId) ? fields.contractId[0] : fields.contractId;
+    const contract = contractId
+      ? await prisma.smartContract.findUnique({ where: { id: contractId }, include: { project: true } })
+      : null;
+    const { transcriptionProvider, transcriptionModel } = resolveModelSettings(contract?.project);
+    
     try {
-      // Transcribe the audio using OpenAI's latest Whisper model
-      console.log('[transcribe] Sending to OpenAI Whisper API');
-      const transcription = await openai.audio.transcriptions.create({
-        file: createReadStream(file.filepath),
-        model: 'whisper-1', // Using whisper-1 which is the latest available model
-        response_format: 'json',
-        temperature: 0.0, // Lowest temperature for most accurate transcriptions
+      const provider = getLLMProvider(transcriptionProvider);
+      if (!provider.transcribe) {
+        throw new Error(`${transcriptionProvider} does not support transcription`);
+      }
+      
+      console.log(`[transcribe] Sending to ${transcriptionProvider} ${transcriptionModel}`);
+      const text = await provider.transcribe({
+        filePath: file.filepath,
+        model: transcriptionModel,
         language: 'en', // Specify English for better accuracy
         prompt: "This is a conversation about Ethereum smart contracts and blockchain technology.", // Context hint
       });
       
       console.log('[transcribe] Transcription successful');
-      console.log(`[transcribe] Transcribed text: "${transcription.text}"`);
+      console.log(`[transcribe] Transcribed text: "${text}"`);
       
       // Clean up the temporary file
       await fs.unlink(file.filepath);
       
-      return res.status(200).json({ text: transcription.text });
-    } catch (openaiError: any) {
-      console.error('[transcribe] OpenAI API Error:', openaiError);
+      return res.status(200).json({ text });
+    } catch (providerError: any) {
+      console.error('[transcribe] Provider Error:', providerError);
       
       // Clean up the temporary file even if transcription fails
       try {
@@ -74,17 +79,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         console.error('[transcribe] Error deleting temporary file:', unlinkError);
       }
       
-      // Check for specific OpenAI errors
-      if (openaiError.status === 429) {
+      // Check for rate limiting by the provider
+      if (providerError.status === 429) {
         return res.status(429).json({ 
-          error: 'OpenAI API rate limit exceeded. Please try again later.',
-          details: openaiError.message
+          error: 'Transcription rate limit exceeded. Please try again later.',
+          details: providerError.message
         });
       }
       
       return res.status(500).json({ 
-        error: 'Failed to transcribe audio with OpenAI',
-        details: openaiError.message || String(openaiError)
+        error: 'Failed to transcribe audio',
+        details: providerError.message || String(providerError)
       });
     }
   } catch (error: any) {
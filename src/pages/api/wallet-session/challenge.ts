@@ -0,0 +1,24 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { normalizeWalletAddress } from '@/lib/chat-sessions';
+import { createSignInChallenge } from '@/lib/wallet-session';
+
+/**
+ * A sign-in message for the wallet in the `address` query parameter, to be signed and posted to /api/wallet-session
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const address = normalizeWalletAddress(req.query.address);
+  if (!address) {
+    return res.status(400).json({ error: 'A valid wallet address is required' });
+  }
+
+  const challenge = createSignInChallenge(address, req.headers.host || 'localhost');
+  if (!challenge) {
+    return res.status(503).json({ error: 'WALLET_SESSION_SECRET is not configured' });
+  }
+
+  return res.status(200).json(challenge);
+}
@@ -0,0 +1,34 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getWalletSession, setWalletSessionCookie, verifySignIn } from '@/lib/wallet-session';
+
+/**
+ * The caller's wallet session
+ * GET returns the signed-in wallet, POST signs in with a signed challenge from ./challenge, DELETE signs out.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  console.log(`[wallet-session] Received ${req.method} request`);
+
+  if (req.method === 'GET') {
+    return res.status(200).json({ address: getWalletSession(req) });
+  }
+
+  if (req.method === 'DELETE') {
+    setWalletSessionCookie(res, null);
+    return res.status(204).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { message, signature } = req.body || {};
+  const result = verifySignIn(message, signature);
+  if (!result.success) {
+    console.log(`[wallet-session] Sign-in rejected: ${result.error}`);
+    return res.status(401).json({ error: result.error });
+  }
+
+  setWalletSessionCookie(res, result.token, result.expiresAt);
+  console.log(`[wallet-session] Signed in ${result.address}`);
+  return res.status(200).json({ address: result.address });
+}
@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
 import { GetServerSideProps } from 'next';
 import { useRouter } from 'next/router';
-import prisma from '@/lib/prisma';
+import { ContractMatch, findContract, getQueryString } from '@/lib/contract-lookup';
 import { RainbowKitProvider } from '@/components/RainbowKitProvider';
 import { MCPClient } from '@/components/MCPClient';
+import { useWagmiWalletAdapter } from '@/hooks/useWagmiWalletAdapter';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import '@rainbow-me/rainbowkit/styles.css';
@@ -17,9 +18,25 @@ interface PreviewPageProps {
     mcpSchema: string | null;
   } | null;
   error?: string;
+  // Contracts sharing the requested address, when the URL does not pick one
+  matches?: ContractMatch[];
 }
 
-export default function PreviewPage({ contract, error }: PreviewPageProps) {
+// Chat client signing with wagmi - must be inside RainbowKitProvider
+function PreviewClient({ contract }: { contract: NonNullable<PreviewPageProps['contract']> }) {
+  const wallet = useWagmiWalletAdapter();
+  
+  return (
+    <MCPClient 
+      contractAddress={contract.address} 
+      network={contract.network}
+      contractId={contract.id}
+      wallet={wallet}
+    />
+  );
+}
+
+export default function PreviewPage({ contract, error, matches }: PreviewPageProps) {
   const router = useRouter();
   
   if (error) {
@@ -31,6 +48,17 @@ export default function PreviewPage({ contract, error }: PreviewPageProps) {
           </CardHeader>
           <CardContent>
             <p>{error}</p>
+            {matches && matches.length > 0 && (
+              <ul className="mt-4 space-y-2">
+                {matches.map((match) => (
+                  <li key={match.id}>
+                    <a href={`?contractId=${match.id}`} className="text-primary hover:underline">
+                      {match.name || 'Smart Contract'} on {match.networkName}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -68,10 +96,7 @@ export default function PreviewPage({ contract, error }: PreviewPageProps) {
               Connect your wallet to use the voice-assisted MCP client.
             </p>
             <Separator className="my-4" />
-            <MCPClient 
-              contractAddress={contract.address} 
-              network={contract.network} 
-            />
+            <PreviewClient contract={contract} />
           </CardContent>
         </Card>
       </div>
@@ -81,6 +106,7 @@ export default function PreviewPage({ contract, error }: PreviewPageProps) {
 
 export const getServerSideProps: GetServerSideProps = async (context) => {
   const { address } = context.params || {};
+  const { network, contractId } = context.query;
   
   if (!address || typeof address !== 'string') {
     return {
@@ -92,29 +118,26 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
   }
   
   try {
-    // Find the contract by address
-    const contract = await prisma.smartContract.findFirst({
-      where: { 
-        address: { equals: address, mode: 'insensitive' },
-      },
-      select: {
-        id: true,
-        name: true,
-        address: true,
-        network: true,
-        mcpSchema: true,
-      },
+    // Find the contract by id or by (network, address); a bare address must match exactly one contract
+    const lookup = await findContract({
+      address,
+      network: getQueryString(network),
+      contractId: getQueryString(contractId),
     });
     
-    if (!contract) {
+    if (lookup.status !== 'found') {
       return {
         props: {
           contract: null,
-          error: `Contract not found with address: ${address}`,
+          error: lookup.error,
+          ...(lookup.status === 'ambiguous' ? { matches: lookup.matches } : {}),
         },
       };
     }
     
+    const { id, name, address: contractAddress, network: contractNetwork, mcpSchema } = lookup.contract;
+    const contract = { id, name, address: contractAddress, network: contractNetwork, mcpSchema };
+    
     if (!contract.mcpSchema) {
       return {
         props: {
@@ -13,6 +13,9 @@ import { useToast } from '@/components/ui/use-toast';
 import { ArrowLeft, PlusCircle, Trash2, Edit, ExternalLink, Code, Download, Server } from 'lucide-react';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import axios from 'axios';
+import ToolPolicyEditor from '@/components/ToolPolicyEditor';
+import ModelSettingsDialog from '@/components/ModelSettingsDialog';
+import { DEFAULT_NETWORK, getExplorerAddressUrl, getNetwork, getSelectableNetworks } from '@/lib/networks';
 
 interface SmartContract {
   id: string;
@@ -26,6 +29,7 @@ interface SmartContract {
   mcpSchema?: string | null;
   gptActionSchema?: string | null;
   customFunctionDescriptions?: any;
+  toolPolicy?: any;
   createdAt: string;
   updatedAt: string;
 }
@@ -53,7 +57,7 @@ export default function ProjectDetail() {
   // Form states
   const [etherscanLink, setEtherscanLink] = useState('');
   const [contractAddress, setContractAddress] = useState('');
-  const [contractNetwork, setContractNetwork] = useState('ethereum');
+  const [contractNetwork, setContractNetwork] = useState(DEFAULT_NETWORK);
   const [contractName, setContractName] = useState('');
   const [abiJson, setAbiJson] = useState('');
 
@@ -162,7 +166,7 @@ export default function ProjectDetail() {
       // Reset form
       setEtherscanLink('');
       setContractAddress('');
-      setContractNetwork('ethereum');
+      setContractNetwork(DEFAULT_NETWORK);
       setContractName('');
       setAbiJson('');
       setImportDialogOpen(false);
@@ -207,16 +211,56 @@ export default function ProjectDetail() {
   };
 
   const getNetworkExplorerUrl = (network: string, address: string) => {
-    const networkMap: Record<string, string> = {
-      'ethereum': 'https://etherscan.io/address/',
-      'goerli': 'https://goerli.etherscan.io/address/',
-      'sepolia': 'https://sepolia.etherscan.io/address/',
-      'polygon': 'https://polygonscan.com/address/',
-      'polygon-mumbai': 'https://mumbai.polygonscan.com/address/',
-    };
+    const networkConfig = getNetwork(network) || getNetwork(DEFAULT_NETWORK)!;
+    return getExplorerAddressUrl(networkConfig, address);
+  };
+
+  // Zip name suffix for each downloadable bundle
+  const downloadNames = {
+    typescript: 'mcp-server',
+    python: 'mcp-server-python',
+    client: 'client',
+  };
 
-    const baseUrl = networkMap[network] || 'https://etherscan.io/address/';
-    return `${baseUrl}${address}`;
+  const handleDownloadServer = async (contract: SmartContract, target: keyof typeof downloadNames) => {
+    try {
+      const response = await axios.get(`/api/contracts/${contract.id}/generate-server`, { params: { target } });
+      
+      // Create a zip file from the server files
+      const JSZip = (await import('jszip')).default;
+      const zip = new JSZip();
+      
+      // Add files to the zip
+      const files = response.data.files;
+      Object.entries(files).forEach(([path, content]) => {
+        zip.file(path, content as string);
+      });
+      
+      // Generate the zip file
+      const zipBlob = await zip.generateAsync({ type: 'blob' });
+      
+      // Create a download link
+      const url = URL.createObjectURL(zipBlob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${contract.name || 'contract'}-${downloadNames[target]}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      
+      toast({
+        title: 'Success',
+        description: target === 'client' ? 'Client code generated and downloaded' : 'Server code generated and downloaded',
+      });
+    } catch (error) {
+      console.error('Error generating server:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: target === 'client' ? 'Failed to generate client code' : 'Failed to generate server code',
+      });
+    }
   };
 
   if (loading) {
@@ -268,6 +312,9 @@ export default function ProjectDetail() {
               {project.description && (
                 <p className="text-muted-foreground mt-2">{project.description}</p>
               )}
+              <div className="mt-4">
+                <ModelSettingsDialog projectId={project.id} />
+              </div>
             </div>
             <Dialog open={importDialogOpen} onOpenChange={setImportDialogOpen}>
               <DialogTrigger asChild>
@@ -317,11 +364,9 @@ export default function ProjectDetail() {
                         onChange={(e) => setContractNetwork(e.target.value)}
                         className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
                       >
-                        <option value="ethereum">Ethereum Mainnet</option>
-                        <option value="goerli">Goerli Testnet</option>
-                        <option value="sepolia">Sepolia Testnet</option>
-                        <option value="polygon">Polygon Mainnet</option>
-                        <option value="polygon-mumbai">Polygon Mumbai Testnet</option>
+                        {getSelectableNetworks().map(network => (
+                          <option key={network.id} value={network.id}>{network.name}</option>
+                        ))}
                       </select>
                     </div>
                   </TabsContent>
@@ -353,11 +398,9 @@ export default function ProjectDetail() {
                         onChange={(e) => setContractNetwork(e.target.value)}
                         className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
                       >
-                        <option value="ethereum">Ethereum Mainnet</option>
-                        <option value="goerli">Goerli Testnet</option>
-                        <option value="sepolia">Sepolia Testnet</option>
-                        <option value="polygon">Polygon Mainnet</option>
-                        <option value="polygon-mumbai">Polygon Mumbai Testnet</option>
+                        {getSelectableNetworks().map(network => (
+                          <option key={network.id} value={network.id}>{network.name}</option>
+                        ))}
                       </select>
                     </div>
                     <div className="grid gap-2">
@@ -449,7 +492,7 @@ export default function ProjectDetail() {
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <div>
                           <p className="text-sm font-medium">Network</p>
-                          <p className="text-sm text-muted-foreground">{contract.network}</p>
+                          <p className="text-sm text-muted-foreground">{getNetwork(contract.network)?.name || contract.network}</p>
                         </div>
                         <div>
                           <p className="text-sm font-medium">Import Method</p>
@@ -509,6 +552,40 @@ export default function ProjectDetail() {
                             </div>
                           </AccordionContent>
                         </AccordionItem>
+
+                        <AccordionItem value="tool-policy">
+                          <AccordionTrigger className="text-sm font-medium">
+                            Exposed Functions
+                          </AccordionTrigger>
+                          <AccordionContent>
+                            <div className="space-y-4 pt-2">
+                              <p className="text-sm text-muted-foreground">
+                                Choose which contract functions are available to AI agents as tools.
+                                By default every function is exposed, including getters like name() and totalSupply().
+                              </p>
+
+                              <ToolPolicyEditor
+                                contractId={contract.id}
+                                abiJson={contract.abiJson}
+                                toolPolicy={contract.toolPolicy}
+                                onUpdate={(updatedPolicy, schemas) => {
+                                  // Update the contract in the project state
+                                  setProject(prev => {
+                                    if (!prev) return prev;
+                                    return {
+                                      ...prev,
+                                      contracts: prev.contracts.map(c =>
+                                        c.id === contract.id
+                                          ? { ...c, toolPolicy: updatedPolicy, ...schemas }
+                                          : c
+                                      )
+                                    };
+                                  });
+                                }}
+                              />
+                            </div>
+                          </AccordionContent>
+                        </AccordionItem>
                         
                         <AccordionItem value="mcp">
                           <AccordionTrigger className="text-sm font-medium">
@@ -571,50 +648,31 @@ export default function ProjectDetail() {
                                       variant="outline" 
                                       size="sm"
                                       className="justify-start"
-                                      onClick={async () => {
-                                        try {
-                                          const response = await axios.get(`/api/contracts/${contract.id}/generate-server`);
-                                          
-                                          // Create a zip file from the server files
-                                          const JSZip = (await import('jszip')).default;
-                                          const zip = new JSZip();
-                                          
-                                          // Add files to the zip
-                                          const files = response.data.files;
-                                          Object.entries(files).forEach(([path, content]) => {
-                                            zip.file(path, content as string);
-                                          });
-                                          
-                                          // Generate the zip file
-                                          const zipBlob = await zip.generateAsync({ type: 'blob' });
-                                          
-                                          // Create a download link
-                                          const url = URL.createObjectURL(zipBlob);
-                                          const a = document.createElement('a');
-                                          a.href = url;
-                                          a.download = `${contract.name || 'contract'}-mcp-server.zip`;
-                                          document.body.appendChild(a);
-                                          a.click();
-                                          document.body.removeChild(a);
-                                          URL.revokeObjectURL(url);
-                                          
-                                          toast({
-                                            title: 'Success',
-                                            description: 'Server code generated and downloaded',
-                                          });
-                                        } catch (error) {
-                                          console.error('Error generating server:', error);
-                                          toast({
-                                            variant: 'destructive',
-                                            title: 'Error',
-                                            description: 'Failed to generate server code',
-                                          });
-                                        }
-                                      }}
+                                      onClick={() => handleDownloadServer(contract, 'typescript')}
                                     >
                                       <Download className="mr-2 h-4 w-4" />
                                       Download TypeScript Server
                                     </Button>
+
+                                    <Button 
+                                      variant="outline" 
+                                      size="sm"
+                                      className="justify-start"
+                                      onClick={() => handleDownloadServer(contract, 'python')}
+                                    >
+                                      <Download className="mr-2 h-4 w-4" />
+                                      Download Python Server
+                                    </Button>
+
+                                    <Button 
+                                      variant="outline" 
+                                      size="sm"
+                                      className="justify-start"
+                                      onClick={() => handleDownloadServer(contract, 'client')}
+                                    >
+                                      <Download className="mr-2 h-4 w-4" />
+                                      Download TypeScript Client
+                                    </Button>
                                     
                                     <div className="mt-4">
                                       <div className="flex justify-between items-center">
@@ -628,7 +686,7 @@ export default function ProjectDetail() {
                                             navigator.clipboard.writeText(url);
                                             toast({
                                               title: 'URL Copied',
-                                              description: 'MCP schema URL copied to clipboard',
+                                              description: 'MCP endpoint URL copied to clipboard. Add it to any MCP client as a Streamable HTTP server.',
                                             });
                                           }}
                                         >
@@ -691,7 +749,7 @@ export default function ProjectDetail() {
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => window.open(`/preview/${contract.address}`, '_blank')}
+                              onClick={() => window.open(`/preview/${contract.address}?contractId=${contract.id}`, '_blank')}
                             >
                               <Server className="mr-2 h-4 w-4" />
                               Open Preview
@@ -700,7 +758,7 @@ export default function ProjectDetail() {
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => window.open(`/api/contract-server/${contract.address}`, '_blank')}
+                              onClick={() => window.open(`/api/contract-server/${contract.address}?schemaType=mcp&contractId=${contract.id}`, '_blank')}
                             >
                               <Code className="mr-2 h-4 w-4" />
                               MCP Server
@@ -0,0 +1,67 @@
+/**
+ * Tests for building unsigned transactions
+ * Requests that are invalid on their face are refused before the provider is asked to simulate anything.
+ */
+
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { ABIFunction } from '@/lib/abi-to-mcp';
+import { buildTransaction } from '@/lib/build-transaction';
+
+const DEPOSIT: ABIFunction = {
+  type: 'function',
+  name: 'deposit',
+  stateMutability: 'payable',
+  inputs: [],
+  outputs: [],
+};
+
+const TRANSFER: ABIFunction = {
+  type: 'function',
+  name: 'transfer',
+  stateMutability: 'nonpayable',
+  inputs: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }],
+  outputs: [{ name: '', type: 'bool' }],
+};
+
+const CONTRACT_ADDRESS = '0x0000000000000000000000000000000000000001';
+const FROM = '0x000000000000000000000000000000000000dEaD';
+
+// Any RPC request fails the test: these requests must be refused before reaching the node
+class UnreachableProvider extends ethers.providers.StaticJsonRpcProvider {
+  async send(method: string): Promise<any> {
+    throw new Error(`Unexpected RPC method: ${method}`);
+  }
+}
+
+const provider = new UnreachableProvider('http://localhost:8545', 11155111);
+
+const build = (func: ABIFunction, args: any[], value?: string) =>
+  buildTransaction(provider, CONTRACT_ADDRESS, JSON.stringify([func]), func, args, { from: FROM, value });
+
+describe('buildTransaction', () => {
+  it('refuses a negative value', async () => {
+    expect(await build(DEPOSIT, [], '-1')).toEqual({
+      success: false,
+      reverted: false,
+      error: 'Value cannot be negative',
+    });
+  });
+
+  it('refuses a value that is not an amount of wei', async () => {
+    expect(await build(DEPOSIT, [], '1.5')).toMatchObject({ success: false, reverted: false });
+  });
+
+  it('refuses to send Ether to a function that is not payable', async () => {
+    expect(await build(TRANSFER, [FROM, '1'], '1')).toMatchObject({
+      success: false,
+      reverted: false,
+      error: 'Function "transfer" is not payable and cannot receive Ether',
+    });
+  });
+
+  it('refuses a sender that is not an address', async () => {
+    const result = await buildTransaction(provider, CONTRACT_ADDRESS, JSON.stringify([DEPOSIT]), DEPOSIT, [], { from: 'me' });
+    expect(result).toMatchObject({ success: false, reverted: false });
+  });
+});
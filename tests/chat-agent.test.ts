@@ -0,0 +1,172 @@
+/**
+ * Tests for the chat agent loop, driven by the fake LLM provider
+ * The fake calls a tool when the user writes `call <tool> {...}` and otherwise echoes, so each test sets up the
+ * conversation that leads to the path it checks. Contract calls go to a provider that answers every eth_call with 42.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { abiToMCPSchema } from '@/lib/abi-to-mcp';
+import { AgentEvent, getAgentTools, runAgentLoop } from '@/lib/chat-agent';
+import { getContractTools } from '@/lib/contract-executor';
+import { createFakeProvider } from '@/lib/llm-fake';
+
+vi.mock('@/lib/prisma', () => ({ default: {} }));
+
+vi.mock('@/lib/rpc-provider', async () => {
+  const { ethers } = await import('ethers');
+
+  class CallProvider extends ethers.providers.StaticJsonRpcProvider {
+    async send(method: string): Promise<any> {
+      if (method === 'eth_call') {
+        return ethers.utils.defaultAbiCoder.encode(['uint256'], [42]);
+      }
+      throw new Error(`Unexpected RPC method: ${method}`);
+    }
+  }
+
+  return { getProvider: () => new CallProvider('http://localhost:8545', 11155111) };
+});
+
+const ABI = JSON.stringify([
+  {
+    type: 'function',
+    name: 'balanceOf',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'transfer',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    type: 'function',
+    name: 'deposit',
+    stateMutability: 'payable',
+    inputs: [{ name: 'to', type: 'address' }],
+    outputs: [],
+  },
+]);
+
+const OWNER = '0x000000000000000000000000000000000000dEaD';
+
+const contract = {
+  address: '0x0000000000000000000000000000000000000001',
+  abiJson: ABI,
+  network: 'sepolia',
+  mcpSchema: abiToMCPSchema(ABI),
+  gptActionSchema: null,
+};
+
+const run = async (content: string, maxSteps?: number) => {
+  const events: AgentEvent[] = [];
+  const result = await runAgentLoop({
+    provider: createFakeProvider(),
+    model: 'fake-chat',
+    messages: [{ role: 'system', content: 'You are a test agent.' }, { role: 'user', content }],
+    contract,
+    tools: getContractTools(contract) || [],
+    maxSteps,
+    onEvent: event => events.push(event),
+  });
+  return { result, events };
+};
+
+describe('runAgentLoop', () => {
+  it('returns an answer that calls no tools after one step', async () => {
+    const { result, events } = await run('hello there');
+
+    expect(result.content).toBe('Echo: hello there');
+    expect(result.steps).toEqual([{ step: 1, type: 'message', content: 'Echo: hello there' }]);
+    expect(result.pendingActions).toEqual([]);
+    expect(result.stepLimitReached).toBe(false);
+
+    const streamed = events.flatMap(event => (event.type === 'text' ? [event.delta] : [])).join('');
+    expect(streamed).toBe('Echo: hello there');
+  });
+
+  it('executes read-only calls and feeds their results back to the model', async () => {
+    const { result, events } = await run(`call balanceOf {"owner": "${OWNER}"}`);
+
+    expect(result.steps).toHaveLength(2);
+    expect(result.steps[0]).toMatchObject({
+      step: 1,
+      type: 'tool_call',
+      toolCallId: 'call_fake_1',
+      action: 'balanceOf',
+      parameters: { owner: OWNER },
+      status: 'executed',
+      result: { success: true, kind: 'call' },
+    });
+    expect(result.steps[1]).toMatchObject({ step: 2, type: 'message' });
+    expect(result.content).toContain('Tool results:');
+    expect(result.content).toContain('42');
+    expect(result.pendingActions).toEqual([]);
+
+    expect(events.filter(event => event.type !== 'text').map(event => event.type)).toEqual([
+      'tool_call_start',
+      'tool_call_finish',
+    ]);
+  });
+
+  it('hands state-changing calls to the wallet instead of executing them', async () => {
+    const parameters = { to: OWNER, amount: '1000' };
+    const { result } = await run(`call transfer ${JSON.stringify(parameters)}`);
+
+    expect(result.steps[0]).toMatchObject({ type: 'tool_call', action: 'transfer', status: 'needs_signature' });
+    expect(result.pendingActions).toEqual([{ action: 'transfer', parameters }]);
+    expect(result.content).toContain('awaiting_signature');
+  });
+
+  it('offers payable functions an amount of wei and proposes it with the transaction', async () => {
+    const deposit = getAgentTools(getContractTools(contract) || [], contract)
+      .find(tool => tool.function.name === 'deposit');
+    expect(deposit?.function.parameters).toMatchObject({
+      properties: { to: { type: 'string' }, value: { type: 'string' } },
+      required: ['to'],
+    });
+
+    const { result } = await run(`call deposit {"to": "${OWNER}", "value": "1000000000000000"}`);
+
+    expect(result.steps[0]).toMatchObject({
+      type: 'tool_call',
+      action: 'deposit',
+      parameters: { to: OWNER },
+      value: '1000000000000000',
+      status: 'needs_signature',
+    });
+    expect(result.pendingActions).toEqual([
+      { action: 'deposit', parameters: { to: OWNER }, value: '1000000000000000' },
+    ]);
+  });
+
+  it('rejects an amount of wei that is not a whole number', async () => {
+    const { result } = await run(`call deposit {"to": "${OWNER}", "value": "-1"}`);
+
+    expect(result.steps[0]).toMatchObject({ type: 'tool_call', action: 'deposit', status: 'failed' });
+    expect(result.pendingActions).toEqual([]);
+  });
+
+  it('reports tool arguments that are not JSON as a failed call', async () => {
+    const { result } = await run('call balanceOf {owner}');
+
+    expect(result.steps[0]).toMatchObject({
+      type: 'tool_call',
+      action: 'balanceOf',
+      status: 'failed',
+      error: 'Tool arguments are not valid JSON',
+    });
+  });
+
+  it('asks for a final answer without tools once the step limit is reached', async () => {
+    const { result } = await run(`call balanceOf {"owner": "${OWNER}"}`, 1);
+
+    expect(result.stepLimitReached).toBe(true);
+    expect(result.steps.map(step => step.type)).toEqual(['tool_call', 'message']);
+    expect(result.steps[1]).toMatchObject({ step: 2, type: 'message' });
+    expect(result.content).toContain('42');
+  });
+});
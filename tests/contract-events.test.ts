@@ -0,0 +1,119 @@
+/**
+ * Tests for event query tools, from their generated names and arguments to the executor's log queries
+ * Logs come from a provider holding a fixed list of Transfer logs, which filters them by block range and topics.
+ */
+
+import { ethers } from 'ethers';
+import { describe, expect, it, vi } from 'vitest';
+import { abiToMCPSchema, MCPTool } from '@/lib/abi-to-mcp';
+import { executeContractAction } from '@/lib/contract-executor';
+
+const state = vi.hoisted(() => ({ logs: [] as any[] }));
+
+vi.mock('@/lib/prisma', () => ({ default: {} }));
+
+vi.mock('@/lib/rpc-provider', () => ({
+  getProvider: () => ({
+    getBlockNumber: async () => 100,
+    getLogs: async ({ fromBlock, toBlock, topics = [] }: any) =>
+      state.logs.filter(log =>
+        log.blockNumber >= fromBlock &&
+        log.blockNumber <= toBlock &&
+        topics.every((topic: string | null, index: number) => topic === null || log.topics[index] === topic)
+      ),
+  }),
+}));
+
+const ABI = [
+  {
+    type: 'event',
+    name: 'Transfer',
+    anonymous: false,
+    inputs: [
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'limit', type: 'uint256', indexed: true },
+      { name: 'value', type: 'uint256', indexed: false },
+    ],
+  },
+  // Clashes with the name of the Transfer event's query tool
+  {
+    type: 'function',
+    name: 'getTransferEvents',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+];
+
+const CONTRACT_ADDRESS = '0x0000000000000000000000000000000000000001';
+const ALICE = '0x000000000000000000000000000000000000dEaD';
+const BOB = '0x000000000000000000000000000000000000bEEF';
+
+const iface = new ethers.utils.Interface(ABI);
+
+const makeLog = (blockNumber: number, from: string, limit: number, value: number) => ({
+  ...iface.encodeEventLog(iface.getEvent('Transfer'), [from, limit, value]),
+  address: CONTRACT_ADDRESS,
+  blockNumber,
+  blockHash: ethers.utils.id(`block:${blockNumber}`),
+  transactionHash: ethers.utils.id(`tx:${blockNumber}`),
+  transactionIndex: 0,
+  logIndex: 0,
+  removed: false,
+});
+
+const abiJson = JSON.stringify(ABI);
+const tools: MCPTool[] = JSON.parse(abiToMCPSchema(abiJson));
+const contract = { address: CONTRACT_ADDRESS, abiJson, network: 'sepolia', mcpSchema: JSON.stringify(tools), gptActionSchema: null };
+
+const query = (action: string, params: Record<string, any>) => executeContractAction(contract, { action, params });
+
+describe('event query tools', () => {
+  it('keeps a function and an event query with the same name apart', () => {
+    expect(tools.map(tool => tool.name)).toEqual(['getTransferEvents', '_getTransferEvents']);
+    expect(tools[1]._meta).toMatchObject({ kind: 'event', signature: 'Transfer(address,uint256,uint256)' });
+  });
+
+  it('prefixes a filter named like a query option', () => {
+    expect(Object.keys(tools[1].inputSchema.properties)).toEqual(['from', '_limit', 'fromBlock', 'toBlock', 'limit', 'cursor']);
+  });
+
+  it('filters by a prefixed argument and still reads the query options', async () => {
+    state.logs = [makeLog(10, ALICE, 5, 1), makeLog(20, BOB, 7, 2), makeLog(30, ALICE, 7, 3), makeLog(40, BOB, 7, 4)];
+
+    const result = await query('_getTransferEvents', { _limit: '7', fromBlock: 0, toBlock: 100, limit: 1 });
+
+    expect(result).toMatchObject({
+      success: true,
+      result: { events: [{ blockNumber: 20, args: { from: BOB, limit: '7', value: '2' } }], nextCursor: expect.any(String) },
+    });
+  });
+
+  it('continues a query from its cursor', async () => {
+    state.logs = [makeLog(10, ALICE, 1, 1), makeLog(20, ALICE, 1, 2), makeLog(30, BOB, 1, 3)];
+    const params = { from: ALICE, fromBlock: 0, toBlock: 100, limit: 1 };
+
+    const first: any = await query('_getTransferEvents', params);
+    const second: any = await query('_getTransferEvents', { ...params, cursor: first.result.nextCursor });
+
+    expect(first.result.events.map((event: any) => event.blockNumber)).toEqual([10]);
+    expect(second.result.events.map((event: any) => event.blockNumber)).toEqual([20]);
+  });
+
+  it('refuses a cursor issued for other filters or another block range', async () => {
+    state.logs = [makeLog(10, ALICE, 1, 1), makeLog(20, ALICE, 1, 2)];
+    const params = { from: ALICE, fromBlock: 0, toBlock: 100, limit: 1 };
+    const { result }: any = await query('_getTransferEvents', params);
+
+    expect(await query('_getTransferEvents', { ...params, from: BOB, cursor: result.nextCursor })).toMatchObject({
+      success: false,
+      code: 'INVALID_REQUEST',
+      error: 'The cursor was issued for a different event or filters',
+    });
+    expect(await query('_getTransferEvents', { ...params, toBlock: 50, cursor: result.nextCursor })).toMatchObject({
+      success: false,
+      code: 'INVALID_REQUEST',
+      error: 'The cursor was issued for a different block range',
+    });
+  });
+});
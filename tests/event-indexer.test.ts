@@ -0,0 +1,175 @@
+/**
+ * Tests for the event indexer's passes: backfill, reorg rewinds and overlapping passes
+ * The chain is an in-memory list of blocks served through the provider methods the indexer uses, and the database
+ * is an in-memory stand-in for the two tables the indexer writes.
+ */
+
+import { ethers } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runIndexerPass } from '@/lib/event-indexer';
+
+interface Block {
+  hash: string;
+  logs: ethers.providers.Log[];
+}
+
+const state = vi.hoisted(() => ({
+  blocks: [] as { hash: string; logs: any[] }[],
+  indexer: null as any,
+  events: [] as any[],
+}));
+
+vi.mock('@/lib/rpc-provider', () => ({
+  getProvider: () => ({
+    getBlockNumber: async () => state.blocks.length - 1,
+    getBlock: async (blockNumber: number) => (state.blocks[blockNumber] ? { hash: state.blocks[blockNumber].hash } : null),
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) =>
+      state.blocks.slice(fromBlock, toBlock + 1).flatMap(block => block.logs),
+  }),
+}));
+
+vi.mock('@/lib/prisma', () => {
+  const db = {
+    eventIndexer: {
+      updateMany: async ({ where, data }: any) => {
+        if (state.indexer.id !== where.id || state.indexer.lastIndexedBlock !== where.lastIndexedBlock) {
+          return { count: 0 };
+        }
+        state.indexer = { ...state.indexer, ...data };
+        return { count: 1 };
+      },
+      update: async ({ data }: any) => {
+        state.indexer = { ...state.indexer, ...data };
+        return state.indexer;
+      },
+    },
+    indexedEvent: {
+      deleteMany: async ({ where }: any) => {
+        state.events = state.events.filter(event => event.blockNumber <= where.blockNumber.gt);
+      },
+      createMany: async ({ data }: any) => {
+        state.events.push(...data);
+      },
+    },
+    $transaction: async (run: (tx: any) => Promise<any>) => run(db),
+  };
+  return { default: db };
+});
+
+const ABI = [
+  {
+    type: 'event',
+    name: 'Transfer',
+    anonymous: false,
+    inputs: [
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'to', type: 'address', indexed: true },
+      { name: 'value', type: 'uint256', indexed: false },
+    ],
+  },
+];
+
+const CONTRACT_ADDRESS = '0x0000000000000000000000000000000000000001';
+const FROM = '0x000000000000000000000000000000000000dEaD';
+const TO = '0x000000000000000000000000000000000000bEEF';
+
+const iface = new ethers.utils.Interface(ABI);
+
+const contract = {
+  id: 'contract-1',
+  name: 'Token',
+  address: CONTRACT_ADDRESS,
+  abiJson: JSON.stringify(ABI),
+  network: 'sepolia',
+};
+
+/**
+ * A block with a Transfer of each given amount. The fork label changes the hashes of otherwise equal blocks.
+ */
+const makeBlock = (blockNumber: number, amounts: number[] = [], fork = 'a'): Block => {
+  const hash = ethers.utils.id(`${fork}:${blockNumber}`);
+  return {
+    hash,
+    logs: amounts.map((amount, logIndex) => ({
+      ...iface.encodeEventLog(iface.getEvent('Transfer'), [FROM, TO, amount]),
+      address: CONTRACT_ADDRESS,
+      blockNumber,
+      blockHash: hash,
+      transactionHash: ethers.utils.id(`${fork}:${blockNumber}:${logIndex}`),
+      transactionIndex: 0,
+      logIndex,
+      removed: false,
+    })),
+  };
+};
+
+const makeChain = (length: number, transfers: Record<number, number[]>, fork = 'a'): Block[] =>
+  Array.from({ length }, (_, blockNumber) => makeBlock(blockNumber, transfers[blockNumber], fork));
+
+const storedTransfers = () =>
+  state.events.map(event => ({ blockNumber: event.blockNumber, value: event.args.value }));
+
+const pass = () => runIndexerPass({ ...state.indexer, contract } as any);
+
+beforeEach(() => {
+  vi.stubEnv('INDEXER_REORG_DEPTH', '3');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  state.events = [];
+  state.indexer = {
+    id: 'indexer-1',
+    enabled: true,
+    startBlock: 0,
+    lastIndexedBlock: null,
+    lastIndexedBlockHash: null,
+    status: 'backfilling',
+    error: null,
+    contractId: contract.id,
+  };
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('runIndexerPass', () => {
+  it('backfills in passes and then follows the chain', async () => {
+    vi.stubEnv('INDEXER_BLOCKS_PER_PASS', '6');
+    state.blocks = makeChain(11, { 2: [100], 8: [200] });
+
+    expect(await pass()).toMatchObject({ status: 'indexed', fromBlock: 0, toBlock: 5, events: 1, caughtUp: false });
+    expect(state.indexer).toMatchObject({ lastIndexedBlock: 5, status: 'backfilling' });
+
+    expect(await pass()).toMatchObject({ status: 'indexed', fromBlock: 6, toBlock: 10, events: 1, caughtUp: true });
+    expect(state.indexer).toMatchObject({ lastIndexedBlock: 10, lastIndexedBlockHash: state.blocks[10].hash, status: 'following' });
+
+    expect(await pass()).toEqual({ status: 'idle' });
+    expect(storedTransfers()).toEqual([{ blockNumber: 2, value: '100' }, { blockNumber: 8, value: '200' }]);
+  });
+
+  it('rewinds and reindexes recent blocks after a reorg', async () => {
+    state.blocks = makeChain(11, { 2: [100], 9: [200] });
+    await pass();
+    expect(state.indexer.lastIndexedBlock).toBe(10);
+
+    // Blocks from 9 on are replaced: the transfer in block 9 is gone and another lands in block 11
+    state.blocks = [...state.blocks.slice(0, 9), ...makeChain(12, { 11: [300] }, 'b').slice(9)];
+
+    expect(await pass()).toMatchObject({ status: 'indexed', fromBlock: 8, toBlock: 11, reorg: true, caughtUp: true });
+    expect(state.indexer).toMatchObject({ lastIndexedBlock: 11, lastIndexedBlockHash: state.blocks[11].hash });
+    expect(storedTransfers()).toEqual([{ blockNumber: 2, value: '100' }, { blockNumber: 11, value: '300' }]);
+  });
+
+  it('drops an overlapping pass without marking the indexer as failed', async () => {
+    state.blocks = makeChain(11, { 4: [100] });
+    const snapshot = { ...state.indexer, contract };
+
+    // Both passes start from the same row, as when the cron route and the timer run at once
+    const [first, second] = [await runIndexerPass(snapshot), await runIndexerPass(snapshot)];
+
+    expect(first).toMatchObject({ status: 'indexed', fromBlock: 0, toBlock: 10 });
+    expect(second).toEqual({ status: 'superseded' });
+    expect(state.indexer).toMatchObject({ lastIndexedBlock: 10, status: 'following', error: null });
+    expect(storedTransfers()).toEqual([{ blockNumber: 4, value: '100' }]);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Golden-file tests for schema, server and client generation
+ * Each ABI in fixtures/abis is run through the generators and the output compared with golden/<fixture>.
+ * After an intended change to a generator, refresh the golden files with `npm run test:update` and review the diff.
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import ts from 'typescript';
+import { afterAll, describe, expect, it } from 'vitest';
+import { abiToGPTActionSchema, abiToMCPSchema, isEventTool } from '@/lib/abi-to-mcp';
+import { generateClientFiles } from '@/lib/generate-client';
+import { generatePythonServerFiles } from '@/lib/generate-python-server';
+import { generateServerFiles } from '@/lib/generate-server';
+import { validateMCPTools } from '@/lib/validate-mcp-schema';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures/abis');
+const GOLDEN_DIR = path.join(__dirname, 'golden');
+
+// Servers are generated for a fixed contract so golden files only change with the generators
+const CONTRACT_ADDRESS = '0x000000000000000000000000000000000000dEaD';
+const NETWORK = 'sepolia';
+
+// Loading the SDK and ethers types dominates a type-check
+const TYPE_CHECK_TIMEOUT_MS = 120000;
+
+const fixtures = fs.readdirSync(FIXTURES_DIR)
+  .filter(file => file.endsWith('.json'))
+  .map(file => path.basename(file, '.json'));
+
+const tempDirs: string[] = [];
+let previousProgram: ts.Program | undefined;
+
+/**
+ * Type-checks a generated bundle with its own tsconfig, resolving its dependencies from this repo's node_modules
+ */
+const typeCheck = (files: Record<string, string>): string[] => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'generated-server-'));
+  tempDirs.push(dir);
+
+  Object.entries(files).forEach(([file, content]) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), content);
+  });
+  fs.symlinkSync(path.resolve(__dirname, '../node_modules'), path.join(dir, 'node_modules'), 'dir');
+
+  const { config } = ts.readConfigFile(path.join(dir, 'tsconfig.json'), ts.sys.readFile);
+  const { fileNames, options } = ts.parseJsonConfigFileContent(config, ts.sys, dir);
+
+  // Reusing the previous program skips re-parsing the library declarations
+  const program = ts.createProgram(fileNames, { ...options, noEmit: true }, undefined, previousProgram);
+  previousProgram = program;
+
+  return ts.getPreEmitDiagnostics(program).map(diagnostic => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    if (!diagnostic.file || diagnostic.start === undefined) return message;
+
+    const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    return `${path.relative(dir, diagnostic.file.fileName)}:${line + 1}:${character + 1} ${message}`;
+  });
+};
+
+afterAll(() => {
+  tempDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+describe.each(fixtures)('%s', (fixture) => {
+  const abiJson = fs.readFileSync(path.join(FIXTURES_DIR, `${fixture}.json`), 'utf8');
+  const golden = (file: string) => path.join(GOLDEN_DIR, fixture, file);
+
+  const mcpSchema = abiToMCPSchema(abiJson);
+  const contract = { name: fixture, address: CONTRACT_ADDRESS, abiJson, network: NETWORK, mcpSchema };
+  const files = generateServerFiles(contract);
+  const clientFiles = generateClientFiles(contract);
+
+  it('generates the MCP schema', async () => {
+    await expect(mcpSchema).toMatchFileSnapshot(golden('mcp.json'));
+  });
+
+  it('generates tools whose required arguments match their properties', () => {
+    const tools = JSON.parse(mcpSchema);
+    expect(validateMCPTools(tools)).toEqual([]);
+
+    for (const tool of tools) {
+      const { properties, required } = tool.inputSchema;
+      expect(required.every((key: string) => key !== ''), tool.name).toBe(true);
+      expect(new Set(required).size, tool.name).toBe(required.length);
+
+      // Every function argument is required; event filters are optional
+      if (!isEventTool(tool)) {
+        expect([...required].sort(), tool.name).toEqual(Object.keys(properties).sort());
+      }
+    }
+  });
+
+  it('generates the GPT action schema', async () => {
+    await expect(abiToGPTActionSchema(abiJson)).toMatchFileSnapshot(golden('gpt.json'));
+  });
+
+  it('generates the server bundle', async () => {
+    for (const [file, content] of Object.entries(files)) {
+      await expect(content).toMatchFileSnapshot(golden(path.join('server', file)));
+    }
+  });
+
+  it('generates the Python server bundle', async () => {
+    for (const [file, content] of Object.entries(generatePythonServerFiles(contract))) {
+      await expect(content).toMatchFileSnapshot(golden(path.join('python-server', file)));
+    }
+  });
+
+  it('generates a server that type-checks', () => {
+    expect(typeCheck(files)).toEqual([]);
+  }, TYPE_CHECK_TIMEOUT_MS);
+
+  it('generates the client package', async () => {
+    for (const [file, content] of Object.entries(clientFiles)) {
+      await expect(content).toMatchFileSnapshot(golden(path.join('client', file)));
+    }
+  });
+
+  it('generates a client that type-checks', () => {
+    expect(typeCheck(clientFiles)).toEqual([]);
+  }, TYPE_CHECK_TIMEOUT_MS);
+});
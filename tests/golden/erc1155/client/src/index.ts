@@ -0,0 +1,105 @@
+import type { Abi, Account, Address, Hash, Hex, PublicClient, WalletClient } from 'viem';
+import { CONTRACT_ABI } from './abi.js';
+
+export { CONTRACT_ABI };
+
+// Where the contract was imported from: Sepolia Testnet
+export const CONTRACT_ADDRESS: Address = '0x000000000000000000000000000000000000dEaD';
+export const CHAIN_ID = 11155111;
+
+export interface WriteOptions {
+  // Sender, when the wallet client has no account of its own
+  account?: Account | Address;
+  gas?: bigint;
+  nonce?: number;
+}
+
+export interface PayableOptions extends WriteOptions {
+  // Wei sent with the call
+  value?: bigint;
+}
+
+export interface Erc1155ClientConfig {
+  publicClient: PublicClient;
+  // Needed for state-changing functions
+  walletClient?: WalletClient;
+  // Defaults to CONTRACT_ADDRESS
+  address?: Address;
+}
+
+/**
+ * Typed client for erc1155. Read methods call the contract; write methods send a transaction and return its hash.
+ */
+export const createErc1155Client = ({ publicClient, walletClient, address = CONTRACT_ADDRESS }: Erc1155ClientConfig) => {
+  const abi = CONTRACT_ABI as Abi;
+
+  const getWalletClient = (): WalletClient => {
+    if (!walletClient) {
+      throw new Error('A walletClient is required for state-changing functions');
+    }
+    return walletClient;
+  };
+
+  return {
+    address,
+    /** Calls `balanceOf(address,uint256)` (view) */
+    balanceOf: async (account: Address, id: bigint): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "balanceOf", args: [account, id] })) as bigint;
+    },
+
+    /** Calls `balanceOfBatch(address[],uint256[])` (view) */
+    balanceOfBatch: async (accounts: readonly Address[], ids: readonly bigint[]): Promise<readonly bigint[]> => {
+      return (await publicClient.readContract({ address, abi, functionName: "balanceOfBatch", args: [accounts, ids] })) as readonly bigint[];
+    },
+
+    /** Calls `isApprovedForAll(address,address)` (view) */
+    isApprovedForAll: async (account: Address, operator: Address): Promise<boolean> => {
+      return (await publicClient.readContract({ address, abi, functionName: "isApprovedForAll", args: [account, operator] })) as boolean;
+    },
+
+    /** Calls `safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)` (nonpayable) */
+    safeBatchTransferFrom: async (from: Address, to: Address, ids: readonly bigint[], amounts: readonly bigint[], data: Hex, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "safeBatchTransferFrom", args: [from, to, ids, amounts, data],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `safeTransferFrom(address,address,uint256,uint256,bytes)` (nonpayable) */
+    safeTransferFrom: async (from: Address, to: Address, id: bigint, amount: bigint, data: Hex, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "safeTransferFrom", args: [from, to, id, amount, data],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `setApprovalForAll(address,bool)` (nonpayable) */
+    setApprovalForAll: async (operator: Address, approved: boolean, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "setApprovalForAll", args: [operator, approved],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `supportsInterface(bytes4)` (view) */
+    supportsInterface: async (interfaceId: Hex): Promise<boolean> => {
+      return (await publicClient.readContract({ address, abi, functionName: "supportsInterface", args: [interfaceId] })) as boolean;
+    },
+
+    /** Calls `uri(uint256)` (view) */
+    uri: async (arg0: bigint): Promise<string> => {
+      return (await publicClient.readContract({ address, abi, functionName: "uri", args: [arg0] })) as string;
+    },
+  };
+};
+
+export type Erc1155Client = ReturnType<typeof createErc1155Client>;
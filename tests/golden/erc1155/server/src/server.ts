@@ -0,0 +1,397 @@
+import { ethers } from 'ethers';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, CallToolResult, ListToolsRequestSchema, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CONTRACT_ABI } from './abi.js';
+
+// Contract configuration
+export const CONTRACT_ADDRESS = '0x000000000000000000000000000000000000dEaD';
+export const CONTRACT_NAME = "erc1155";
+
+// Network: Sepolia Testnet. Set RPC_URL to use your own provider.
+const CHAIN_ID = 11155111;
+const RPC_URL = process.env.RPC_URL || 'https://ethereum-sepolia-rpc.publicnode.com';
+const provider = new ethers.providers.StaticJsonRpcProvider(RPC_URL, CHAIN_ID);
+
+// Initialize contract instance
+const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
+
+// State-changing functions are sent from this key. Without it they return an error.
+const signer = process.env.PRIVATE_KEY ? new ethers.Wallet(process.env.PRIVATE_KEY, provider) : null;
+
+// One tool per contract function; _meta.signature selects overloaded functions
+export const TOOLS: Tool[] = [
+  {
+    "name": "balanceOf",
+    "description": "Calls the balanceOf function with parameters: account (address), id (uint256). Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "account": {
+          "type": "string",
+          "description": "Ethereum address for account (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "id": {
+          "type": "string",
+          "description": "Numeric value for id (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "account",
+        "id"
+      ]
+    },
+    "annotations": {
+      "title": "balanceOf",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "balanceOf(address,uint256)"
+    }
+  },
+  {
+    "name": "balanceOfBatch",
+    "description": "Calls the balanceOfBatch function with parameters: accounts (address[]), ids (uint256[]). Returns: return (uint256[]). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "accounts": {
+          "type": "array",
+          "items": {
+            "type": "string",
+            "description": "0x-prefixed 20-byte address",
+            "pattern": "^0x[0-9a-fA-F]{40}$"
+          },
+          "description": "Ethereum address for accounts"
+        },
+        "ids": {
+          "type": "array",
+          "items": {
+            "type": "string",
+            "description": "uint256 as a decimal string, 0 to 2^256-1",
+            "pattern": "^[0-9]{1,78}$"
+          },
+          "description": "Numeric value for ids"
+        }
+      },
+      "required": [
+        "accounts",
+        "ids"
+      ]
+    },
+    "annotations": {
+      "title": "balanceOfBatch",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "balanceOfBatch(address[],uint256[])"
+    }
+  },
+  {
+    "name": "isApprovedForAll",
+    "description": "Calls the isApprovedForAll function with parameters: account (address), operator (address). Returns: return (bool). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "account": {
+          "type": "string",
+          "description": "Ethereum address for account (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "operator": {
+          "type": "string",
+          "description": "Ethereum address for operator (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "account",
+        "operator"
+      ]
+    },
+    "annotations": {
+      "title": "isApprovedForAll",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "isApprovedForAll(address,address)"
+    }
+  },
+  {
+    "name": "safeBatchTransferFrom",
+    "description": "Calls the safeBatchTransferFrom function with parameters: from (address), to (address), ids (uint256[]), amounts (uint256[]), data (bytes). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "from": {
+          "type": "string",
+          "description": "Ethereum address for from (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "ids": {
+          "type": "array",
+          "items": {
+            "type": "string",
+            "description": "uint256 as a decimal string, 0 to 2^256-1",
+            "pattern": "^[0-9]{1,78}$"
+          },
+          "description": "Numeric value for ids"
+        },
+        "amounts": {
+          "type": "array",
+          "items": {
+            "type": "string",
+            "description": "uint256 as a decimal string, 0 to 2^256-1",
+            "pattern": "^[0-9]{1,78}$"
+          },
+          "description": "Numeric value for amounts"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        }
+      },
+      "required": [
+        "from",
+        "to",
+        "ids",
+        "amounts",
+        "data"
+      ]
+    },
+    "annotations": {
+      "title": "safeBatchTransferFrom",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)"
+    }
+  },
+  {
+    "name": "safeTransferFrom",
+    "description": "Calls the safeTransferFrom function with parameters: from (address), to (address), id (uint256), amount (uint256), data (bytes). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "from": {
+          "type": "string",
+          "description": "Ethereum address for from (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "id": {
+          "type": "string",
+          "description": "Numeric value for id (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "amount": {
+          "type": "string",
+          "description": "Numeric value for amount (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        }
+      },
+      "required": [
+        "from",
+        "to",
+        "id",
+        "amount",
+        "data"
+      ]
+    },
+    "annotations": {
+      "title": "safeTransferFrom",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "safeTransferFrom(address,address,uint256,uint256,bytes)"
+    }
+  },
+  {
+    "name": "setApprovalForAll",
+    "description": "Calls the setApprovalForAll function with parameters: operator (address), approved (bool). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "operator": {
+          "type": "string",
+          "description": "Ethereum address for operator (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "approved": {
+          "type": "boolean",
+          "description": "Boolean flag for approved"
+        }
+      },
+      "required": [
+        "operator",
+        "approved"
+      ]
+    },
+    "annotations": {
+      "title": "setApprovalForAll",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "setApprovalForAll(address,bool)"
+    }
+  },
+  {
+    "name": "supportsInterface",
+    "description": "Calls the supportsInterface function with parameters: interfaceId (bytes4). Returns: return (bool). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "interfaceId": {
+          "type": "string",
+          "description": "Bytes data for interfaceId (0x-prefixed hex, exactly 4 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{8}$"
+        }
+      },
+      "required": [
+        "interfaceId"
+      ]
+    },
+    "annotations": {
+      "title": "supportsInterface",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "supportsInterface(bytes4)"
+    }
+  },
+  {
+    "name": "uri",
+    "description": "Calls the uri function with parameters: arg0 (uint256). Returns: return (string). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "arg0": {
+          "type": "string",
+          "description": "Numeric value for arg0 (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "arg0"
+      ]
+    },
+    "annotations": {
+      "title": "uri",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "uri(uint256)"
+    }
+  }
+];
+
+// Converts call results to JSON: numbers become decimal strings and structs become objects
+const toJson = (value: any): any => {
+  if (ethers.BigNumber.isBigNumber(value)) return value.toString();
+  if (Array.isArray(value)) {
+    const keys = Object.keys(value).filter(key => Number.isNaN(Number(key)));
+    return keys.length === value.length
+      ? Object.fromEntries(keys.map(key => [key, toJson((value as any)[key])]))
+      : value.map(toJson);
+  }
+  return value;
+};
+
+const textResult = (value: unknown, isError = false): CallToolResult => ({
+  content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value, null, 2) }],
+  isError,
+});
+
+const callTool = async (name: string, args: Record<string, unknown>): Promise<CallToolResult> => {
+  const tool = TOOLS.find(item => item.name === name);
+  if (!tool) {
+    return textResult(`Unknown tool: ${name}`, true);
+  }
+
+  const parameters = (tool.inputSchema.required || []) as string[];
+  const missing = parameters.filter(param => args[param] === undefined);
+  if (missing.length > 0) {
+    return textResult(`Missing required parameters: ${missing.join(', ')}`, true);
+  }
+
+  const signature = (tool._meta?.signature as string) || name;
+  const values = parameters.map(param => args[param]);
+
+  try {
+    // The ABI decides between a call and a transaction; ethers reads legacy `constant` entries as view
+    const { stateMutability } = contract.interface.getFunction(signature);
+    if (stateMutability === 'view' || stateMutability === 'pure') {
+      const result = await contract[signature](...values);
+      return textResult(toJson(result));
+    }
+
+    if (!signer) {
+      return textResult(`${name} changes contract state; set PRIVATE_KEY to send transactions`, true);
+    }
+
+    const tx = await contract.connect(signer)[signature](...values);
+    const receipt = await tx.wait();
+    return textResult({
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      status: receipt.status === 1 ? 'success' : 'reverted',
+    });
+  } catch (error: any) {
+    console.error(`Error calling ${name}:`, error);
+    return textResult(`Failed to call ${name}: ${error?.reason || error?.message || String(error)}`, true);
+  }
+};
+
+export const createServer = (): Server => {
+  const server = new Server(
+    { name: "erc1155-mcp-server", version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) =>
+    callTool(request.params.name, request.params.arguments || {})
+  );
+
+  return server;
+};
@@ -0,0 +1,132 @@
+import type { Abi, Account, Address, Hash, Hex, PublicClient, WalletClient } from 'viem';
+import { CONTRACT_ABI } from './abi.js';
+
+export { CONTRACT_ABI };
+
+// Where the contract was imported from: Sepolia Testnet
+export const CONTRACT_ADDRESS: Address = '0x000000000000000000000000000000000000dEaD';
+export const CHAIN_ID = 11155111;
+
+export interface WriteOptions {
+  // Sender, when the wallet client has no account of its own
+  account?: Account | Address;
+  gas?: bigint;
+  nonce?: number;
+}
+
+export interface PayableOptions extends WriteOptions {
+  // Wei sent with the call
+  value?: bigint;
+}
+
+export interface Erc20ClientConfig {
+  publicClient: PublicClient;
+  // Needed for state-changing functions
+  walletClient?: WalletClient;
+  // Defaults to CONTRACT_ADDRESS
+  address?: Address;
+}
+
+/**
+ * Typed client for erc20. Read methods call the contract; write methods send a transaction and return its hash.
+ */
+export const createErc20Client = ({ publicClient, walletClient, address = CONTRACT_ADDRESS }: Erc20ClientConfig) => {
+  const abi = CONTRACT_ABI as Abi;
+
+  const getWalletClient = (): WalletClient => {
+    if (!walletClient) {
+      throw new Error('A walletClient is required for state-changing functions');
+    }
+    return walletClient;
+  };
+
+  return {
+    address,
+    /** Calls `allowance(address,address)` (view) */
+    allowance: async (owner: Address, spender: Address): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "allowance", args: [owner, spender] })) as bigint;
+    },
+
+    /** Calls `approve(address,uint256)` (nonpayable) */
+    approve: async (spender: Address, amount: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "approve", args: [spender, amount],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `balanceOf(address)` (view) */
+    balanceOf: async (account: Address): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "balanceOf", args: [account] })) as bigint;
+    },
+
+    /** Calls `decimals()` (view) */
+    decimals: async (): Promise<number> => {
+      return (await publicClient.readContract({ address, abi, functionName: "decimals", args: [] })) as number;
+    },
+
+    /** Calls `decreaseAllowance(address,uint256)` (nonpayable) */
+    decreaseAllowance: async (spender: Address, subtractedValue: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "decreaseAllowance", args: [spender, subtractedValue],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `increaseAllowance(address,uint256)` (nonpayable) */
+    increaseAllowance: async (spender: Address, addedValue: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "increaseAllowance", args: [spender, addedValue],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `name()` (view) */
+    name: async (): Promise<string> => {
+      return (await publicClient.readContract({ address, abi, functionName: "name", args: [] })) as string;
+    },
+
+    /** Calls `symbol()` (view) */
+    symbol: async (): Promise<string> => {
+      return (await publicClient.readContract({ address, abi, functionName: "symbol", args: [] })) as string;
+    },
+
+    /** Calls `totalSupply()` (view) */
+    totalSupply: async (): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "totalSupply", args: [] })) as bigint;
+    },
+
+    /** Calls `transfer(address,uint256)` (nonpayable) */
+    transfer: async (to: Address, amount: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "transfer", args: [to, amount],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `transferFrom(address,address,uint256)` (nonpayable) */
+    transferFrom: async (from: Address, to: Address, amount: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "transferFrom", args: [from, to, amount],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+  };
+};
+
+export type Erc20Client = ReturnType<typeof createErc20Client>;
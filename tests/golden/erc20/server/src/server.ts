@@ -0,0 +1,401 @@
+import { ethers } from 'ethers';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, CallToolResult, ListToolsRequestSchema, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CONTRACT_ABI } from './abi.js';
+
+// Contract configuration
+export const CONTRACT_ADDRESS = '0x000000000000000000000000000000000000dEaD';
+export const CONTRACT_NAME = "erc20";
+
+// Network: Sepolia Testnet. Set RPC_URL to use your own provider.
+const CHAIN_ID = 11155111;
+const RPC_URL = process.env.RPC_URL || 'https://ethereum-sepolia-rpc.publicnode.com';
+const provider = new ethers.providers.StaticJsonRpcProvider(RPC_URL, CHAIN_ID);
+
+// Initialize contract instance
+const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
+
+// State-changing functions are sent from this key. Without it they return an error.
+const signer = process.env.PRIVATE_KEY ? new ethers.Wallet(process.env.PRIVATE_KEY, provider) : null;
+
+// One tool per contract function; _meta.signature selects overloaded functions
+export const TOOLS: Tool[] = [
+  {
+    "name": "allowance",
+    "description": "Calls the allowance function with parameters: owner (address), spender (address). Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "owner": {
+          "type": "string",
+          "description": "Ethereum address for owner (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "spender": {
+          "type": "string",
+          "description": "Ethereum address for spender (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "owner",
+        "spender"
+      ]
+    },
+    "annotations": {
+      "title": "allowance",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "allowance(address,address)"
+    }
+  },
+  {
+    "name": "approve",
+    "description": "Calls the approve function with parameters: spender (address), amount (uint256). Returns: return (bool). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "spender": {
+          "type": "string",
+          "description": "Ethereum address for spender (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "amount": {
+          "type": "string",
+          "description": "Numeric value for amount (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "spender",
+        "amount"
+      ]
+    },
+    "annotations": {
+      "title": "approve",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "approve(address,uint256)"
+    }
+  },
+  {
+    "name": "balanceOf",
+    "description": "Calls the balanceOf function with parameters: account (address). Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "account": {
+          "type": "string",
+          "description": "Ethereum address for account (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "account"
+      ]
+    },
+    "annotations": {
+      "title": "balanceOf",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "balanceOf(address)"
+    }
+  },
+  {
+    "name": "decimals",
+    "description": "Calls the decimals function. Returns: return (uint8). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "decimals",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "decimals()"
+    }
+  },
+  {
+    "name": "decreaseAllowance",
+    "description": "Calls the decreaseAllowance function with parameters: spender (address), subtractedValue (uint256). Returns: return (bool). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "spender": {
+          "type": "string",
+          "description": "Ethereum address for spender (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "subtractedValue": {
+          "type": "string",
+          "description": "Numeric value for subtractedValue (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "spender",
+        "subtractedValue"
+      ]
+    },
+    "annotations": {
+      "title": "decreaseAllowance",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "decreaseAllowance(address,uint256)"
+    }
+  },
+  {
+    "name": "increaseAllowance",
+    "description": "Calls the increaseAllowance function with parameters: spender (address), addedValue (uint256). Returns: return (bool). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "spender": {
+          "type": "string",
+          "description": "Ethereum address for spender (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "addedValue": {
+          "type": "string",
+          "description": "Numeric value for addedValue (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "spender",
+        "addedValue"
+      ]
+    },
+    "annotations": {
+      "title": "increaseAllowance",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "increaseAllowance(address,uint256)"
+    }
+  },
+  {
+    "name": "name",
+    "description": "Calls the name function. Returns: return (string). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "name",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "name()"
+    }
+  },
+  {
+    "name": "symbol",
+    "description": "Calls the symbol function. Returns: return (string). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "symbol",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "symbol()"
+    }
+  },
+  {
+    "name": "totalSupply",
+    "description": "Calls the totalSupply function. Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "totalSupply",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "totalSupply()"
+    }
+  },
+  {
+    "name": "transfer",
+    "description": "Calls the transfer function with parameters: to (address), amount (uint256). Returns: return (bool). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "amount": {
+          "type": "string",
+          "description": "Numeric value for amount (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "to",
+        "amount"
+      ]
+    },
+    "annotations": {
+      "title": "transfer",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "transfer(address,uint256)"
+    }
+  },
+  {
+    "name": "transferFrom",
+    "description": "Calls the transferFrom function with parameters: from (address), to (address), amount (uint256). Returns: return (bool). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "from": {
+          "type": "string",
+          "description": "Ethereum address for from (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "amount": {
+          "type": "string",
+          "description": "Numeric value for amount (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "from",
+        "to",
+        "amount"
+      ]
+    },
+    "annotations": {
+      "title": "transferFrom",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "transferFrom(address,address,uint256)"
+    }
+  }
+];
+
+// Converts call results to JSON: numbers become decimal strings and structs become objects
+const toJson = (value: any): any => {
+  if (ethers.BigNumber.isBigNumber(value)) return value.toString();
+  if (Array.isArray(value)) {
+    const keys = Object.keys(value).filter(key => Number.isNaN(Number(key)));
+    return keys.length === value.length
+      ? Object.fromEntries(keys.map(key => [key, toJson((value as any)[key])]))
+      : value.map(toJson);
+  }
+  return value;
+};
+
+const textResult = (value: unknown, isError = false): CallToolResult => ({
+  content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value, null, 2) }],
+  isError,
+});
+
+const callTool = async (name: string, args: Record<string, unknown>): Promise<CallToolResult> => {
+  const tool = TOOLS.find(item => item.name === name);
+  if (!tool) {
+    return textResult(`Unknown tool: ${name}`, true);
+  }
+
+  const parameters = (tool.inputSchema.required || []) as string[];
+  const missing = parameters.filter(param => args[param] === undefined);
+  if (missing.length > 0) {
+    return textResult(`Missing required parameters: ${missing.join(', ')}`, true);
+  }
+
+  const signature = (tool._meta?.signature as string) || name;
+  const values = parameters.map(param => args[param]);
+
+  try {
+    // The ABI decides between a call and a transaction; ethers reads legacy `constant` entries as view
+    const { stateMutability } = contract.interface.getFunction(signature);
+    if (stateMutability === 'view' || stateMutability === 'pure') {
+      const result = await contract[signature](...values);
+      return textResult(toJson(result));
+    }
+
+    if (!signer) {
+      return textResult(`${name} changes contract state; set PRIVATE_KEY to send transactions`, true);
+    }
+
+    const tx = await contract.connect(signer)[signature](...values);
+    const receipt = await tx.wait();
+    return textResult({
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      status: receipt.status === 1 ? 'success' : 'reverted',
+    });
+  } catch (error: any) {
+    console.error(`Error calling ${name}:`, error);
+    return textResult(`Failed to call ${name}: ${error?.reason || error?.message || String(error)}`, true);
+  }
+};
+
+export const createServer = (): Server => {
+  const server = new Server(
+    { name: "erc20-mcp-server", version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) =>
+    callTool(request.params.name, request.params.arguments || {})
+  );
+
+  return server;
+};
@@ -0,0 +1,142 @@
+import type { Abi, Account, Address, Hash, Hex, PublicClient, WalletClient } from 'viem';
+import { CONTRACT_ABI } from './abi.js';
+
+export { CONTRACT_ABI };
+
+// Where the contract was imported from: Sepolia Testnet
+export const CONTRACT_ADDRESS: Address = '0x000000000000000000000000000000000000dEaD';
+export const CHAIN_ID = 11155111;
+
+export interface WriteOptions {
+  // Sender, when the wallet client has no account of its own
+  account?: Account | Address;
+  gas?: bigint;
+  nonce?: number;
+}
+
+export interface PayableOptions extends WriteOptions {
+  // Wei sent with the call
+  value?: bigint;
+}
+
+export interface Erc721ClientConfig {
+  publicClient: PublicClient;
+  // Needed for state-changing functions
+  walletClient?: WalletClient;
+  // Defaults to CONTRACT_ADDRESS
+  address?: Address;
+}
+
+/**
+ * Typed client for erc721. Read methods call the contract; write methods send a transaction and return its hash.
+ */
+export const createErc721Client = ({ publicClient, walletClient, address = CONTRACT_ADDRESS }: Erc721ClientConfig) => {
+  const abi = CONTRACT_ABI as Abi;
+
+  const getWalletClient = (): WalletClient => {
+    if (!walletClient) {
+      throw new Error('A walletClient is required for state-changing functions');
+    }
+    return walletClient;
+  };
+
+  return {
+    address,
+    /** Calls `approve(address,uint256)` (nonpayable) */
+    approve: async (to: Address, tokenId: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "approve", args: [to, tokenId],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `balanceOf(address)` (view) */
+    balanceOf: async (owner: Address): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "balanceOf", args: [owner] })) as bigint;
+    },
+
+    /** Calls `getApproved(uint256)` (view) */
+    getApproved: async (tokenId: bigint): Promise<Address> => {
+      return (await publicClient.readContract({ address, abi, functionName: "getApproved", args: [tokenId] })) as Address;
+    },
+
+    /** Calls `isApprovedForAll(address,address)` (view) */
+    isApprovedForAll: async (owner: Address, operator: Address): Promise<boolean> => {
+      return (await publicClient.readContract({ address, abi, functionName: "isApprovedForAll", args: [owner, operator] })) as boolean;
+    },
+
+    /** Calls `name()` (view) */
+    name: async (): Promise<string> => {
+      return (await publicClient.readContract({ address, abi, functionName: "name", args: [] })) as string;
+    },
+
+    /** Calls `ownerOf(uint256)` (view) */
+    ownerOf: async (tokenId: bigint): Promise<Address> => {
+      return (await publicClient.readContract({ address, abi, functionName: "ownerOf", args: [tokenId] })) as Address;
+    },
+
+    /** Calls `safeTransferFrom(address,address,uint256)` (nonpayable) */
+    safeTransferFrom_address_address_uint256: async (from: Address, to: Address, tokenId: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "safeTransferFrom", args: [from, to, tokenId],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `safeTransferFrom(address,address,uint256,bytes)` (nonpayable) */
+    safeTransferFrom_address_address_uint256_bytes: async (from: Address, to: Address, tokenId: bigint, data: Hex, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "safeTransferFrom", args: [from, to, tokenId, data],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `setApprovalForAll(address,bool)` (nonpayable) */
+    setApprovalForAll: async (operator: Address, approved: boolean, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "setApprovalForAll", args: [operator, approved],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `supportsInterface(bytes4)` (view) */
+    supportsInterface: async (interfaceId: Hex): Promise<boolean> => {
+      return (await publicClient.readContract({ address, abi, functionName: "supportsInterface", args: [interfaceId] })) as boolean;
+    },
+
+    /** Calls `symbol()` (view) */
+    symbol: async (): Promise<string> => {
+      return (await publicClient.readContract({ address, abi, functionName: "symbol", args: [] })) as string;
+    },
+
+    /** Calls `tokenURI(uint256)` (view) */
+    tokenURI: async (tokenId: bigint): Promise<string> => {
+      return (await publicClient.readContract({ address, abi, functionName: "tokenURI", args: [tokenId] })) as string;
+    },
+
+    /** Calls `transferFrom(address,address,uint256)` (nonpayable) */
+    transferFrom: async (from: Address, to: Address, tokenId: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "transferFrom", args: [from, to, tokenId],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+  };
+};
+
+export type Erc721Client = ReturnType<typeof createErc721Client>;
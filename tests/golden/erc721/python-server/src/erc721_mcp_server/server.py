@@ -0,0 +1,172 @@
+"""MCP server for the erc721 contract at 0x000000000000000000000000000000000000dEaD on Sepolia Testnet."""
+
+import asyncio
+import contextlib
+import json
+import os
+import sys
+from pathlib import Path
+from typing import Any
+
+import mcp.types as types
+from mcp.server.lowlevel import Server
+from mcp.server.stdio import stdio_server
+from web3 import Web3
+
+PACKAGE_DIR = Path(__file__).parent
+
+# Contract configuration
+CONTRACT_ADDRESS = Web3.to_checksum_address("0x000000000000000000000000000000000000dEaD")
+CONTRACT_NAME = "erc721"
+CONTRACT_ABI = json.loads((PACKAGE_DIR / "abi.json").read_text())
+
+# One tool per contract function; _meta.signature selects overloaded functions
+TOOLS = json.loads((PACKAGE_DIR / "tools.json").read_text())
+TOOLS_BY_NAME = {tool["name"]: tool for tool in TOOLS}
+
+# Network: Sepolia Testnet. Set RPC_URL to use your own provider.
+CHAIN_ID = 11155111
+RPC_URL = os.environ.get("RPC_URL", "https://ethereum-sepolia-rpc.publicnode.com")
+w3 = Web3(Web3.HTTPProvider(RPC_URL))
+
+# Structs are decoded to named tuples so results keep their field names
+contract = w3.eth.contract(address=CONTRACT_ADDRESS, abi=CONTRACT_ABI, decode_tuples=True)
+
+# State-changing functions are sent from this key. Without it they return an error.
+account = w3.eth.account.from_key(os.environ["PRIVATE_KEY"]) if os.environ.get("PRIVATE_KEY") else None
+
+server = Server("erc721-mcp-server")
+
+
+def to_abi_value(param: dict[str, Any], value: Any) -> Any:
+    """Converts a JSON argument to the value web3.py expects for an ABI parameter."""
+    abi_type = param["type"]
+    if abi_type.endswith("]"):
+        item = {**param, "type": abi_type[: abi_type.rindex("[")]}
+        return [to_abi_value(item, entry) for entry in value]
+    if abi_type == "tuple":
+        components = param.get("components", [])
+        if isinstance(value, dict):
+            return tuple(
+                to_abi_value(component, value[component["name"] or str(index)])
+                for index, component in enumerate(components)
+            )
+        return tuple(to_abi_value(component, entry) for component, entry in zip(components, value))
+    if abi_type.startswith(("uint", "int")):
+        if not isinstance(value, str):
+            return int(value)
+        # Hex needs its prefix; decimal strings may have leading zeros, which int(value, 0) rejects
+        return int(value, 16) if value.lower().startswith(("0x", "-0x")) else int(value, 10)
+    if abi_type == "address":
+        return Web3.to_checksum_address(value)
+    if abi_type.startswith("bytes"):
+        return Web3.to_bytes(hexstr=value)
+    return value
+
+
+def to_json(value: Any) -> Any:
+    """Converts call results to JSON: numbers become decimal strings and structs become objects."""
+    if isinstance(value, bool):
+        return value
+    if isinstance(value, int):
+        return str(value)
+    if isinstance(value, (bytes, bytearray)):
+        return Web3.to_hex(value)
+    if hasattr(value, "_asdict"):
+        return {key: to_json(entry) for key, entry in value._asdict().items()}
+    if isinstance(value, (list, tuple)):
+        return [to_json(entry) for entry in value]
+    return value
+
+
+def execute(tool: dict[str, Any], arguments: dict[str, Any]) -> Any:
+    """Calls a read-only function, or sends a transaction for a state-changing one."""
+    parameters = tool["inputSchema"].get("required", [])
+    missing = [param for param in parameters if param not in arguments]
+    if missing:
+        raise ValueError(f"Missing required parameters: {', '.join(missing)}")
+
+    signature = tool.get("_meta", {}).get("signature") or tool["name"]
+    function = (
+        contract.get_function_by_signature(signature)
+        if "(" in signature
+        else contract.get_function_by_name(signature)
+    )
+    values = [to_abi_value(param, arguments[name]) for param, name in zip(function.abi["inputs"], parameters)]
+
+    # The ABI decides between a call and a transaction; legacy ABIs mark read-only functions as constant
+    if function.abi.get("stateMutability") in ("view", "pure") or function.abi.get("constant"):
+        return to_json(function(*values).call())
+
+    if account is None:
+        raise ValueError(f"{tool['name']} changes contract state; set PRIVATE_KEY to send transactions")
+
+    transaction = function(*values).build_transaction({
+        "from": account.address,
+        "nonce": w3.eth.get_transaction_count(account.address),
+        "chainId": CHAIN_ID,
+    })
+    signed = account.sign_transaction(transaction)
+    receipt = w3.eth.wait_for_transaction_receipt(w3.eth.send_raw_transaction(signed.raw_transaction))
+    return {
+        "transactionHash": Web3.to_hex(receipt["transactionHash"]),
+        "blockNumber": receipt["blockNumber"],
+        "status": "success" if receipt["status"] == 1 else "reverted",
+    }
+
+
+@server.list_tools()
+async def list_tools() -> list[types.Tool]:
+    return [types.Tool.model_validate(tool) for tool in TOOLS]
+
+
+@server.call_tool()
+async def call_tool(name: str, arguments: dict[str, Any]) -> list[types.TextContent]:
+    tool = TOOLS_BY_NAME.get(name)
+    if tool is None:
+        raise ValueError(f"Unknown tool: {name}")
+
+    # web3.py is synchronous, so calls run off the event loop
+    result = await asyncio.to_thread(execute, tool, arguments)
+    return [types.TextContent(type="text", text=json.dumps(result, indent=2))]
+
+
+async def run_stdio() -> None:
+    async with stdio_server() as (read_stream, write_stream):
+        await server.run(read_stream, write_stream, server.create_initialization_options())
+
+
+def run_http(port: int) -> None:
+    """Serves Streamable HTTP in stateless mode at /mcp."""
+    import uvicorn
+    from mcp.server.streamable_http_manager import StreamableHTTPSessionManager
+    from starlette.applications import Starlette
+    from starlette.routing import Mount
+
+    session_manager = StreamableHTTPSessionManager(app=server, stateless=True)
+
+    async def handle_request(scope, receive, send) -> None:
+        await session_manager.handle_request(scope, receive, send)
+
+    @contextlib.asynccontextmanager
+    async def lifespan(app: Starlette):
+        async with session_manager.run():
+            yield
+
+    app = Starlette(routes=[Mount("/mcp", app=handle_request)], lifespan=lifespan)
+    print(f"MCP server for {CONTRACT_NAME} listening on http://localhost:{port}/mcp", file=sys.stderr)
+    uvicorn.run(app, host="0.0.0.0", port=port)
+
+
+def main() -> None:
+    if "--http" in sys.argv or os.environ.get("MCP_TRANSPORT") == "http":
+        run_http(int(os.environ.get("PORT", "3000")))
+        return
+
+    # stdout carries the protocol, so logs go to stderr
+    print(f"MCP server for {CONTRACT_NAME} running on stdio", file=sys.stderr)
+    asyncio.run(run_stdio())
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,488 @@
+import { ethers } from 'ethers';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, CallToolResult, ListToolsRequestSchema, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CONTRACT_ABI } from './abi.js';
+
+// Contract configuration
+export const CONTRACT_ADDRESS = '0x000000000000000000000000000000000000dEaD';
+export const CONTRACT_NAME = "erc721";
+
+// Network: Sepolia Testnet. Set RPC_URL to use your own provider.
+const CHAIN_ID = 11155111;
+const RPC_URL = process.env.RPC_URL || 'https://ethereum-sepolia-rpc.publicnode.com';
+const provider = new ethers.providers.StaticJsonRpcProvider(RPC_URL, CHAIN_ID);
+
+// Initialize contract instance
+const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
+
+// State-changing functions are sent from this key. Without it they return an error.
+const signer = process.env.PRIVATE_KEY ? new ethers.Wallet(process.env.PRIVATE_KEY, provider) : null;
+
+// One tool per contract function; _meta.signature selects overloaded functions
+export const TOOLS: Tool[] = [
+  {
+    "name": "approve",
+    "description": "Calls the approve function with parameters: to (address), tokenId (uint256). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "to",
+        "tokenId"
+      ]
+    },
+    "annotations": {
+      "title": "approve",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "approve(address,uint256)"
+    }
+  },
+  {
+    "name": "balanceOf",
+    "description": "Calls the balanceOf function with parameters: owner (address). Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "owner": {
+          "type": "string",
+          "description": "Ethereum address for owner (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "owner"
+      ]
+    },
+    "annotations": {
+      "title": "balanceOf",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "balanceOf(address)"
+    }
+  },
+  {
+    "name": "getApproved",
+    "description": "Calls the getApproved function with parameters: tokenId (uint256). Returns: return (address). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "tokenId"
+      ]
+    },
+    "annotations": {
+      "title": "getApproved",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "getApproved(uint256)"
+    }
+  },
+  {
+    "name": "isApprovedForAll",
+    "description": "Calls the isApprovedForAll function with parameters: owner (address), operator (address). Returns: return (bool). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "owner": {
+          "type": "string",
+          "description": "Ethereum address for owner (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "operator": {
+          "type": "string",
+          "description": "Ethereum address for operator (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "owner",
+        "operator"
+      ]
+    },
+    "annotations": {
+      "title": "isApprovedForAll",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "isApprovedForAll(address,address)"
+    }
+  },
+  {
+    "name": "name",
+    "description": "Calls the name function. Returns: return (string). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "name",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "name()"
+    }
+  },
+  {
+    "name": "ownerOf",
+    "description": "Calls the ownerOf function with parameters: tokenId (uint256). Returns: return (address). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "tokenId"
+      ]
+    },
+    "annotations": {
+      "title": "ownerOf",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "ownerOf(uint256)"
+    }
+  },
+  {
+    "name": "safeTransferFrom_address_address_uint256",
+    "description": "Calls the safeTransferFrom function with parameters: from (address), to (address), tokenId (uint256). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "from": {
+          "type": "string",
+          "description": "Ethereum address for from (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "from",
+        "to",
+        "tokenId"
+      ]
+    },
+    "annotations": {
+      "title": "safeTransferFrom",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "safeTransferFrom(address,address,uint256)"
+    }
+  },
+  {
+    "name": "safeTransferFrom_address_address_uint256_bytes",
+    "description": "Calls the safeTransferFrom function with parameters: from (address), to (address), tokenId (uint256), data (bytes). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "from": {
+          "type": "string",
+          "description": "Ethereum address for from (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        }
+      },
+      "required": [
+        "from",
+        "to",
+        "tokenId",
+        "data"
+      ]
+    },
+    "annotations": {
+      "title": "safeTransferFrom",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "safeTransferFrom(address,address,uint256,bytes)"
+    }
+  },
+  {
+    "name": "setApprovalForAll",
+    "description": "Calls the setApprovalForAll function with parameters: operator (address), approved (bool). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "operator": {
+          "type": "string",
+          "description": "Ethereum address for operator (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "approved": {
+          "type": "boolean",
+          "description": "Boolean flag for approved"
+        }
+      },
+      "required": [
+        "operator",
+        "approved"
+      ]
+    },
+    "annotations": {
+      "title": "setApprovalForAll",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "setApprovalForAll(address,bool)"
+    }
+  },
+  {
+    "name": "supportsInterface",
+    "description": "Calls the supportsInterface function with parameters: interfaceId (bytes4). Returns: return (bool). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "interfaceId": {
+          "type": "string",
+          "description": "Bytes data for interfaceId (0x-prefixed hex, exactly 4 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{8}$"
+        }
+      },
+      "required": [
+        "interfaceId"
+      ]
+    },
+    "annotations": {
+      "title": "supportsInterface",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "supportsInterface(bytes4)"
+    }
+  },
+  {
+    "name": "symbol",
+    "description": "Calls the symbol function. Returns: return (string). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "symbol",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "symbol()"
+    }
+  },
+  {
+    "name": "tokenURI",
+    "description": "Calls the tokenURI function with parameters: tokenId (uint256). Returns: return (string). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "tokenId"
+      ]
+    },
+    "annotations": {
+      "title": "tokenURI",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "tokenURI(uint256)"
+    }
+  },
+  {
+    "name": "transferFrom",
+    "description": "Calls the transferFrom function with parameters: from (address), to (address), tokenId (uint256). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "from": {
+          "type": "string",
+          "description": "Ethereum address for from (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "from",
+        "to",
+        "tokenId"
+      ]
+    },
+    "annotations": {
+      "title": "transferFrom",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "transferFrom(address,address,uint256)"
+    }
+  }
+];
+
+// Converts call results to JSON: numbers become decimal strings and structs become objects
+const toJson = (value: any): any => {
+  if (ethers.BigNumber.isBigNumber(value)) return value.toString();
+  if (Array.isArray(value)) {
+    const keys = Object.keys(value).filter(key => Number.isNaN(Number(key)));
+    return keys.length === value.length
+      ? Object.fromEntries(keys.map(key => [key, toJson((value as any)[key])]))
+      : value.map(toJson);
+  }
+  return value;
+};
+
+const textResult = (value: unknown, isError = false): CallToolResult => ({
+  content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value, null, 2) }],
+  isError,
+});
+
+const callTool = async (name: string, args: Record<string, unknown>): Promise<CallToolResult> => {
+  const tool = TOOLS.find(item => item.name === name);
+  if (!tool) {
+    return textResult(`Unknown tool: ${name}`, true);
+  }
+
+  const parameters = (tool.inputSchema.required || []) as string[];
+  const missing = parameters.filter(param => args[param] === undefined);
+  if (missing.length > 0) {
+    return textResult(`Missing required parameters: ${missing.join(', ')}`, true);
+  }
+
+  const signature = (tool._meta?.signature as string) || name;
+  const values = parameters.map(param => args[param]);
+
+  try {
+    // The ABI decides between a call and a transaction; ethers reads legacy `constant` entries as view
+    const { stateMutability } = contract.interface.getFunction(signature);
+    if (stateMutability === 'view' || stateMutability === 'pure') {
+      const result = await contract[signature](...values);
+      return textResult(toJson(result));
+    }
+
+    if (!signer) {
+      return textResult(`${name} changes contract state; set PRIVATE_KEY to send transactions`, true);
+    }
+
+    const tx = await contract.connect(signer)[signature](...values);
+    const receipt = await tx.wait();
+    return textResult({
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      status: receipt.status === 1 ? 'success' : 'reverted',
+    });
+  } catch (error: any) {
+    console.error(`Error calling ${name}:`, error);
+    return textResult(`Failed to call ${name}: ${error?.reason || error?.message || String(error)}`, true);
+  }
+};
+
+export const createServer = (): Server => {
+  const server = new Server(
+    { name: "erc721-mcp-server", version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) =>
+    callTool(request.params.name, request.params.arguments || {})
+  );
+
+  return server;
+};
@@ -0,0 +1,368 @@
+import type { Abi, Account, Address, Hash, Hex, PublicClient, WalletClient } from 'viem';
+import { CONTRACT_ABI } from './abi.js';
+
+export { CONTRACT_ABI };
+
+// Where the contract was imported from: Sepolia Testnet
+export const CONTRACT_ADDRESS: Address = '0x000000000000000000000000000000000000dEaD';
+export const CHAIN_ID = 11155111;
+
+export type CollectParams = { tokenId: bigint; recipient: Address; amount0Max: bigint; amount1Max: bigint };
+export type DecreaseLiquidityParams = { tokenId: bigint; liquidity: bigint; amount0Min: bigint; amount1Min: bigint; deadline: bigint };
+export type IncreaseLiquidityParams = { tokenId: bigint; amount0Desired: bigint; amount1Desired: bigint; amount0Min: bigint; amount1Min: bigint; deadline: bigint };
+export type MintParams = { token0: Address; token1: Address; fee: number; tickLower: number; tickUpper: number; amount0Desired: bigint; amount1Desired: bigint; amount0Min: bigint; amount1Min: bigint; recipient: Address; deadline: bigint };
+
+export interface WriteOptions {
+  // Sender, when the wallet client has no account of its own
+  account?: Account | Address;
+  gas?: bigint;
+  nonce?: number;
+}
+
+export interface PayableOptions extends WriteOptions {
+  // Wei sent with the call
+  value?: bigint;
+}
+
+export interface NonfungiblePositionManagerClientConfig {
+  publicClient: PublicClient;
+  // Needed for state-changing functions
+  walletClient?: WalletClient;
+  // Defaults to CONTRACT_ADDRESS
+  address?: Address;
+}
+
+/**
+ * Typed client for nonfungible-position-manager. Read methods call the contract; write methods send a transaction and return its hash.
+ */
+export const createNonfungiblePositionManagerClient = ({ publicClient, walletClient, address = CONTRACT_ADDRESS }: NonfungiblePositionManagerClientConfig) => {
+  const abi = CONTRACT_ABI as Abi;
+
+  const getWalletClient = (): WalletClient => {
+    if (!walletClient) {
+      throw new Error('A walletClient is required for state-changing functions');
+    }
+    return walletClient;
+  };
+
+  return {
+    address,
+    /** Calls `DOMAIN_SEPARATOR()` (view) */
+    DOMAIN_SEPARATOR: async (): Promise<Hex> => {
+      return (await publicClient.readContract({ address, abi, functionName: "DOMAIN_SEPARATOR", args: [] })) as Hex;
+    },
+
+    /** Calls `PERMIT_TYPEHASH()` (view) */
+    PERMIT_TYPEHASH: async (): Promise<Hex> => {
+      return (await publicClient.readContract({ address, abi, functionName: "PERMIT_TYPEHASH", args: [] })) as Hex;
+    },
+
+    /** Calls `WETH9()` (view) */
+    WETH9: async (): Promise<Address> => {
+      return (await publicClient.readContract({ address, abi, functionName: "WETH9", args: [] })) as Address;
+    },
+
+    /** Calls `approve(address,uint256)` (nonpayable) */
+    approve: async (to: Address, tokenId: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "approve", args: [to, tokenId],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `balanceOf(address)` (view) */
+    balanceOf: async (owner: Address): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "balanceOf", args: [owner] })) as bigint;
+    },
+
+    /** Calls `baseURI()` (pure) */
+    baseURI: async (): Promise<string> => {
+      return (await publicClient.readContract({ address, abi, functionName: "baseURI", args: [] })) as string;
+    },
+
+    /** Calls `burn(uint256)` (payable) */
+    burn: async (tokenId: bigint, options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "burn", args: [tokenId],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `collect((uint256,address,uint128,uint128))` (payable) */
+    collect: async (params: CollectParams, options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "collect", args: [params],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `createAndInitializePoolIfNecessary(address,address,uint24,uint160)` (payable) */
+    createAndInitializePoolIfNecessary: async (token0: Address, token1: Address, fee: number, sqrtPriceX96: bigint, options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "createAndInitializePoolIfNecessary", args: [token0, token1, fee, sqrtPriceX96],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `decreaseLiquidity((uint256,uint128,uint256,uint256,uint256))` (payable) */
+    decreaseLiquidity: async (params: DecreaseLiquidityParams, options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "decreaseLiquidity", args: [params],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `factory()` (view) */
+    factory: async (): Promise<Address> => {
+      return (await publicClient.readContract({ address, abi, functionName: "factory", args: [] })) as Address;
+    },
+
+    /** Calls `getApproved(uint256)` (view) */
+    getApproved: async (tokenId: bigint): Promise<Address> => {
+      return (await publicClient.readContract({ address, abi, functionName: "getApproved", args: [tokenId] })) as Address;
+    },
+
+    /** Calls `increaseLiquidity((uint256,uint256,uint256,uint256,uint256,uint256))` (payable) */
+    increaseLiquidity: async (params: IncreaseLiquidityParams, options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "increaseLiquidity", args: [params],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `isApprovedForAll(address,address)` (view) */
+    isApprovedForAll: async (owner: Address, operator: Address): Promise<boolean> => {
+      return (await publicClient.readContract({ address, abi, functionName: "isApprovedForAll", args: [owner, operator] })) as boolean;
+    },
+
+    /** Calls `mint((address,address,uint24,int24,int24,uint256,uint256,uint256,uint256,address,uint256))` (payable) */
+    mint: async (params: MintParams, options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "mint", args: [params],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `multicall(bytes[])` (payable) */
+    multicall: async (data: readonly Hex[], options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "multicall", args: [data],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `name()` (view) */
+    name: async (): Promise<string> => {
+      return (await publicClient.readContract({ address, abi, functionName: "name", args: [] })) as string;
+    },
+
+    /** Calls `ownerOf(uint256)` (view) */
+    ownerOf: async (tokenId: bigint): Promise<Address> => {
+      return (await publicClient.readContract({ address, abi, functionName: "ownerOf", args: [tokenId] })) as Address;
+    },
+
+    /** Calls `permit(address,uint256,uint256,uint8,bytes32,bytes32)` (payable) */
+    permit: async (spender: Address, tokenId: bigint, deadline: bigint, v: number, r: Hex, s: Hex, options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "permit", args: [spender, tokenId, deadline, v, r, s],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `positions(uint256)` (view) */
+    positions: async (tokenId: bigint): Promise<readonly [bigint, Address, Address, Address, number, number, number, bigint, bigint, bigint, bigint, bigint]> => {
+      return (await publicClient.readContract({ address, abi, functionName: "positions", args: [tokenId] })) as readonly [bigint, Address, Address, Address, number, number, number, bigint, bigint, bigint, bigint, bigint];
+    },
+
+    /** Calls `refundETH()` (payable) */
+    refundETH: async (options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "refundETH", args: [],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `safeTransferFrom(address,address,uint256)` (nonpayable) */
+    safeTransferFrom_address_address_uint256: async (from: Address, to: Address, tokenId: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "safeTransferFrom", args: [from, to, tokenId],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `safeTransferFrom(address,address,uint256,bytes)` (nonpayable) */
+    safeTransferFrom_address_address_uint256_bytes: async (from: Address, to: Address, tokenId: bigint, _data: Hex, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "safeTransferFrom", args: [from, to, tokenId, _data],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `selfPermit(address,uint256,uint256,uint8,bytes32,bytes32)` (payable) */
+    selfPermit: async (token: Address, value: bigint, deadline: bigint, v: number, r: Hex, s: Hex, options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "selfPermit", args: [token, value, deadline, v, r, s],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `selfPermitAllowed(address,uint256,uint256,uint8,bytes32,bytes32)` (payable) */
+    selfPermitAllowed: async (token: Address, nonce: bigint, expiry: bigint, v: number, r: Hex, s: Hex, options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "selfPermitAllowed", args: [token, nonce, expiry, v, r, s],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `selfPermitAllowedIfNecessary(address,uint256,uint256,uint8,bytes32,bytes32)` (payable) */
+    selfPermitAllowedIfNecessary: async (token: Address, nonce: bigint, expiry: bigint, v: number, r: Hex, s: Hex, options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "selfPermitAllowedIfNecessary", args: [token, nonce, expiry, v, r, s],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `selfPermitIfNecessary(address,uint256,uint256,uint8,bytes32,bytes32)` (payable) */
+    selfPermitIfNecessary: async (token: Address, value: bigint, deadline: bigint, v: number, r: Hex, s: Hex, options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "selfPermitIfNecessary", args: [token, value, deadline, v, r, s],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `setApprovalForAll(address,bool)` (nonpayable) */
+    setApprovalForAll: async (operator: Address, approved: boolean, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "setApprovalForAll", args: [operator, approved],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `supportsInterface(bytes4)` (view) */
+    supportsInterface: async (interfaceId: Hex): Promise<boolean> => {
+      return (await publicClient.readContract({ address, abi, functionName: "supportsInterface", args: [interfaceId] })) as boolean;
+    },
+
+    /** Calls `sweepToken(address,uint256,address)` (payable) */
+    sweepToken: async (token: Address, amountMinimum: bigint, recipient: Address, options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "sweepToken", args: [token, amountMinimum, recipient],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `symbol()` (view) */
+    symbol: async (): Promise<string> => {
+      return (await publicClient.readContract({ address, abi, functionName: "symbol", args: [] })) as string;
+    },
+
+    /** Calls `tokenByIndex(uint256)` (view) */
+    tokenByIndex: async (index: bigint): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "tokenByIndex", args: [index] })) as bigint;
+    },
+
+    /** Calls `tokenOfOwnerByIndex(address,uint256)` (view) */
+    tokenOfOwnerByIndex: async (owner: Address, index: bigint): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "tokenOfOwnerByIndex", args: [owner, index] })) as bigint;
+    },
+
+    /** Calls `tokenURI(uint256)` (view) */
+    tokenURI: async (tokenId: bigint): Promise<string> => {
+      return (await publicClient.readContract({ address, abi, functionName: "tokenURI", args: [tokenId] })) as string;
+    },
+
+    /** Calls `totalSupply()` (view) */
+    totalSupply: async (): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "totalSupply", args: [] })) as bigint;
+    },
+
+    /** Calls `transferFrom(address,address,uint256)` (nonpayable) */
+    transferFrom: async (from: Address, to: Address, tokenId: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "transferFrom", args: [from, to, tokenId],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `uniswapV3MintCallback(uint256,uint256,bytes)` (nonpayable) */
+    uniswapV3MintCallback: async (amount0Owed: bigint, amount1Owed: bigint, data: Hex, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "uniswapV3MintCallback", args: [amount0Owed, amount1Owed, data],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `unwrapWETH9(uint256,address)` (payable) */
+    unwrapWETH9: async (amountMinimum: bigint, recipient: Address, options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "unwrapWETH9", args: [amountMinimum, recipient],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+  };
+};
+
+export type NonfungiblePositionManagerClient = ReturnType<typeof createNonfungiblePositionManagerClient>;
@@ -0,0 +1,56 @@
+import http from 'node:http';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { CONTRACT_NAME, createServer } from './server.js';
+
+// Streamable HTTP in stateless mode: every request gets its own server and transport
+const startHttpServer = (port: number) => {
+  const httpServer = http.createServer(async (req, res) => {
+    if (req.url !== '/mcp') {
+      res.writeHead(404).end();
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' }).end();
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      console.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        res.writeHead(500).end();
+      }
+    }
+  });
+
+  httpServer.listen(port, () => {
+    console.error(`MCP server for ${CONTRACT_NAME} listening on http://localhost:${port}/mcp`);
+  });
+};
+
+const main = async () => {
+  if (process.argv.includes('--http') || process.env.MCP_TRANSPORT === 'http') {
+    startHttpServer(Number(process.env.PORT) || 3000);
+    return;
+  }
+
+  // stdout carries the protocol, so logs go to stderr
+  await createServer().connect(new StdioServerTransport());
+  console.error(`MCP server for ${CONTRACT_NAME} running on stdio`);
+};
+
+main().catch((error) => {
+  console.error('Failed to start MCP server:', error);
+  process.exit(1);
+});
@@ -0,0 +1,1487 @@
+import { ethers } from 'ethers';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, CallToolResult, ListToolsRequestSchema, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CONTRACT_ABI } from './abi.js';
+
+// Contract configuration
+export const CONTRACT_ADDRESS = '0x000000000000000000000000000000000000dEaD';
+export const CONTRACT_NAME = "nonfungible-position-manager";
+
+// Network: Sepolia Testnet. Set RPC_URL to use your own provider.
+const CHAIN_ID = 11155111;
+const RPC_URL = process.env.RPC_URL || 'https://ethereum-sepolia-rpc.publicnode.com';
+const provider = new ethers.providers.StaticJsonRpcProvider(RPC_URL, CHAIN_ID);
+
+// Initialize contract instance
+const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
+
+// State-changing functions are sent from this key. Without it they return an error.
+const signer = process.env.PRIVATE_KEY ? new ethers.Wallet(process.env.PRIVATE_KEY, provider) : null;
+
+// One tool per contract function; _meta.signature selects overloaded functions
+export const TOOLS: Tool[] = [
+  {
+    "name": "DOMAIN_SEPARATOR",
+    "description": "Calls the DOMAIN_SEPARATOR function. Returns: return (bytes32). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "DOMAIN_SEPARATOR",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "DOMAIN_SEPARATOR()"
+    }
+  },
+  {
+    "name": "PERMIT_TYPEHASH",
+    "description": "Calls the PERMIT_TYPEHASH function. Returns: return (bytes32). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "PERMIT_TYPEHASH",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "PERMIT_TYPEHASH()"
+    }
+  },
+  {
+    "name": "WETH9",
+    "description": "Calls the WETH9 function. Returns: return (address). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "WETH9",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "WETH9()"
+    }
+  },
+  {
+    "name": "approve",
+    "description": "Calls the approve function with parameters: to (address), tokenId (uint256). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "to",
+        "tokenId"
+      ]
+    },
+    "annotations": {
+      "title": "approve",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "approve(address,uint256)"
+    }
+  },
+  {
+    "name": "balanceOf",
+    "description": "Calls the balanceOf function with parameters: owner (address). Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "owner": {
+          "type": "string",
+          "description": "Ethereum address for owner (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "owner"
+      ]
+    },
+    "annotations": {
+      "title": "balanceOf",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "balanceOf(address)"
+    }
+  },
+  {
+    "name": "baseURI",
+    "description": "Calls the baseURI function. Returns: return (string). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "baseURI",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "baseURI()"
+    }
+  },
+  {
+    "name": "burn",
+    "description": "Calls the burn function with parameters: tokenId (uint256). This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "tokenId"
+      ]
+    },
+    "annotations": {
+      "title": "burn",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "burn(uint256)"
+    }
+  },
+  {
+    "name": "collect",
+    "description": "Calls the collect function with parameters: params (tuple). Returns: amount0 (uint256), amount1 (uint256). This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "params": {
+          "type": "object",
+          "properties": {
+            "tokenId": {
+              "type": "string",
+              "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            },
+            "recipient": {
+              "type": "string",
+              "description": "Ethereum address for recipient (0x-prefixed 20-byte address)",
+              "pattern": "^0x[0-9a-fA-F]{40}$"
+            },
+            "amount0Max": {
+              "type": "string",
+              "description": "Parameter amount0Max of type uint128 (uint128 as a decimal string, 0 to 2^128-1)",
+              "pattern": "^[0-9]{1,39}$"
+            },
+            "amount1Max": {
+              "type": "string",
+              "description": "Parameter amount1Max of type uint128 (uint128 as a decimal string, 0 to 2^128-1)",
+              "pattern": "^[0-9]{1,39}$"
+            }
+          },
+          "required": [
+            "tokenId",
+            "recipient",
+            "amount0Max",
+            "amount1Max"
+          ],
+          "additionalProperties": false,
+          "description": "Parameter params of type tuple"
+        }
+      },
+      "required": [
+        "params"
+      ]
+    },
+    "annotations": {
+      "title": "collect",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "collect((uint256,address,uint128,uint128))"
+    }
+  },
+  {
+    "name": "createAndInitializePoolIfNecessary",
+    "description": "Calls the createAndInitializePoolIfNecessary function with parameters: token0 (address), token1 (address), fee (uint24), sqrtPriceX96 (uint160). Returns: pool (address). This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "token0": {
+          "type": "string",
+          "description": "Ethereum address for token0 (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "token1": {
+          "type": "string",
+          "description": "Ethereum address for token1 (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "fee": {
+          "type": "string",
+          "description": "Parameter fee of type uint24 (uint24 as a decimal string, 0 to 16777215)",
+          "pattern": "^[0-9]{1,8}$"
+        },
+        "sqrtPriceX96": {
+          "type": "string",
+          "description": "Parameter sqrtPriceX96 of type uint160 (uint160 as a decimal string, 0 to 2^160-1)",
+          "pattern": "^[0-9]{1,49}$"
+        }
+      },
+      "required": [
+        "token0",
+        "token1",
+        "fee",
+        "sqrtPriceX96"
+      ]
+    },
+    "annotations": {
+      "title": "createAndInitializePoolIfNecessary",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "createAndInitializePoolIfNecessary(address,address,uint24,uint160)"
+    }
+  },
+  {
+    "name": "decreaseLiquidity",
+    "description": "Calls the decreaseLiquidity function with parameters: params (tuple). Returns: amount0 (uint256), amount1 (uint256). This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "params": {
+          "type": "object",
+          "properties": {
+            "tokenId": {
+              "type": "string",
+              "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            },
+            "liquidity": {
+              "type": "string",
+              "description": "Parameter liquidity of type uint128 (uint128 as a decimal string, 0 to 2^128-1)",
+              "pattern": "^[0-9]{1,39}$"
+            },
+            "amount0Min": {
+              "type": "string",
+              "description": "Numeric value for amount0Min (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            },
+            "amount1Min": {
+              "type": "string",
+              "description": "Numeric value for amount1Min (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            },
+            "deadline": {
+              "type": "string",
+              "description": "Numeric value for deadline (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            }
+          },
+          "required": [
+            "tokenId",
+            "liquidity",
+            "amount0Min",
+            "amount1Min",
+            "deadline"
+          ],
+          "additionalProperties": false,
+          "description": "Parameter params of type tuple"
+        }
+      },
+      "required": [
+        "params"
+      ]
+    },
+    "annotations": {
+      "title": "decreaseLiquidity",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "decreaseLiquidity((uint256,uint128,uint256,uint256,uint256))"
+    }
+  },
+  {
+    "name": "factory",
+    "description": "Calls the factory function. Returns: return (address). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "factory",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "factory()"
+    }
+  },
+  {
+    "name": "getApproved",
+    "description": "Calls the getApproved function with parameters: tokenId (uint256). Returns: return (address). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "tokenId"
+      ]
+    },
+    "annotations": {
+      "title": "getApproved",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "getApproved(uint256)"
+    }
+  },
+  {
+    "name": "increaseLiquidity",
+    "description": "Calls the increaseLiquidity function with parameters: params (tuple). Returns: liquidity (uint128), amount0 (uint256), amount1 (uint256). This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "params": {
+          "type": "object",
+          "properties": {
+            "tokenId": {
+              "type": "string",
+              "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            },
+            "amount0Desired": {
+              "type": "string",
+              "description": "Numeric value for amount0Desired (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            },
+            "amount1Desired": {
+              "type": "string",
+              "description": "Numeric value for amount1Desired (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            },
+            "amount0Min": {
+              "type": "string",
+              "description": "Numeric value for amount0Min (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            },
+            "amount1Min": {
+              "type": "string",
+              "description": "Numeric value for amount1Min (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            },
+            "deadline": {
+              "type": "string",
+              "description": "Numeric value for deadline (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            }
+          },
+          "required": [
+            "tokenId",
+            "amount0Desired",
+            "amount1Desired",
+            "amount0Min",
+            "amount1Min",
+            "deadline"
+          ],
+          "additionalProperties": false,
+          "description": "Parameter params of type tuple"
+        }
+      },
+      "required": [
+        "params"
+      ]
+    },
+    "annotations": {
+      "title": "increaseLiquidity",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "increaseLiquidity((uint256,uint256,uint256,uint256,uint256,uint256))"
+    }
+  },
+  {
+    "name": "isApprovedForAll",
+    "description": "Calls the isApprovedForAll function with parameters: owner (address), operator (address). Returns: return (bool). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "owner": {
+          "type": "string",
+          "description": "Ethereum address for owner (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "operator": {
+          "type": "string",
+          "description": "Ethereum address for operator (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "owner",
+        "operator"
+      ]
+    },
+    "annotations": {
+      "title": "isApprovedForAll",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "isApprovedForAll(address,address)"
+    }
+  },
+  {
+    "name": "mint",
+    "description": "Calls the mint function with parameters: params (tuple). Returns: tokenId (uint256), liquidity (uint128), amount0 (uint256), amount1 (uint256). This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "params": {
+          "type": "object",
+          "properties": {
+            "token0": {
+              "type": "string",
+              "description": "Ethereum address for token0 (0x-prefixed 20-byte address)",
+              "pattern": "^0x[0-9a-fA-F]{40}$"
+            },
+            "token1": {
+              "type": "string",
+              "description": "Ethereum address for token1 (0x-prefixed 20-byte address)",
+              "pattern": "^0x[0-9a-fA-F]{40}$"
+            },
+            "fee": {
+              "type": "string",
+              "description": "Parameter fee of type uint24 (uint24 as a decimal string, 0 to 16777215)",
+              "pattern": "^[0-9]{1,8}$"
+            },
+            "tickLower": {
+              "type": "string",
+              "description": "Parameter tickLower of type int24 (int24 as a decimal string, -8388608 to 8388607)",
+              "pattern": "^-?[0-9]{1,7}$"
+            },
+            "tickUpper": {
+              "type": "string",
+              "description": "Parameter tickUpper of type int24 (int24 as a decimal string, -8388608 to 8388607)",
+              "pattern": "^-?[0-9]{1,7}$"
+            },
+            "amount0Desired": {
+              "type": "string",
+              "description": "Numeric value for amount0Desired (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            },
+            "amount1Desired": {
+              "type": "string",
+              "description": "Numeric value for amount1Desired (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            },
+            "amount0Min": {
+              "type": "string",
+              "description": "Numeric value for amount0Min (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            },
+            "amount1Min": {
+              "type": "string",
+              "description": "Numeric value for amount1Min (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            },
+            "recipient": {
+              "type": "string",
+              "description": "Ethereum address for recipient (0x-prefixed 20-byte address)",
+              "pattern": "^0x[0-9a-fA-F]{40}$"
+            },
+            "deadline": {
+              "type": "string",
+              "description": "Numeric value for deadline (uint256 as a decimal string, 0 to 2^256-1)",
+              "pattern": "^[0-9]{1,78}$"
+            }
+          },
+          "required": [
+            "token0",
+            "token1",
+            "fee",
+            "tickLower",
+            "tickUpper",
+            "amount0Desired",
+            "amount1Desired",
+            "amount0Min",
+            "amount1Min",
+            "recipient",
+            "deadline"
+          ],
+          "additionalProperties": false,
+          "description": "Parameter params of type tuple"
+        }
+      },
+      "required": [
+        "params"
+      ]
+    },
+    "annotations": {
+      "title": "mint",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "mint((address,address,uint24,int24,int24,uint256,uint256,uint256,uint256,address,uint256))"
+    }
+  },
+  {
+    "name": "multicall",
+    "description": "Calls the multicall function with parameters: data (bytes[]). Returns: results (bytes[]). This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "data": {
+          "type": "array",
+          "items": {
+            "type": "string",
+            "description": "0x-prefixed hex bytes",
+            "pattern": "^0x([0-9a-fA-F]{2})*$"
+          },
+          "description": "Bytes data for data"
+        }
+      },
+      "required": [
+        "data"
+      ]
+    },
+    "annotations": {
+      "title": "multicall",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "multicall(bytes[])"
+    }
+  },
+  {
+    "name": "name",
+    "description": "Calls the name function. Returns: return (string). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "name",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "name()"
+    }
+  },
+  {
+    "name": "ownerOf",
+    "description": "Calls the ownerOf function with parameters: tokenId (uint256). Returns: return (address). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "tokenId"
+      ]
+    },
+    "annotations": {
+      "title": "ownerOf",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "ownerOf(uint256)"
+    }
+  },
+  {
+    "name": "permit",
+    "description": "Calls the permit function with parameters: spender (address), tokenId (uint256), deadline (uint256), v (uint8), r (bytes32), s (bytes32). This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "spender": {
+          "type": "string",
+          "description": "Ethereum address for spender (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "deadline": {
+          "type": "string",
+          "description": "Numeric value for deadline (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "v": {
+          "type": "string",
+          "description": "Parameter v of type uint8 (uint8 as a decimal string, 0 to 255)",
+          "pattern": "^[0-9]{1,3}$"
+        },
+        "r": {
+          "type": "string",
+          "description": "Bytes data for r (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        },
+        "s": {
+          "type": "string",
+          "description": "Bytes data for s (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        }
+      },
+      "required": [
+        "spender",
+        "tokenId",
+        "deadline",
+        "v",
+        "r",
+        "s"
+      ]
+    },
+    "annotations": {
+      "title": "permit",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "permit(address,uint256,uint256,uint8,bytes32,bytes32)"
+    }
+  },
+  {
+    "name": "positions",
+    "description": "Calls the positions function with parameters: tokenId (uint256). Returns: nonce (uint96), operator (address), token0 (address), token1 (address), fee (uint24), tickLower (int24), tickUpper (int24), liquidity (uint128), feeGrowthInside0LastX128 (uint256), feeGrowthInside1LastX128 (uint256), tokensOwed0 (uint128), tokensOwed1 (uint128). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "tokenId"
+      ]
+    },
+    "annotations": {
+      "title": "positions",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "positions(uint256)"
+    }
+  },
+  {
+    "name": "refundETH",
+    "description": "Calls the refundETH function. This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "refundETH",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "refundETH()"
+    }
+  },
+  {
+    "name": "safeTransferFrom_address_address_uint256",
+    "description": "Calls the safeTransferFrom function with parameters: from (address), to (address), tokenId (uint256). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "from": {
+          "type": "string",
+          "description": "Ethereum address for from (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "from",
+        "to",
+        "tokenId"
+      ]
+    },
+    "annotations": {
+      "title": "safeTransferFrom",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "safeTransferFrom(address,address,uint256)"
+    }
+  },
+  {
+    "name": "safeTransferFrom_address_address_uint256_bytes",
+    "description": "Calls the safeTransferFrom function with parameters: from (address), to (address), tokenId (uint256), _data (bytes). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "from": {
+          "type": "string",
+          "description": "Ethereum address for from (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "_data": {
+          "type": "string",
+          "description": "Bytes data for _data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        }
+      },
+      "required": [
+        "from",
+        "to",
+        "tokenId",
+        "_data"
+      ]
+    },
+    "annotations": {
+      "title": "safeTransferFrom",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "safeTransferFrom(address,address,uint256,bytes)"
+    }
+  },
+  {
+    "name": "selfPermit",
+    "description": "Calls the selfPermit function with parameters: token (address), value (uint256), deadline (uint256), v (uint8), r (bytes32), s (bytes32). This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "token": {
+          "type": "string",
+          "description": "Ethereum address for token (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "value": {
+          "type": "string",
+          "description": "Numeric value for value (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "deadline": {
+          "type": "string",
+          "description": "Numeric value for deadline (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "v": {
+          "type": "string",
+          "description": "Parameter v of type uint8 (uint8 as a decimal string, 0 to 255)",
+          "pattern": "^[0-9]{1,3}$"
+        },
+        "r": {
+          "type": "string",
+          "description": "Bytes data for r (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        },
+        "s": {
+          "type": "string",
+          "description": "Bytes data for s (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        }
+      },
+      "required": [
+        "token",
+        "value",
+        "deadline",
+        "v",
+        "r",
+        "s"
+      ]
+    },
+    "annotations": {
+      "title": "selfPermit",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "selfPermit(address,uint256,uint256,uint8,bytes32,bytes32)"
+    }
+  },
+  {
+    "name": "selfPermitAllowed",
+    "description": "Calls the selfPermitAllowed function with parameters: token (address), nonce (uint256), expiry (uint256), v (uint8), r (bytes32), s (bytes32). This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "token": {
+          "type": "string",
+          "description": "Ethereum address for token (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "nonce": {
+          "type": "string",
+          "description": "Numeric value for nonce (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "expiry": {
+          "type": "string",
+          "description": "Numeric value for expiry (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "v": {
+          "type": "string",
+          "description": "Parameter v of type uint8 (uint8 as a decimal string, 0 to 255)",
+          "pattern": "^[0-9]{1,3}$"
+        },
+        "r": {
+          "type": "string",
+          "description": "Bytes data for r (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        },
+        "s": {
+          "type": "string",
+          "description": "Bytes data for s (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        }
+      },
+      "required": [
+        "token",
+        "nonce",
+        "expiry",
+        "v",
+        "r",
+        "s"
+      ]
+    },
+    "annotations": {
+      "title": "selfPermitAllowed",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "selfPermitAllowed(address,uint256,uint256,uint8,bytes32,bytes32)"
+    }
+  },
+  {
+    "name": "selfPermitAllowedIfNecessary",
+    "description": "Calls the selfPermitAllowedIfNecessary function with parameters: token (address), nonce (uint256), expiry (uint256), v (uint8), r (bytes32), s (bytes32). This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "token": {
+          "type": "string",
+          "description": "Ethereum address for token (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "nonce": {
+          "type": "string",
+          "description": "Numeric value for nonce (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "expiry": {
+          "type": "string",
+          "description": "Numeric value for expiry (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "v": {
+          "type": "string",
+          "description": "Parameter v of type uint8 (uint8 as a decimal string, 0 to 255)",
+          "pattern": "^[0-9]{1,3}$"
+        },
+        "r": {
+          "type": "string",
+          "description": "Bytes data for r (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        },
+        "s": {
+          "type": "string",
+          "description": "Bytes data for s (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        }
+      },
+      "required": [
+        "token",
+        "nonce",
+        "expiry",
+        "v",
+        "r",
+        "s"
+      ]
+    },
+    "annotations": {
+      "title": "selfPermitAllowedIfNecessary",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "selfPermitAllowedIfNecessary(address,uint256,uint256,uint8,bytes32,bytes32)"
+    }
+  },
+  {
+    "name": "selfPermitIfNecessary",
+    "description": "Calls the selfPermitIfNecessary function with parameters: token (address), value (uint256), deadline (uint256), v (uint8), r (bytes32), s (bytes32). This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "token": {
+          "type": "string",
+          "description": "Ethereum address for token (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "value": {
+          "type": "string",
+          "description": "Numeric value for value (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "deadline": {
+          "type": "string",
+          "description": "Numeric value for deadline (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "v": {
+          "type": "string",
+          "description": "Parameter v of type uint8 (uint8 as a decimal string, 0 to 255)",
+          "pattern": "^[0-9]{1,3}$"
+        },
+        "r": {
+          "type": "string",
+          "description": "Bytes data for r (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        },
+        "s": {
+          "type": "string",
+          "description": "Bytes data for s (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        }
+      },
+      "required": [
+        "token",
+        "value",
+        "deadline",
+        "v",
+        "r",
+        "s"
+      ]
+    },
+    "annotations": {
+      "title": "selfPermitIfNecessary",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "selfPermitIfNecessary(address,uint256,uint256,uint8,bytes32,bytes32)"
+    }
+  },
+  {
+    "name": "setApprovalForAll",
+    "description": "Calls the setApprovalForAll function with parameters: operator (address), approved (bool). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "operator": {
+          "type": "string",
+          "description": "Ethereum address for operator (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "approved": {
+          "type": "boolean",
+          "description": "Boolean flag for approved"
+        }
+      },
+      "required": [
+        "operator",
+        "approved"
+      ]
+    },
+    "annotations": {
+      "title": "setApprovalForAll",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "setApprovalForAll(address,bool)"
+    }
+  },
+  {
+    "name": "supportsInterface",
+    "description": "Calls the supportsInterface function with parameters: interfaceId (bytes4). Returns: return (bool). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "interfaceId": {
+          "type": "string",
+          "description": "Bytes data for interfaceId (0x-prefixed hex, exactly 4 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{8}$"
+        }
+      },
+      "required": [
+        "interfaceId"
+      ]
+    },
+    "annotations": {
+      "title": "supportsInterface",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "supportsInterface(bytes4)"
+    }
+  },
+  {
+    "name": "sweepToken",
+    "description": "Calls the sweepToken function with parameters: token (address), amountMinimum (uint256), recipient (address). This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "token": {
+          "type": "string",
+          "description": "Ethereum address for token (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "amountMinimum": {
+          "type": "string",
+          "description": "Numeric value for amountMinimum (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "recipient": {
+          "type": "string",
+          "description": "Ethereum address for recipient (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "token",
+        "amountMinimum",
+        "recipient"
+      ]
+    },
+    "annotations": {
+      "title": "sweepToken",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "sweepToken(address,uint256,address)"
+    }
+  },
+  {
+    "name": "symbol",
+    "description": "Calls the symbol function. Returns: return (string). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "symbol",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "symbol()"
+    }
+  },
+  {
+    "name": "tokenByIndex",
+    "description": "Calls the tokenByIndex function with parameters: index (uint256). Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "index": {
+          "type": "string",
+          "description": "Numeric value for index (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "index"
+      ]
+    },
+    "annotations": {
+      "title": "tokenByIndex",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "tokenByIndex(uint256)"
+    }
+  },
+  {
+    "name": "tokenOfOwnerByIndex",
+    "description": "Calls the tokenOfOwnerByIndex function with parameters: owner (address), index (uint256). Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "owner": {
+          "type": "string",
+          "description": "Ethereum address for owner (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "index": {
+          "type": "string",
+          "description": "Numeric value for index (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "owner",
+        "index"
+      ]
+    },
+    "annotations": {
+      "title": "tokenOfOwnerByIndex",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "tokenOfOwnerByIndex(address,uint256)"
+    }
+  },
+  {
+    "name": "tokenURI",
+    "description": "Calls the tokenURI function with parameters: tokenId (uint256). Returns: return (string). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "tokenId"
+      ]
+    },
+    "annotations": {
+      "title": "tokenURI",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "tokenURI(uint256)"
+    }
+  },
+  {
+    "name": "totalSupply",
+    "description": "Calls the totalSupply function. Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "totalSupply",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "totalSupply()"
+    }
+  },
+  {
+    "name": "transferFrom",
+    "description": "Calls the transferFrom function with parameters: from (address), to (address), tokenId (uint256). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "from": {
+          "type": "string",
+          "description": "Ethereum address for from (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "tokenId": {
+          "type": "string",
+          "description": "Numeric value for tokenId (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "from",
+        "to",
+        "tokenId"
+      ]
+    },
+    "annotations": {
+      "title": "transferFrom",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "transferFrom(address,address,uint256)"
+    }
+  },
+  {
+    "name": "uniswapV3MintCallback",
+    "description": "Calls the uniswapV3MintCallback function with parameters: amount0Owed (uint256), amount1Owed (uint256), data (bytes). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "amount0Owed": {
+          "type": "string",
+          "description": "Numeric value for amount0Owed (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "amount1Owed": {
+          "type": "string",
+          "description": "Numeric value for amount1Owed (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        }
+      },
+      "required": [
+        "amount0Owed",
+        "amount1Owed",
+        "data"
+      ]
+    },
+    "annotations": {
+      "title": "uniswapV3MintCallback",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "uniswapV3MintCallback(uint256,uint256,bytes)"
+    }
+  },
+  {
+    "name": "unwrapWETH9",
+    "description": "Calls the unwrapWETH9 function with parameters: amountMinimum (uint256), recipient (address). This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "amountMinimum": {
+          "type": "string",
+          "description": "Numeric value for amountMinimum (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "recipient": {
+          "type": "string",
+          "description": "Ethereum address for recipient (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "amountMinimum",
+        "recipient"
+      ]
+    },
+    "annotations": {
+      "title": "unwrapWETH9",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "unwrapWETH9(uint256,address)"
+    }
+  }
+];
+
+// Converts call results to JSON: numbers become decimal strings and structs become objects
+const toJson = (value: any): any => {
+  if (ethers.BigNumber.isBigNumber(value)) return value.toString();
+  if (Array.isArray(value)) {
+    const keys = Object.keys(value).filter(key => Number.isNaN(Number(key)));
+    return keys.length === value.length
+      ? Object.fromEntries(keys.map(key => [key, toJson((value as any)[key])]))
+      : value.map(toJson);
+  }
+  return value;
+};
+
+const textResult = (value: unknown, isError = false): CallToolResult => ({
+  content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value, null, 2) }],
+  isError,
+});
+
+const callTool = async (name: string, args: Record<string, unknown>): Promise<CallToolResult> => {
+  const tool = TOOLS.find(item => item.name === name);
+  if (!tool) {
+    return textResult(`Unknown tool: ${name}`, true);
+  }
+
+  const parameters = (tool.inputSchema.required || []) as string[];
+  const missing = parameters.filter(param => args[param] === undefined);
+  if (missing.length > 0) {
+    return textResult(`Missing required parameters: ${missing.join(', ')}`, true);
+  }
+
+  const signature = (tool._meta?.signature as string) || name;
+  const values = parameters.map(param => args[param]);
+
+  try {
+    // The ABI decides between a call and a transaction; ethers reads legacy `constant` entries as view
+    const { stateMutability } = contract.interface.getFunction(signature);
+    if (stateMutability === 'view' || stateMutability === 'pure') {
+      const result = await contract[signature](...values);
+      return textResult(toJson(result));
+    }
+
+    if (!signer) {
+      return textResult(`${name} changes contract state; set PRIVATE_KEY to send transactions`, true);
+    }
+
+    const tx = await contract.connect(signer)[signature](...values);
+    const receipt = await tx.wait();
+    return textResult({
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      status: receipt.status === 1 ? 'success' : 'reverted',
+    });
+  } catch (error: any) {
+    console.error(`Error calling ${name}:`, error);
+    return textResult(`Failed to call ${name}: ${error?.reason || error?.message || String(error)}`, true);
+  }
+};
+
+export const createServer = (): Server => {
+  const server = new Server(
+    { name: "nonfungible-position-manager-mcp-server", version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) =>
+    callTool(request.params.name, request.params.arguments || {})
+  );
+
+  return server;
+};
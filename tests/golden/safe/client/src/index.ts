@@ -0,0 +1,292 @@
+import type { Abi, Account, Address, Hash, Hex, PublicClient, WalletClient } from 'viem';
+import { CONTRACT_ABI } from './abi.js';
+
+export { CONTRACT_ABI };
+
+// Where the contract was imported from: Sepolia Testnet
+export const CONTRACT_ADDRESS: Address = '0x000000000000000000000000000000000000dEaD';
+export const CHAIN_ID = 11155111;
+
+export interface WriteOptions {
+  // Sender, when the wallet client has no account of its own
+  account?: Account | Address;
+  gas?: bigint;
+  nonce?: number;
+}
+
+export interface PayableOptions extends WriteOptions {
+  // Wei sent with the call
+  value?: bigint;
+}
+
+export interface SafeClientConfig {
+  publicClient: PublicClient;
+  // Needed for state-changing functions
+  walletClient?: WalletClient;
+  // Defaults to CONTRACT_ADDRESS
+  address?: Address;
+}
+
+/**
+ * Typed client for safe. Read methods call the contract; write methods send a transaction and return its hash.
+ */
+export const createSafeClient = ({ publicClient, walletClient, address = CONTRACT_ADDRESS }: SafeClientConfig) => {
+  const abi = CONTRACT_ABI as Abi;
+
+  const getWalletClient = (): WalletClient => {
+    if (!walletClient) {
+      throw new Error('A walletClient is required for state-changing functions');
+    }
+    return walletClient;
+  };
+
+  return {
+    address,
+    /** Calls `VERSION()` (view) */
+    VERSION: async (): Promise<string> => {
+      return (await publicClient.readContract({ address, abi, functionName: "VERSION", args: [] })) as string;
+    },
+
+    /** Calls `addOwnerWithThreshold(address,uint256)` (nonpayable) */
+    addOwnerWithThreshold: async (owner: Address, _threshold: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "addOwnerWithThreshold", args: [owner, _threshold],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `approveHash(bytes32)` (nonpayable) */
+    approveHash: async (hashToApprove: Hex, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "approveHash", args: [hashToApprove],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `approvedHashes(address,bytes32)` (view) */
+    approvedHashes: async (arg0: Address, arg1: Hex): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "approvedHashes", args: [arg0, arg1] })) as bigint;
+    },
+
+    /** Calls `changeThreshold(uint256)` (nonpayable) */
+    changeThreshold: async (_threshold: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "changeThreshold", args: [_threshold],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `checkNSignatures(bytes32,bytes,bytes,uint256)` (view) */
+    checkNSignatures: async (dataHash: Hex, data: Hex, signatures: Hex, requiredSignatures: bigint): Promise<void> => {
+      return (await publicClient.readContract({ address, abi, functionName: "checkNSignatures", args: [dataHash, data, signatures, requiredSignatures] })) as void;
+    },
+
+    /** Calls `checkSignatures(bytes32,bytes,bytes)` (view) */
+    checkSignatures: async (dataHash: Hex, data: Hex, signatures: Hex): Promise<void> => {
+      return (await publicClient.readContract({ address, abi, functionName: "checkSignatures", args: [dataHash, data, signatures] })) as void;
+    },
+
+    /** Calls `disableModule(address,address)` (nonpayable) */
+    disableModule: async (prevModule: Address, module: Address, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "disableModule", args: [prevModule, module],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `domainSeparator()` (view) */
+    domainSeparator: async (): Promise<Hex> => {
+      return (await publicClient.readContract({ address, abi, functionName: "domainSeparator", args: [] })) as Hex;
+    },
+
+    /** Calls `enableModule(address)` (nonpayable) */
+    enableModule: async (module: Address, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "enableModule", args: [module],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `encodeTransactionData(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,uint256)` (view) */
+    encodeTransactionData: async (to: Address, value: bigint, data: Hex, operation: number, safeTxGas: bigint, baseGas: bigint, gasPrice: bigint, gasToken: Address, refundReceiver: Address, _nonce: bigint): Promise<Hex> => {
+      return (await publicClient.readContract({ address, abi, functionName: "encodeTransactionData", args: [to, value, data, operation, safeTxGas, baseGas, gasPrice, gasToken, refundReceiver, _nonce] })) as Hex;
+    },
+
+    /** Calls `execTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes)` (payable) */
+    execTransaction: async (to: Address, value: bigint, data: Hex, operation: number, safeTxGas: bigint, baseGas: bigint, gasPrice: bigint, gasToken: Address, refundReceiver: Address, signatures: Hex, options: PayableOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "execTransaction", args: [to, value, data, operation, safeTxGas, baseGas, gasPrice, gasToken, refundReceiver, signatures],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `execTransactionFromModule(address,uint256,bytes,uint8)` (nonpayable) */
+    execTransactionFromModule: async (to: Address, value: bigint, data: Hex, operation: number, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "execTransactionFromModule", args: [to, value, data, operation],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `execTransactionFromModuleReturnData(address,uint256,bytes,uint8)` (nonpayable) */
+    execTransactionFromModuleReturnData: async (to: Address, value: bigint, data: Hex, operation: number, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "execTransactionFromModuleReturnData", args: [to, value, data, operation],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `getChainId()` (view) */
+    getChainId: async (): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "getChainId", args: [] })) as bigint;
+    },
+
+    /** Calls `getModulesPaginated(address,uint256)` (view) */
+    getModulesPaginated: async (start: Address, pageSize: bigint): Promise<readonly [readonly Address[], Address]> => {
+      return (await publicClient.readContract({ address, abi, functionName: "getModulesPaginated", args: [start, pageSize] })) as readonly [readonly Address[], Address];
+    },
+
+    /** Calls `getOwners()` (view) */
+    getOwners: async (): Promise<readonly Address[]> => {
+      return (await publicClient.readContract({ address, abi, functionName: "getOwners", args: [] })) as readonly Address[];
+    },
+
+    /** Calls `getStorageAt(uint256,uint256)` (view) */
+    getStorageAt: async (offset: bigint, length: bigint): Promise<Hex> => {
+      return (await publicClient.readContract({ address, abi, functionName: "getStorageAt", args: [offset, length] })) as Hex;
+    },
+
+    /** Calls `getThreshold()` (view) */
+    getThreshold: async (): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "getThreshold", args: [] })) as bigint;
+    },
+
+    /** Calls `getTransactionHash(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,uint256)` (view) */
+    getTransactionHash: async (to: Address, value: bigint, data: Hex, operation: number, safeTxGas: bigint, baseGas: bigint, gasPrice: bigint, gasToken: Address, refundReceiver: Address, _nonce: bigint): Promise<Hex> => {
+      return (await publicClient.readContract({ address, abi, functionName: "getTransactionHash", args: [to, value, data, operation, safeTxGas, baseGas, gasPrice, gasToken, refundReceiver, _nonce] })) as Hex;
+    },
+
+    /** Calls `isModuleEnabled(address)` (view) */
+    isModuleEnabled: async (module: Address): Promise<boolean> => {
+      return (await publicClient.readContract({ address, abi, functionName: "isModuleEnabled", args: [module] })) as boolean;
+    },
+
+    /** Calls `isOwner(address)` (view) */
+    isOwner: async (owner: Address): Promise<boolean> => {
+      return (await publicClient.readContract({ address, abi, functionName: "isOwner", args: [owner] })) as boolean;
+    },
+
+    /** Calls `nonce()` (view) */
+    nonce: async (): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "nonce", args: [] })) as bigint;
+    },
+
+    /** Calls `removeOwner(address,address,uint256)` (nonpayable) */
+    removeOwner: async (prevOwner: Address, owner: Address, _threshold: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "removeOwner", args: [prevOwner, owner, _threshold],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `requiredTxGas(address,uint256,bytes,uint8)` (nonpayable) */
+    requiredTxGas: async (to: Address, value: bigint, data: Hex, operation: number, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "requiredTxGas", args: [to, value, data, operation],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `setFallbackHandler(address)` (nonpayable) */
+    setFallbackHandler: async (handler: Address, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "setFallbackHandler", args: [handler],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `setGuard(address)` (nonpayable) */
+    setGuard: async (guard: Address, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "setGuard", args: [guard],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `setup(address[],uint256,address,bytes,address,address,uint256,address)` (nonpayable) */
+    setup: async (_owners: readonly Address[], _threshold: bigint, to: Address, data: Hex, fallbackHandler: Address, paymentToken: Address, payment: bigint, paymentReceiver: Address, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "setup", args: [_owners, _threshold, to, data, fallbackHandler, paymentToken, payment, paymentReceiver],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `signedMessages(bytes32)` (view) */
+    signedMessages: async (arg0: Hex): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "signedMessages", args: [arg0] })) as bigint;
+    },
+
+    /** Calls `simulateAndRevert(address,bytes)` (nonpayable) */
+    simulateAndRevert: async (targetContract: Address, calldataPayload: Hex, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "simulateAndRevert", args: [targetContract, calldataPayload],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `swapOwner(address,address,address)` (nonpayable) */
+    swapOwner: async (prevOwner: Address, oldOwner: Address, newOwner: Address, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "swapOwner", args: [prevOwner, oldOwner, newOwner],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+  };
+};
+
+export type SafeClient = ReturnType<typeof createSafeClient>;
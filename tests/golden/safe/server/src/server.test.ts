@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { ethers } from 'ethers';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CONTRACT_ABI } from './abi.js';
+import { createServer, TOOLS } from './server.js';
+
+const connect = async () => {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const server = createServer();
+  const client = new Client({ name: 'smoke-test', version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return { client, server };
+};
+
+test('every tool resolves to a function of the ABI', () => {
+  const iface = new ethers.utils.Interface(CONTRACT_ABI);
+  for (const tool of TOOLS) {
+    assert.doesNotThrow(() => iface.getFunction((tool._meta?.signature as string) || tool.name), tool.name);
+  }
+});
+
+test('lists the contract tools over MCP', async () => {
+  const { client, server } = await connect();
+  const { tools } = await client.listTools();
+  assert.deepEqual(tools.map(tool => tool.name), TOOLS.map(tool => tool.name));
+  await client.close();
+  await server.close();
+});
+
+test('returns an error result for unknown tools', async () => {
+  const { client, server } = await connect();
+  const result = await client.callTool({ name: 'notAContractFunction', arguments: {} });
+  assert.equal(result.isError, true);
+  await client.close();
+  await server.close();
+});
@@ -0,0 +1,1235 @@
+import { ethers } from 'ethers';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, CallToolResult, ListToolsRequestSchema, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CONTRACT_ABI } from './abi.js';
+
+// Contract configuration
+export const CONTRACT_ADDRESS = '0x000000000000000000000000000000000000dEaD';
+export const CONTRACT_NAME = "safe";
+
+// Network: Sepolia Testnet. Set RPC_URL to use your own provider.
+const CHAIN_ID = 11155111;
+const RPC_URL = process.env.RPC_URL || 'https://ethereum-sepolia-rpc.publicnode.com';
+const provider = new ethers.providers.StaticJsonRpcProvider(RPC_URL, CHAIN_ID);
+
+// Initialize contract instance
+const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
+
+// State-changing functions are sent from this key. Without it they return an error.
+const signer = process.env.PRIVATE_KEY ? new ethers.Wallet(process.env.PRIVATE_KEY, provider) : null;
+
+// One tool per contract function; _meta.signature selects overloaded functions
+export const TOOLS: Tool[] = [
+  {
+    "name": "VERSION",
+    "description": "Calls the VERSION function. Returns: return (string). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "VERSION",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "VERSION()"
+    }
+  },
+  {
+    "name": "addOwnerWithThreshold",
+    "description": "Calls the addOwnerWithThreshold function with parameters: owner (address), _threshold (uint256). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "owner": {
+          "type": "string",
+          "description": "Ethereum address for owner (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "_threshold": {
+          "type": "string",
+          "description": "Numeric value for _threshold (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "owner",
+        "_threshold"
+      ]
+    },
+    "annotations": {
+      "title": "addOwnerWithThreshold",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "addOwnerWithThreshold(address,uint256)"
+    }
+  },
+  {
+    "name": "approveHash",
+    "description": "Calls the approveHash function with parameters: hashToApprove (bytes32). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "hashToApprove": {
+          "type": "string",
+          "description": "Bytes data for hashToApprove (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        }
+      },
+      "required": [
+        "hashToApprove"
+      ]
+    },
+    "annotations": {
+      "title": "approveHash",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "approveHash(bytes32)"
+    }
+  },
+  {
+    "name": "approvedHashes",
+    "description": "Calls the approvedHashes function with parameters: arg0 (address), arg1 (bytes32). Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "arg0": {
+          "type": "string",
+          "description": "Ethereum address for arg0 (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "arg1": {
+          "type": "string",
+          "description": "Bytes data for arg1 (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        }
+      },
+      "required": [
+        "arg0",
+        "arg1"
+      ]
+    },
+    "annotations": {
+      "title": "approvedHashes",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "approvedHashes(address,bytes32)"
+    }
+  },
+  {
+    "name": "changeThreshold",
+    "description": "Calls the changeThreshold function with parameters: _threshold (uint256). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "_threshold": {
+          "type": "string",
+          "description": "Numeric value for _threshold (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "_threshold"
+      ]
+    },
+    "annotations": {
+      "title": "changeThreshold",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "changeThreshold(uint256)"
+    }
+  },
+  {
+    "name": "checkNSignatures",
+    "description": "Calls the checkNSignatures function with parameters: dataHash (bytes32), data (bytes), signatures (bytes), requiredSignatures (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "dataHash": {
+          "type": "string",
+          "description": "Bytes data for dataHash (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        },
+        "signatures": {
+          "type": "string",
+          "description": "Bytes data for signatures (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        },
+        "requiredSignatures": {
+          "type": "string",
+          "description": "Numeric value for requiredSignatures (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "dataHash",
+        "data",
+        "signatures",
+        "requiredSignatures"
+      ]
+    },
+    "annotations": {
+      "title": "checkNSignatures",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "checkNSignatures(bytes32,bytes,bytes,uint256)"
+    }
+  },
+  {
+    "name": "checkSignatures",
+    "description": "Calls the checkSignatures function with parameters: dataHash (bytes32), data (bytes), signatures (bytes). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "dataHash": {
+          "type": "string",
+          "description": "Bytes data for dataHash (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        },
+        "signatures": {
+          "type": "string",
+          "description": "Bytes data for signatures (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        }
+      },
+      "required": [
+        "dataHash",
+        "data",
+        "signatures"
+      ]
+    },
+    "annotations": {
+      "title": "checkSignatures",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "checkSignatures(bytes32,bytes,bytes)"
+    }
+  },
+  {
+    "name": "disableModule",
+    "description": "Calls the disableModule function with parameters: prevModule (address), module (address). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "prevModule": {
+          "type": "string",
+          "description": "Ethereum address for prevModule (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "module": {
+          "type": "string",
+          "description": "Ethereum address for module (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "prevModule",
+        "module"
+      ]
+    },
+    "annotations": {
+      "title": "disableModule",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "disableModule(address,address)"
+    }
+  },
+  {
+    "name": "domainSeparator",
+    "description": "Calls the domainSeparator function. Returns: return (bytes32). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "domainSeparator",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "domainSeparator()"
+    }
+  },
+  {
+    "name": "enableModule",
+    "description": "Calls the enableModule function with parameters: module (address). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "module": {
+          "type": "string",
+          "description": "Ethereum address for module (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "module"
+      ]
+    },
+    "annotations": {
+      "title": "enableModule",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "enableModule(address)"
+    }
+  },
+  {
+    "name": "encodeTransactionData",
+    "description": "Calls the encodeTransactionData function with parameters: to (address), value (uint256), data (bytes), operation (uint8), safeTxGas (uint256), baseGas (uint256), gasPrice (uint256), gasToken (address), refundReceiver (address), _nonce (uint256). Returns: return (bytes). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "value": {
+          "type": "string",
+          "description": "Numeric value for value (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        },
+        "operation": {
+          "type": "string",
+          "description": "Parameter operation of type uint8 (uint8 as a decimal string, 0 to 255)",
+          "pattern": "^[0-9]{1,3}$"
+        },
+        "safeTxGas": {
+          "type": "string",
+          "description": "Numeric value for safeTxGas (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "baseGas": {
+          "type": "string",
+          "description": "Numeric value for baseGas (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "gasPrice": {
+          "type": "string",
+          "description": "Numeric value for gasPrice (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "gasToken": {
+          "type": "string",
+          "description": "Ethereum address for gasToken (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "refundReceiver": {
+          "type": "string",
+          "description": "Ethereum address for refundReceiver (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "_nonce": {
+          "type": "string",
+          "description": "Numeric value for _nonce (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "to",
+        "value",
+        "data",
+        "operation",
+        "safeTxGas",
+        "baseGas",
+        "gasPrice",
+        "gasToken",
+        "refundReceiver",
+        "_nonce"
+      ]
+    },
+    "annotations": {
+      "title": "encodeTransactionData",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "encodeTransactionData(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,uint256)"
+    }
+  },
+  {
+    "name": "execTransaction",
+    "description": "Calls the execTransaction function with parameters: to (address), value (uint256), data (bytes), operation (uint8), safeTxGas (uint256), baseGas (uint256), gasPrice (uint256), gasToken (address), refundReceiver (address), signatures (bytes). Returns: success (bool). This function can receive Ether.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "value": {
+          "type": "string",
+          "description": "Numeric value for value (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        },
+        "operation": {
+          "type": "string",
+          "description": "Parameter operation of type uint8 (uint8 as a decimal string, 0 to 255)",
+          "pattern": "^[0-9]{1,3}$"
+        },
+        "safeTxGas": {
+          "type": "string",
+          "description": "Numeric value for safeTxGas (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "baseGas": {
+          "type": "string",
+          "description": "Numeric value for baseGas (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "gasPrice": {
+          "type": "string",
+          "description": "Numeric value for gasPrice (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "gasToken": {
+          "type": "string",
+          "description": "Ethereum address for gasToken (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "refundReceiver": {
+          "type": "string",
+          "description": "Ethereum address for refundReceiver (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "signatures": {
+          "type": "string",
+          "description": "Bytes data for signatures (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        }
+      },
+      "required": [
+        "to",
+        "value",
+        "data",
+        "operation",
+        "safeTxGas",
+        "baseGas",
+        "gasPrice",
+        "gasToken",
+        "refundReceiver",
+        "signatures"
+      ]
+    },
+    "annotations": {
+      "title": "execTransaction",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "execTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes)"
+    }
+  },
+  {
+    "name": "execTransactionFromModule",
+    "description": "Calls the execTransactionFromModule function with parameters: to (address), value (uint256), data (bytes), operation (uint8). Returns: success (bool). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "value": {
+          "type": "string",
+          "description": "Numeric value for value (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        },
+        "operation": {
+          "type": "string",
+          "description": "Parameter operation of type uint8 (uint8 as a decimal string, 0 to 255)",
+          "pattern": "^[0-9]{1,3}$"
+        }
+      },
+      "required": [
+        "to",
+        "value",
+        "data",
+        "operation"
+      ]
+    },
+    "annotations": {
+      "title": "execTransactionFromModule",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "execTransactionFromModule(address,uint256,bytes,uint8)"
+    }
+  },
+  {
+    "name": "execTransactionFromModuleReturnData",
+    "description": "Calls the execTransactionFromModuleReturnData function with parameters: to (address), value (uint256), data (bytes), operation (uint8). Returns: success (bool), returnData (bytes). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "value": {
+          "type": "string",
+          "description": "Numeric value for value (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        },
+        "operation": {
+          "type": "string",
+          "description": "Parameter operation of type uint8 (uint8 as a decimal string, 0 to 255)",
+          "pattern": "^[0-9]{1,3}$"
+        }
+      },
+      "required": [
+        "to",
+        "value",
+        "data",
+        "operation"
+      ]
+    },
+    "annotations": {
+      "title": "execTransactionFromModuleReturnData",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "execTransactionFromModuleReturnData(address,uint256,bytes,uint8)"
+    }
+  },
+  {
+    "name": "getChainId",
+    "description": "Calls the getChainId function. Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "getChainId",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "getChainId()"
+    }
+  },
+  {
+    "name": "getModulesPaginated",
+    "description": "Calls the getModulesPaginated function with parameters: start (address), pageSize (uint256). Returns: array (address[]), next (address). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "start": {
+          "type": "string",
+          "description": "Ethereum address for start (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "pageSize": {
+          "type": "string",
+          "description": "Numeric value for pageSize (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "start",
+        "pageSize"
+      ]
+    },
+    "annotations": {
+      "title": "getModulesPaginated",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "getModulesPaginated(address,uint256)"
+    }
+  },
+  {
+    "name": "getOwners",
+    "description": "Calls the getOwners function. Returns: return (address[]). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "getOwners",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "getOwners()"
+    }
+  },
+  {
+    "name": "getStorageAt",
+    "description": "Calls the getStorageAt function with parameters: offset (uint256), length (uint256). Returns: return (bytes). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "offset": {
+          "type": "string",
+          "description": "Numeric value for offset (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "length": {
+          "type": "string",
+          "description": "Numeric value for length (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "offset",
+        "length"
+      ]
+    },
+    "annotations": {
+      "title": "getStorageAt",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "getStorageAt(uint256,uint256)"
+    }
+  },
+  {
+    "name": "getThreshold",
+    "description": "Calls the getThreshold function. Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "getThreshold",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "getThreshold()"
+    }
+  },
+  {
+    "name": "getTransactionHash",
+    "description": "Calls the getTransactionHash function with parameters: to (address), value (uint256), data (bytes), operation (uint8), safeTxGas (uint256), baseGas (uint256), gasPrice (uint256), gasToken (address), refundReceiver (address), _nonce (uint256). Returns: return (bytes32). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "value": {
+          "type": "string",
+          "description": "Numeric value for value (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        },
+        "operation": {
+          "type": "string",
+          "description": "Parameter operation of type uint8 (uint8 as a decimal string, 0 to 255)",
+          "pattern": "^[0-9]{1,3}$"
+        },
+        "safeTxGas": {
+          "type": "string",
+          "description": "Numeric value for safeTxGas (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "baseGas": {
+          "type": "string",
+          "description": "Numeric value for baseGas (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "gasPrice": {
+          "type": "string",
+          "description": "Numeric value for gasPrice (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "gasToken": {
+          "type": "string",
+          "description": "Ethereum address for gasToken (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "refundReceiver": {
+          "type": "string",
+          "description": "Ethereum address for refundReceiver (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "_nonce": {
+          "type": "string",
+          "description": "Numeric value for _nonce (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "to",
+        "value",
+        "data",
+        "operation",
+        "safeTxGas",
+        "baseGas",
+        "gasPrice",
+        "gasToken",
+        "refundReceiver",
+        "_nonce"
+      ]
+    },
+    "annotations": {
+      "title": "getTransactionHash",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "getTransactionHash(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,uint256)"
+    }
+  },
+  {
+    "name": "isModuleEnabled",
+    "description": "Calls the isModuleEnabled function with parameters: module (address). Returns: return (bool). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "module": {
+          "type": "string",
+          "description": "Ethereum address for module (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "module"
+      ]
+    },
+    "annotations": {
+      "title": "isModuleEnabled",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "isModuleEnabled(address)"
+    }
+  },
+  {
+    "name": "isOwner",
+    "description": "Calls the isOwner function with parameters: owner (address). Returns: return (bool). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "owner": {
+          "type": "string",
+          "description": "Ethereum address for owner (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "owner"
+      ]
+    },
+    "annotations": {
+      "title": "isOwner",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "isOwner(address)"
+    }
+  },
+  {
+    "name": "nonce",
+    "description": "Calls the nonce function. Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "nonce",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "nonce()"
+    }
+  },
+  {
+    "name": "removeOwner",
+    "description": "Calls the removeOwner function with parameters: prevOwner (address), owner (address), _threshold (uint256). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "prevOwner": {
+          "type": "string",
+          "description": "Ethereum address for prevOwner (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "owner": {
+          "type": "string",
+          "description": "Ethereum address for owner (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "_threshold": {
+          "type": "string",
+          "description": "Numeric value for _threshold (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "prevOwner",
+        "owner",
+        "_threshold"
+      ]
+    },
+    "annotations": {
+      "title": "removeOwner",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "removeOwner(address,address,uint256)"
+    }
+  },
+  {
+    "name": "requiredTxGas",
+    "description": "Calls the requiredTxGas function with parameters: to (address), value (uint256), data (bytes), operation (uint8). Returns: return (uint256). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "value": {
+          "type": "string",
+          "description": "Numeric value for value (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        },
+        "operation": {
+          "type": "string",
+          "description": "Parameter operation of type uint8 (uint8 as a decimal string, 0 to 255)",
+          "pattern": "^[0-9]{1,3}$"
+        }
+      },
+      "required": [
+        "to",
+        "value",
+        "data",
+        "operation"
+      ]
+    },
+    "annotations": {
+      "title": "requiredTxGas",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "requiredTxGas(address,uint256,bytes,uint8)"
+    }
+  },
+  {
+    "name": "setFallbackHandler",
+    "description": "Calls the setFallbackHandler function with parameters: handler (address). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "handler": {
+          "type": "string",
+          "description": "Ethereum address for handler (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "handler"
+      ]
+    },
+    "annotations": {
+      "title": "setFallbackHandler",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "setFallbackHandler(address)"
+    }
+  },
+  {
+    "name": "setGuard",
+    "description": "Calls the setGuard function with parameters: guard (address). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "guard": {
+          "type": "string",
+          "description": "Ethereum address for guard (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "guard"
+      ]
+    },
+    "annotations": {
+      "title": "setGuard",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "setGuard(address)"
+    }
+  },
+  {
+    "name": "setup",
+    "description": "Calls the setup function with parameters: _owners (address[]), _threshold (uint256), to (address), data (bytes), fallbackHandler (address), paymentToken (address), payment (uint256), paymentReceiver (address). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "_owners": {
+          "type": "array",
+          "items": {
+            "type": "string",
+            "description": "0x-prefixed 20-byte address",
+            "pattern": "^0x[0-9a-fA-F]{40}$"
+          },
+          "description": "Ethereum address for _owners"
+        },
+        "_threshold": {
+          "type": "string",
+          "description": "Numeric value for _threshold (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "to": {
+          "type": "string",
+          "description": "Ethereum address for to (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        },
+        "fallbackHandler": {
+          "type": "string",
+          "description": "Ethereum address for fallbackHandler (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "paymentToken": {
+          "type": "string",
+          "description": "Ethereum address for paymentToken (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "payment": {
+          "type": "string",
+          "description": "Numeric value for payment (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "paymentReceiver": {
+          "type": "string",
+          "description": "Ethereum address for paymentReceiver (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "_owners",
+        "_threshold",
+        "to",
+        "data",
+        "fallbackHandler",
+        "paymentToken",
+        "payment",
+        "paymentReceiver"
+      ]
+    },
+    "annotations": {
+      "title": "setup",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "setup(address[],uint256,address,bytes,address,address,uint256,address)"
+    }
+  },
+  {
+    "name": "signedMessages",
+    "description": "Calls the signedMessages function with parameters: arg0 (bytes32). Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "arg0": {
+          "type": "string",
+          "description": "Bytes data for arg0 (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        }
+      },
+      "required": [
+        "arg0"
+      ]
+    },
+    "annotations": {
+      "title": "signedMessages",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "signedMessages(bytes32)"
+    }
+  },
+  {
+    "name": "simulateAndRevert",
+    "description": "Calls the simulateAndRevert function with parameters: targetContract (address), calldataPayload (bytes). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "targetContract": {
+          "type": "string",
+          "description": "Ethereum address for targetContract (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "calldataPayload": {
+          "type": "string",
+          "description": "Bytes data for calldataPayload (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        }
+      },
+      "required": [
+        "targetContract",
+        "calldataPayload"
+      ]
+    },
+    "annotations": {
+      "title": "simulateAndRevert",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "simulateAndRevert(address,bytes)"
+    }
+  },
+  {
+    "name": "swapOwner",
+    "description": "Calls the swapOwner function with parameters: prevOwner (address), oldOwner (address), newOwner (address). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "prevOwner": {
+          "type": "string",
+          "description": "Ethereum address for prevOwner (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "oldOwner": {
+          "type": "string",
+          "description": "Ethereum address for oldOwner (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "newOwner": {
+          "type": "string",
+          "description": "Ethereum address for newOwner (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        }
+      },
+      "required": [
+        "prevOwner",
+        "oldOwner",
+        "newOwner"
+      ]
+    },
+    "annotations": {
+      "title": "swapOwner",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "swapOwner(address,address,address)"
+    }
+  }
+];
+
+// Converts call results to JSON: numbers become decimal strings and structs become objects
+const toJson = (value: any): any => {
+  if (ethers.BigNumber.isBigNumber(value)) return value.toString();
+  if (Array.isArray(value)) {
+    const keys = Object.keys(value).filter(key => Number.isNaN(Number(key)));
+    return keys.length === value.length
+      ? Object.fromEntries(keys.map(key => [key, toJson((value as any)[key])]))
+      : value.map(toJson);
+  }
+  return value;
+};
+
+const textResult = (value: unknown, isError = false): CallToolResult => ({
+  content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value, null, 2) }],
+  isError,
+});
+
+const callTool = async (name: string, args: Record<string, unknown>): Promise<CallToolResult> => {
+  const tool = TOOLS.find(item => item.name === name);
+  if (!tool) {
+    return textResult(`Unknown tool: ${name}`, true);
+  }
+
+  const parameters = (tool.inputSchema.required || []) as string[];
+  const missing = parameters.filter(param => args[param] === undefined);
+  if (missing.length > 0) {
+    return textResult(`Missing required parameters: ${missing.join(', ')}`, true);
+  }
+
+  const signature = (tool._meta?.signature as string) || name;
+  const values = parameters.map(param => args[param]);
+
+  try {
+    // The ABI decides between a call and a transaction; ethers reads legacy `constant` entries as view
+    const { stateMutability } = contract.interface.getFunction(signature);
+    if (stateMutability === 'view' || stateMutability === 'pure') {
+      const result = await contract[signature](...values);
+      return textResult(toJson(result));
+    }
+
+    if (!signer) {
+      return textResult(`${name} changes contract state; set PRIVATE_KEY to send transactions`, true);
+    }
+
+    const tx = await contract.connect(signer)[signature](...values);
+    const receipt = await tx.wait();
+    return textResult({
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      status: receipt.status === 1 ? 'success' : 'reverted',
+    });
+  } catch (error: any) {
+    console.error(`Error calling ${name}:`, error);
+    return textResult(`Failed to call ${name}: ${error?.reason || error?.message || String(error)}`, true);
+  }
+};
+
+export const createServer = (): Server => {
+  const server = new Server(
+    { name: "safe-mcp-server", version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) =>
+    callTool(request.params.name, request.params.arguments || {})
+  );
+
+  return server;
+};
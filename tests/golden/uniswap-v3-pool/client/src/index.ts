@@ -0,0 +1,231 @@
+import type { Abi, Account, Address, Hash, Hex, PublicClient, WalletClient } from 'viem';
+import { CONTRACT_ABI } from './abi.js';
+
+export { CONTRACT_ABI };
+
+// Where the contract was imported from: Sepolia Testnet
+export const CONTRACT_ADDRESS: Address = '0x000000000000000000000000000000000000dEaD';
+export const CHAIN_ID = 11155111;
+
+export interface WriteOptions {
+  // Sender, when the wallet client has no account of its own
+  account?: Account | Address;
+  gas?: bigint;
+  nonce?: number;
+}
+
+export interface PayableOptions extends WriteOptions {
+  // Wei sent with the call
+  value?: bigint;
+}
+
+export interface UniswapV3PoolClientConfig {
+  publicClient: PublicClient;
+  // Needed for state-changing functions
+  walletClient?: WalletClient;
+  // Defaults to CONTRACT_ADDRESS
+  address?: Address;
+}
+
+/**
+ * Typed client for uniswap-v3-pool. Read methods call the contract; write methods send a transaction and return its hash.
+ */
+export const createUniswapV3PoolClient = ({ publicClient, walletClient, address = CONTRACT_ADDRESS }: UniswapV3PoolClientConfig) => {
+  const abi = CONTRACT_ABI as Abi;
+
+  const getWalletClient = (): WalletClient => {
+    if (!walletClient) {
+      throw new Error('A walletClient is required for state-changing functions');
+    }
+    return walletClient;
+  };
+
+  return {
+    address,
+    /** Calls `burn(int24,int24,uint128)` (nonpayable) */
+    burn: async (tickLower: number, tickUpper: number, amount: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "burn", args: [tickLower, tickUpper, amount],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `collect(address,int24,int24,uint128,uint128)` (nonpayable) */
+    collect: async (recipient: Address, tickLower: number, tickUpper: number, amount0Requested: bigint, amount1Requested: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "collect", args: [recipient, tickLower, tickUpper, amount0Requested, amount1Requested],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `collectProtocol(address,uint128,uint128)` (nonpayable) */
+    collectProtocol: async (recipient: Address, amount0Requested: bigint, amount1Requested: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "collectProtocol", args: [recipient, amount0Requested, amount1Requested],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `factory()` (view) */
+    factory: async (): Promise<Address> => {
+      return (await publicClient.readContract({ address, abi, functionName: "factory", args: [] })) as Address;
+    },
+
+    /** Calls `fee()` (view) */
+    fee: async (): Promise<number> => {
+      return (await publicClient.readContract({ address, abi, functionName: "fee", args: [] })) as number;
+    },
+
+    /** Calls `feeGrowthGlobal0X128()` (view) */
+    feeGrowthGlobal0X128: async (): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "feeGrowthGlobal0X128", args: [] })) as bigint;
+    },
+
+    /** Calls `feeGrowthGlobal1X128()` (view) */
+    feeGrowthGlobal1X128: async (): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "feeGrowthGlobal1X128", args: [] })) as bigint;
+    },
+
+    /** Calls `flash(address,uint256,uint256,bytes)` (nonpayable) */
+    flash: async (recipient: Address, amount0: bigint, amount1: bigint, data: Hex, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "flash", args: [recipient, amount0, amount1, data],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `increaseObservationCardinalityNext(uint16)` (nonpayable) */
+    increaseObservationCardinalityNext: async (observationCardinalityNext: number, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "increaseObservationCardinalityNext", args: [observationCardinalityNext],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `initialize(uint160)` (nonpayable) */
+    initialize: async (sqrtPriceX96: bigint, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "initialize", args: [sqrtPriceX96],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `liquidity()` (view) */
+    liquidity: async (): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "liquidity", args: [] })) as bigint;
+    },
+
+    /** Calls `maxLiquidityPerTick()` (view) */
+    maxLiquidityPerTick: async (): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "maxLiquidityPerTick", args: [] })) as bigint;
+    },
+
+    /** Calls `mint(address,int24,int24,uint128,bytes)` (nonpayable) */
+    mint: async (recipient: Address, tickLower: number, tickUpper: number, amount: bigint, data: Hex, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "mint", args: [recipient, tickLower, tickUpper, amount, data],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `observations(uint256)` (view) */
+    observations: async (arg0: bigint): Promise<readonly [number, bigint, bigint, boolean]> => {
+      return (await publicClient.readContract({ address, abi, functionName: "observations", args: [arg0] })) as readonly [number, bigint, bigint, boolean];
+    },
+
+    /** Calls `observe(uint32[])` (view) */
+    observe: async (secondsAgos: readonly number[]): Promise<readonly [readonly bigint[], readonly bigint[]]> => {
+      return (await publicClient.readContract({ address, abi, functionName: "observe", args: [secondsAgos] })) as readonly [readonly bigint[], readonly bigint[]];
+    },
+
+    /** Calls `positions(bytes32)` (view) */
+    positions: async (arg0: Hex): Promise<readonly [bigint, bigint, bigint, bigint, bigint]> => {
+      return (await publicClient.readContract({ address, abi, functionName: "positions", args: [arg0] })) as readonly [bigint, bigint, bigint, bigint, bigint];
+    },
+
+    /** Calls `protocolFees()` (view) */
+    protocolFees: async (): Promise<readonly [bigint, bigint]> => {
+      return (await publicClient.readContract({ address, abi, functionName: "protocolFees", args: [] })) as readonly [bigint, bigint];
+    },
+
+    /** Calls `setFeeProtocol(uint8,uint8)` (nonpayable) */
+    setFeeProtocol: async (feeProtocol0: number, feeProtocol1: number, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "setFeeProtocol", args: [feeProtocol0, feeProtocol1],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `slot0()` (view) */
+    slot0: async (): Promise<readonly [bigint, number, number, number, number, number, boolean]> => {
+      return (await publicClient.readContract({ address, abi, functionName: "slot0", args: [] })) as readonly [bigint, number, number, number, number, number, boolean];
+    },
+
+    /** Calls `snapshotCumulativesInside(int24,int24)` (view) */
+    snapshotCumulativesInside: async (tickLower: number, tickUpper: number): Promise<readonly [bigint, bigint, number]> => {
+      return (await publicClient.readContract({ address, abi, functionName: "snapshotCumulativesInside", args: [tickLower, tickUpper] })) as readonly [bigint, bigint, number];
+    },
+
+    /** Calls `swap(address,bool,int256,uint160,bytes)` (nonpayable) */
+    swap: async (recipient: Address, zeroForOne: boolean, amountSpecified: bigint, sqrtPriceLimitX96: bigint, data: Hex, options: WriteOptions = {}): Promise<Hash> => {
+      const wallet = getWalletClient();
+      return wallet.writeContract({
+        address, abi, functionName: "swap", args: [recipient, zeroForOne, amountSpecified, sqrtPriceLimitX96, data],
+        ...options,
+        account: options.account ?? wallet.account ?? null,
+        chain: wallet.chain ?? null,
+      });
+    },
+
+    /** Calls `tickBitmap(int16)` (view) */
+    tickBitmap: async (arg0: number): Promise<bigint> => {
+      return (await publicClient.readContract({ address, abi, functionName: "tickBitmap", args: [arg0] })) as bigint;
+    },
+
+    /** Calls `tickSpacing()` (view) */
+    tickSpacing: async (): Promise<number> => {
+      return (await publicClient.readContract({ address, abi, functionName: "tickSpacing", args: [] })) as number;
+    },
+
+    /** Calls `ticks(int24)` (view) */
+    ticks: async (arg0: number): Promise<readonly [bigint, bigint, bigint, bigint, bigint, bigint, number, boolean]> => {
+      return (await publicClient.readContract({ address, abi, functionName: "ticks", args: [arg0] })) as readonly [bigint, bigint, bigint, bigint, bigint, bigint, number, boolean];
+    },
+
+    /** Calls `token0()` (view) */
+    token0: async (): Promise<Address> => {
+      return (await publicClient.readContract({ address, abi, functionName: "token0", args: [] })) as Address;
+    },
+
+    /** Calls `token1()` (view) */
+    token1: async (): Promise<Address> => {
+      return (await publicClient.readContract({ address, abi, functionName: "token1", args: [] })) as Address;
+    },
+  };
+};
+
+export type UniswapV3PoolClient = ReturnType<typeof createUniswapV3PoolClient>;
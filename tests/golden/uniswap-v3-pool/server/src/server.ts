@@ -0,0 +1,837 @@
+import { ethers } from 'ethers';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, CallToolResult, ListToolsRequestSchema, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CONTRACT_ABI } from './abi.js';
+
+// Contract configuration
+export const CONTRACT_ADDRESS = '0x000000000000000000000000000000000000dEaD';
+export const CONTRACT_NAME = "uniswap-v3-pool";
+
+// Network: Sepolia Testnet. Set RPC_URL to use your own provider.
+const CHAIN_ID = 11155111;
+const RPC_URL = process.env.RPC_URL || 'https://ethereum-sepolia-rpc.publicnode.com';
+const provider = new ethers.providers.StaticJsonRpcProvider(RPC_URL, CHAIN_ID);
+
+// Initialize contract instance
+const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
+
+// State-changing functions are sent from this key. Without it they return an error.
+const signer = process.env.PRIVATE_KEY ? new ethers.Wallet(process.env.PRIVATE_KEY, provider) : null;
+
+// One tool per contract function; _meta.signature selects overloaded functions
+export const TOOLS: Tool[] = [
+  {
+    "name": "burn",
+    "description": "Calls the burn function with parameters: tickLower (int24), tickUpper (int24), amount (uint128). Returns: amount0 (uint256), amount1 (uint256). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "tickLower": {
+          "type": "string",
+          "description": "Parameter tickLower of type int24 (int24 as a decimal string, -8388608 to 8388607)",
+          "pattern": "^-?[0-9]{1,7}$"
+        },
+        "tickUpper": {
+          "type": "string",
+          "description": "Parameter tickUpper of type int24 (int24 as a decimal string, -8388608 to 8388607)",
+          "pattern": "^-?[0-9]{1,7}$"
+        },
+        "amount": {
+          "type": "string",
+          "description": "Parameter amount of type uint128 (uint128 as a decimal string, 0 to 2^128-1)",
+          "pattern": "^[0-9]{1,39}$"
+        }
+      },
+      "required": [
+        "tickLower",
+        "tickUpper",
+        "amount"
+      ]
+    },
+    "annotations": {
+      "title": "burn",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "burn(int24,int24,uint128)"
+    }
+  },
+  {
+    "name": "collect",
+    "description": "Calls the collect function with parameters: recipient (address), tickLower (int24), tickUpper (int24), amount0Requested (uint128), amount1Requested (uint128). Returns: amount0 (uint128), amount1 (uint128). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "recipient": {
+          "type": "string",
+          "description": "Ethereum address for recipient (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "tickLower": {
+          "type": "string",
+          "description": "Parameter tickLower of type int24 (int24 as a decimal string, -8388608 to 8388607)",
+          "pattern": "^-?[0-9]{1,7}$"
+        },
+        "tickUpper": {
+          "type": "string",
+          "description": "Parameter tickUpper of type int24 (int24 as a decimal string, -8388608 to 8388607)",
+          "pattern": "^-?[0-9]{1,7}$"
+        },
+        "amount0Requested": {
+          "type": "string",
+          "description": "Parameter amount0Requested of type uint128 (uint128 as a decimal string, 0 to 2^128-1)",
+          "pattern": "^[0-9]{1,39}$"
+        },
+        "amount1Requested": {
+          "type": "string",
+          "description": "Parameter amount1Requested of type uint128 (uint128 as a decimal string, 0 to 2^128-1)",
+          "pattern": "^[0-9]{1,39}$"
+        }
+      },
+      "required": [
+        "recipient",
+        "tickLower",
+        "tickUpper",
+        "amount0Requested",
+        "amount1Requested"
+      ]
+    },
+    "annotations": {
+      "title": "collect",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "collect(address,int24,int24,uint128,uint128)"
+    }
+  },
+  {
+    "name": "collectProtocol",
+    "description": "Calls the collectProtocol function with parameters: recipient (address), amount0Requested (uint128), amount1Requested (uint128). Returns: amount0 (uint128), amount1 (uint128). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "recipient": {
+          "type": "string",
+          "description": "Ethereum address for recipient (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "amount0Requested": {
+          "type": "string",
+          "description": "Parameter amount0Requested of type uint128 (uint128 as a decimal string, 0 to 2^128-1)",
+          "pattern": "^[0-9]{1,39}$"
+        },
+        "amount1Requested": {
+          "type": "string",
+          "description": "Parameter amount1Requested of type uint128 (uint128 as a decimal string, 0 to 2^128-1)",
+          "pattern": "^[0-9]{1,39}$"
+        }
+      },
+      "required": [
+        "recipient",
+        "amount0Requested",
+        "amount1Requested"
+      ]
+    },
+    "annotations": {
+      "title": "collectProtocol",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "collectProtocol(address,uint128,uint128)"
+    }
+  },
+  {
+    "name": "factory",
+    "description": "Calls the factory function. Returns: return (address). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "factory",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "factory()"
+    }
+  },
+  {
+    "name": "fee",
+    "description": "Calls the fee function. Returns: return (uint24). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "fee",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "fee()"
+    }
+  },
+  {
+    "name": "feeGrowthGlobal0X128",
+    "description": "Calls the feeGrowthGlobal0X128 function. Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "feeGrowthGlobal0X128",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "feeGrowthGlobal0X128()"
+    }
+  },
+  {
+    "name": "feeGrowthGlobal1X128",
+    "description": "Calls the feeGrowthGlobal1X128 function. Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "feeGrowthGlobal1X128",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "feeGrowthGlobal1X128()"
+    }
+  },
+  {
+    "name": "flash",
+    "description": "Calls the flash function with parameters: recipient (address), amount0 (uint256), amount1 (uint256), data (bytes). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "recipient": {
+          "type": "string",
+          "description": "Ethereum address for recipient (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "amount0": {
+          "type": "string",
+          "description": "Numeric value for amount0 (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "amount1": {
+          "type": "string",
+          "description": "Numeric value for amount1 (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        }
+      },
+      "required": [
+        "recipient",
+        "amount0",
+        "amount1",
+        "data"
+      ]
+    },
+    "annotations": {
+      "title": "flash",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "flash(address,uint256,uint256,bytes)"
+    }
+  },
+  {
+    "name": "increaseObservationCardinalityNext",
+    "description": "Calls the increaseObservationCardinalityNext function with parameters: observationCardinalityNext (uint16). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "observationCardinalityNext": {
+          "type": "string",
+          "description": "Parameter observationCardinalityNext of type uint16 (uint16 as a decimal string, 0 to 65535)",
+          "pattern": "^[0-9]{1,5}$"
+        }
+      },
+      "required": [
+        "observationCardinalityNext"
+      ]
+    },
+    "annotations": {
+      "title": "increaseObservationCardinalityNext",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "increaseObservationCardinalityNext(uint16)"
+    }
+  },
+  {
+    "name": "initialize",
+    "description": "Calls the initialize function with parameters: sqrtPriceX96 (uint160). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "sqrtPriceX96": {
+          "type": "string",
+          "description": "Parameter sqrtPriceX96 of type uint160 (uint160 as a decimal string, 0 to 2^160-1)",
+          "pattern": "^[0-9]{1,49}$"
+        }
+      },
+      "required": [
+        "sqrtPriceX96"
+      ]
+    },
+    "annotations": {
+      "title": "initialize",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "initialize(uint160)"
+    }
+  },
+  {
+    "name": "liquidity",
+    "description": "Calls the liquidity function. Returns: return (uint128). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "liquidity",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "liquidity()"
+    }
+  },
+  {
+    "name": "maxLiquidityPerTick",
+    "description": "Calls the maxLiquidityPerTick function. Returns: return (uint128). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "maxLiquidityPerTick",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "maxLiquidityPerTick()"
+    }
+  },
+  {
+    "name": "mint",
+    "description": "Calls the mint function with parameters: recipient (address), tickLower (int24), tickUpper (int24), amount (uint128), data (bytes). Returns: amount0 (uint256), amount1 (uint256). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "recipient": {
+          "type": "string",
+          "description": "Ethereum address for recipient (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "tickLower": {
+          "type": "string",
+          "description": "Parameter tickLower of type int24 (int24 as a decimal string, -8388608 to 8388607)",
+          "pattern": "^-?[0-9]{1,7}$"
+        },
+        "tickUpper": {
+          "type": "string",
+          "description": "Parameter tickUpper of type int24 (int24 as a decimal string, -8388608 to 8388607)",
+          "pattern": "^-?[0-9]{1,7}$"
+        },
+        "amount": {
+          "type": "string",
+          "description": "Parameter amount of type uint128 (uint128 as a decimal string, 0 to 2^128-1)",
+          "pattern": "^[0-9]{1,39}$"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        }
+      },
+      "required": [
+        "recipient",
+        "tickLower",
+        "tickUpper",
+        "amount",
+        "data"
+      ]
+    },
+    "annotations": {
+      "title": "mint",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "mint(address,int24,int24,uint128,bytes)"
+    }
+  },
+  {
+    "name": "observations",
+    "description": "Calls the observations function with parameters: arg0 (uint256). Returns: blockTimestamp (uint32), tickCumulative (int56), secondsPerLiquidityCumulativeX128 (uint160), initialized (bool). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "arg0": {
+          "type": "string",
+          "description": "Numeric value for arg0 (uint256 as a decimal string, 0 to 2^256-1)",
+          "pattern": "^[0-9]{1,78}$"
+        }
+      },
+      "required": [
+        "arg0"
+      ]
+    },
+    "annotations": {
+      "title": "observations",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "observations(uint256)"
+    }
+  },
+  {
+    "name": "observe",
+    "description": "Calls the observe function with parameters: secondsAgos (uint32[]). Returns: tickCumulatives (int56[]), secondsPerLiquidityCumulativeX128s (uint160[]). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "secondsAgos": {
+          "type": "array",
+          "items": {
+            "type": "string",
+            "description": "uint32 as a decimal string, 0 to 4294967295",
+            "pattern": "^[0-9]{1,10}$"
+          },
+          "description": "Parameter secondsAgos of type uint32[]"
+        }
+      },
+      "required": [
+        "secondsAgos"
+      ]
+    },
+    "annotations": {
+      "title": "observe",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "observe(uint32[])"
+    }
+  },
+  {
+    "name": "positions",
+    "description": "Calls the positions function with parameters: arg0 (bytes32). Returns: liquidity (uint128), feeGrowthInside0LastX128 (uint256), feeGrowthInside1LastX128 (uint256), tokensOwed0 (uint128), tokensOwed1 (uint128). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "arg0": {
+          "type": "string",
+          "description": "Bytes data for arg0 (0x-prefixed hex, exactly 32 bytes)",
+          "pattern": "^0x[0-9a-fA-F]{64}$"
+        }
+      },
+      "required": [
+        "arg0"
+      ]
+    },
+    "annotations": {
+      "title": "positions",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "positions(bytes32)"
+    }
+  },
+  {
+    "name": "protocolFees",
+    "description": "Calls the protocolFees function. Returns: token0 (uint128), token1 (uint128). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "protocolFees",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "protocolFees()"
+    }
+  },
+  {
+    "name": "setFeeProtocol",
+    "description": "Calls the setFeeProtocol function with parameters: feeProtocol0 (uint8), feeProtocol1 (uint8). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "feeProtocol0": {
+          "type": "string",
+          "description": "Parameter feeProtocol0 of type uint8 (uint8 as a decimal string, 0 to 255)",
+          "pattern": "^[0-9]{1,3}$"
+        },
+        "feeProtocol1": {
+          "type": "string",
+          "description": "Parameter feeProtocol1 of type uint8 (uint8 as a decimal string, 0 to 255)",
+          "pattern": "^[0-9]{1,3}$"
+        }
+      },
+      "required": [
+        "feeProtocol0",
+        "feeProtocol1"
+      ]
+    },
+    "annotations": {
+      "title": "setFeeProtocol",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "setFeeProtocol(uint8,uint8)"
+    }
+  },
+  {
+    "name": "slot0",
+    "description": "Calls the slot0 function. Returns: sqrtPriceX96 (uint160), tick (int24), observationIndex (uint16), observationCardinality (uint16), observationCardinalityNext (uint16), feeProtocol (uint8), unlocked (bool). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "slot0",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "slot0()"
+    }
+  },
+  {
+    "name": "snapshotCumulativesInside",
+    "description": "Calls the snapshotCumulativesInside function with parameters: tickLower (int24), tickUpper (int24). Returns: tickCumulativeInside (int56), secondsPerLiquidityInsideX128 (uint160), secondsInside (uint32). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "tickLower": {
+          "type": "string",
+          "description": "Parameter tickLower of type int24 (int24 as a decimal string, -8388608 to 8388607)",
+          "pattern": "^-?[0-9]{1,7}$"
+        },
+        "tickUpper": {
+          "type": "string",
+          "description": "Parameter tickUpper of type int24 (int24 as a decimal string, -8388608 to 8388607)",
+          "pattern": "^-?[0-9]{1,7}$"
+        }
+      },
+      "required": [
+        "tickLower",
+        "tickUpper"
+      ]
+    },
+    "annotations": {
+      "title": "snapshotCumulativesInside",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "snapshotCumulativesInside(int24,int24)"
+    }
+  },
+  {
+    "name": "swap",
+    "description": "Calls the swap function with parameters: recipient (address), zeroForOne (bool), amountSpecified (int256), sqrtPriceLimitX96 (uint160), data (bytes). Returns: amount0 (int256), amount1 (int256). This function may modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "recipient": {
+          "type": "string",
+          "description": "Ethereum address for recipient (0x-prefixed 20-byte address)",
+          "pattern": "^0x[0-9a-fA-F]{40}$"
+        },
+        "zeroForOne": {
+          "type": "boolean",
+          "description": "Boolean flag for zeroForOne"
+        },
+        "amountSpecified": {
+          "type": "string",
+          "description": "Parameter amountSpecified of type int256 (int256 as a decimal string, -2^255 to 2^255-1)",
+          "pattern": "^-?[0-9]{1,77}$"
+        },
+        "sqrtPriceLimitX96": {
+          "type": "string",
+          "description": "Parameter sqrtPriceLimitX96 of type uint160 (uint160 as a decimal string, 0 to 2^160-1)",
+          "pattern": "^[0-9]{1,49}$"
+        },
+        "data": {
+          "type": "string",
+          "description": "Bytes data for data (0x-prefixed hex bytes)",
+          "pattern": "^0x([0-9a-fA-F]{2})*$"
+        }
+      },
+      "required": [
+        "recipient",
+        "zeroForOne",
+        "amountSpecified",
+        "sqrtPriceLimitX96",
+        "data"
+      ]
+    },
+    "annotations": {
+      "title": "swap",
+      "readOnlyHint": false,
+      "destructiveHint": true,
+      "idempotentHint": false,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "swap(address,bool,int256,uint160,bytes)"
+    }
+  },
+  {
+    "name": "tickBitmap",
+    "description": "Calls the tickBitmap function with parameters: arg0 (int16). Returns: return (uint256). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "arg0": {
+          "type": "string",
+          "description": "Parameter arg0 of type int16 (int16 as a decimal string, -32768 to 32767)",
+          "pattern": "^-?[0-9]{1,5}$"
+        }
+      },
+      "required": [
+        "arg0"
+      ]
+    },
+    "annotations": {
+      "title": "tickBitmap",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "tickBitmap(int16)"
+    }
+  },
+  {
+    "name": "tickSpacing",
+    "description": "Calls the tickSpacing function. Returns: return (int24). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "tickSpacing",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "tickSpacing()"
+    }
+  },
+  {
+    "name": "ticks",
+    "description": "Calls the ticks function with parameters: arg0 (int24). Returns: liquidityGross (uint128), liquidityNet (int128), feeGrowthOutside0X128 (uint256), feeGrowthOutside1X128 (uint256), tickCumulativeOutside (int56), secondsPerLiquidityOutsideX128 (uint160), secondsOutside (uint32), initialized (bool). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "arg0": {
+          "type": "string",
+          "description": "Parameter arg0 of type int24 (int24 as a decimal string, -8388608 to 8388607)",
+          "pattern": "^-?[0-9]{1,7}$"
+        }
+      },
+      "required": [
+        "arg0"
+      ]
+    },
+    "annotations": {
+      "title": "ticks",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "ticks(int24)"
+    }
+  },
+  {
+    "name": "token0",
+    "description": "Calls the token0 function. Returns: return (address). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "token0",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "token0()"
+    }
+  },
+  {
+    "name": "token1",
+    "description": "Calls the token1 function. Returns: return (address). This function does not modify blockchain state.",
+    "inputSchema": {
+      "type": "object",
+      "properties": {},
+      "required": []
+    },
+    "annotations": {
+      "title": "token1",
+      "readOnlyHint": true,
+      "destructiveHint": false,
+      "idempotentHint": true,
+      "openWorldHint": true
+    },
+    "_meta": {
+      "signature": "token1()"
+    }
+  }
+];
+
+// Converts call results to JSON: numbers become decimal strings and structs become objects
+const toJson = (value: any): any => {
+  if (ethers.BigNumber.isBigNumber(value)) return value.toString();
+  if (Array.isArray(value)) {
+    const keys = Object.keys(value).filter(key => Number.isNaN(Number(key)));
+    return keys.length === value.length
+      ? Object.fromEntries(keys.map(key => [key, toJson((value as any)[key])]))
+      : value.map(toJson);
+  }
+  return value;
+};
+
+const textResult = (value: unknown, isError = false): CallToolResult => ({
+  content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value, null, 2) }],
+  isError,
+});
+
+const callTool = async (name: string, args: Record<string, unknown>): Promise<CallToolResult> => {
+  const tool = TOOLS.find(item => item.name === name);
+  if (!tool) {
+    return textResult(`Unknown tool: ${name}`, true);
+  }
+
+  const parameters = (tool.inputSchema.required || []) as string[];
+  const missing = parameters.filter(param => args[param] === undefined);
+  if (missing.length > 0) {
+    return textResult(`Missing required parameters: ${missing.join(', ')}`, true);
+  }
+
+  const signature = (tool._meta?.signature as string) || name;
+  const values = parameters.map(param => args[param]);
+
+  try {
+    // The ABI decides between a call and a transaction; ethers reads legacy `constant` entries as view
+    const { stateMutability } = contract.interface.getFunction(signature);
+    if (stateMutability === 'view' || stateMutability === 'pure') {
+      const result = await contract[signature](...values);
+      return textResult(toJson(result));
+    }
+
+    if (!signer) {
+      return textResult(`${name} changes contract state; set PRIVATE_KEY to send transactions`, true);
+    }
+
+    const tx = await contract.connect(signer)[signature](...values);
+    const receipt = await tx.wait();
+    return textResult({
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      status: receipt.status === 1 ? 'success' : 'reverted',
+    });
+  } catch (error: any) {
+    console.error(`Error calling ${name}:`, error);
+    return textResult(`Failed to call ${name}: ${error?.reason || error?.message || String(error)}`, true);
+  }
+};
+
+export const createServer = (): Server => {
+  const server = new Server(
+    { name: "uniswap-v3-pool-mcp-server", version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) =>
+    callTool(request.params.name, request.params.arguments || {})
+  );
+
+  return server;
+};